@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "DeploymentJobStatus" AS ENUM ('queued', 'running', 'completed', 'failed');
+
+-- CreateTable
+CREATE TABLE "DeploymentJob" (
+    "id" SERIAL NOT NULL,
+    "deploymentId" INTEGER NOT NULL,
+    "status" "DeploymentJobStatus" NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lockedBy" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "heartbeatAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeploymentJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeploymentJob_deploymentId_key" ON "DeploymentJob"("deploymentId");
+
+-- CreateIndex
+CREATE INDEX "DeploymentJob_status_createdAt_idx" ON "DeploymentJob"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "DeploymentJob" ADD CONSTRAINT "DeploymentJob_deploymentId_fkey" FOREIGN KEY ("deploymentId") REFERENCES "Deployment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
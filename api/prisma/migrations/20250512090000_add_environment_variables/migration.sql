@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "EnvironmentVariableScope" AS ENUM ('build', 'runtime', 'both');
+
+-- CreateTable
+CREATE TABLE "EnvironmentVariable" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "encryptedValue" TEXT NOT NULL,
+    "secret" BOOLEAN NOT NULL DEFAULT true,
+    "scope" "EnvironmentVariableScope" NOT NULL DEFAULT 'both',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EnvironmentVariable_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EnvironmentVariable_projectId_key_key" ON "EnvironmentVariable"("projectId", "key");
+
+-- AddForeignKey
+ALTER TABLE "EnvironmentVariable" ADD CONSTRAINT "EnvironmentVariable_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
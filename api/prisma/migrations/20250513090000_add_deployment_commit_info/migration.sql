@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Deployment" ADD COLUMN     "commitAuthor" TEXT,
+ADD COLUMN     "commitMessage" TEXT,
+ADD COLUMN     "commitSha" TEXT,
+ADD COLUMN     "commitTimestamp" TIMESTAMP(3);
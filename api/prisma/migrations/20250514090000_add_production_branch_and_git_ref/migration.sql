@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Deployment" ADD COLUMN     "gitRef" TEXT;
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "productionBranch" TEXT;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "ProjectEventType" AS ENUM ('rollback');
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "liveDeploymentId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ProjectEvent" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "type" "ProjectEventType" NOT NULL,
+    "deploymentId" INTEGER NOT NULL,
+    "previousDeploymentId" INTEGER,
+    "userId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectEvent_projectId_createdAt_idx" ON "ProjectEvent"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ProjectEvent" ADD CONSTRAINT "ProjectEvent_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "productionUrl" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_productionUrl_key" ON "Project"("productionUrl");
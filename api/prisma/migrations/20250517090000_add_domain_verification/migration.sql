@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Domain" ADD COLUMN     "verificationToken" TEXT NOT NULL DEFAULT '',
+ADD COLUMN     "verifiedAt" TIMESTAMP(3);
+
+-- Domains are only created through addDomain from now on, which always sets a token
+ALTER TABLE "Domain" ALTER COLUMN "verificationToken" DROP DEFAULT;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "SslCertificate" ADD COLUMN     "expiresAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "privateKey" TEXT NOT NULL DEFAULT '',
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Only the defaults for existing rows were needed; certificateService always sets these
+ALTER TABLE "SslCertificate" ALTER COLUMN "expiresAt" DROP DEFAULT,
+ALTER COLUMN "privateKey" DROP DEFAULT,
+ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "SslCertificate_expiresAt_idx" ON "SslCertificate"("expiresAt");
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "DeploymentStatus" ADD VALUE 'cancelled';
+
+-- AlterEnum
+ALTER TYPE "DeploymentJobStatus" ADD VALUE 'cancelled';
+
+-- AlterTable
+ALTER TABLE "DeploymentJob" ADD COLUMN "cancelRequestedAt" TIMESTAMP(3);
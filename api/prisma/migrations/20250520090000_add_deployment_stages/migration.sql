@@ -0,0 +1,33 @@
+-- AlterEnum
+-- Existing rows keep their meaning: pending -> queued, deploying -> cloning, success -> ready
+ALTER TYPE "DeploymentStatus" RENAME VALUE 'pending' TO 'queued';
+ALTER TYPE "DeploymentStatus" RENAME VALUE 'deploying' TO 'cloning';
+ALTER TYPE "DeploymentStatus" RENAME VALUE 'success' TO 'ready';
+ALTER TYPE "DeploymentStatus" ADD VALUE 'building' AFTER 'cloning';
+ALTER TYPE "DeploymentStatus" ADD VALUE 'extracting' AFTER 'building';
+ALTER TYPE "DeploymentStatus" ADD VALUE 'starting' AFTER 'extracting';
+ALTER TYPE "DeploymentStatus" ADD VALUE 'configuring_proxy' AFTER 'starting';
+
+-- AlterTable
+ALTER TABLE "Deployment" ALTER COLUMN "status" SET DEFAULT 'queued';
+
+-- CreateEnum
+CREATE TYPE "DeploymentStageName" AS ENUM ('cloning', 'building', 'extracting', 'starting', 'configuring_proxy');
+
+-- CreateTable
+CREATE TABLE "DeploymentStage" (
+    "id" SERIAL NOT NULL,
+    "deploymentId" INTEGER NOT NULL,
+    "name" "DeploymentStageName" NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "error" TEXT,
+
+    CONSTRAINT "DeploymentStage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeploymentStage_deploymentId_name_key" ON "DeploymentStage"("deploymentId", "name");
+
+-- AddForeignKey
+ALTER TABLE "DeploymentStage" ADD CONSTRAINT "DeploymentStage_deploymentId_fkey" FOREIGN KEY ("deploymentId") REFERENCES "Deployment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "healthCheckExpectedStatus" INTEGER,
+ADD COLUMN     "healthCheckPath" TEXT NOT NULL DEFAULT '/',
+ADD COLUMN     "healthCheckRetries" INTEGER NOT NULL DEFAULT 15,
+ADD COLUMN     "healthCheckTimeoutMs" INTEGER NOT NULL DEFAULT 5000;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "DeploymentHealthStatus" AS ENUM ('healthy', 'unhealthy');
+
+-- AlterTable
+ALTER TABLE "Deployment" ADD COLUMN     "consecutiveHealthFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "healthCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "healthStatus" "DeploymentHealthStatus",
+ADD COLUMN     "nextRestartAt" TIMESTAMP(3),
+ADD COLUMN     "restartAttempts" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "DeploymentIncident" (
+    "id" SERIAL NOT NULL,
+    "deploymentId" INTEGER NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "reason" TEXT NOT NULL,
+    "restarts" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "DeploymentIncident_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeploymentIncident_deploymentId_startedAt_idx" ON "DeploymentIncident"("deploymentId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "DeploymentIncident" ADD CONSTRAINT "DeploymentIncident_deploymentId_fkey" FOREIGN KEY ("deploymentId") REFERENCES "Deployment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "buildCacheClearRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "buildCacheSizeBytes" BIGINT;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Deployment" ADD COLUMN     "diskUsageBytes" BIGINT;
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "buildCpus" DOUBLE PRECISION,
+ADD COLUMN     "buildMemoryMb" INTEGER,
+ADD COLUMN     "diskMb" INTEGER,
+ADD COLUMN     "runtimeCpus" DOUBLE PRECISION,
+ADD COLUMN     "runtimeMemoryMb" INTEGER;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "planId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Plan" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "maxConcurrentBuilds" INTEGER NOT NULL,
+    "maxLiveDeployments" INTEGER NOT NULL,
+    "maxDiskMb" INTEGER NOT NULL,
+    "maxCpus" DOUBLE PRECISION NOT NULL,
+    "maxMemoryMb" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Plan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Plan_name_key" ON "Plan"("name");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_planId_fkey" FOREIGN KEY ("planId") REFERENCES "Plan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
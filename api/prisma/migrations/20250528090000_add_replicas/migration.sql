@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Deployment" ADD COLUMN     "replicaPorts" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "replicas" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "PortLease" (
+    "port" INTEGER NOT NULL,
+    "deploymentId" INTEGER,
+    "replica" INTEGER,
+    "leasedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PortLease_pkey" PRIMARY KEY ("port")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PortLease_deploymentId_replica_key" ON "PortLease"("deploymentId", "replica");
+
+-- AddForeignKey
+ALTER TABLE "PortLease" ADD CONSTRAINT "PortLease_deploymentId_fkey" FOREIGN KEY ("deploymentId") REFERENCES "Deployment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
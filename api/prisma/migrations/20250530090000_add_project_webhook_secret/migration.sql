@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "webhookSecret" TEXT;
+
+-- Give every existing project its own secret: the platform-wide GITHUB_WEBHOOK_SECRET is no longer accepted
+UPDATE "Project" SET "webhookSecret" = replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+
+ALTER TABLE "Project" ALTER COLUMN "webhookSecret" SET NOT NULL;
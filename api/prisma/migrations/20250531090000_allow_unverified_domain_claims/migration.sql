@@ -0,0 +1,9 @@
+-- DropIndex
+DROP INDEX "Domain_domainName_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Domain_projectId_domainName_key" ON "Domain"("projectId", "domainName");
+
+-- Any number of projects may claim a domain, but only one can have verified it.
+-- Partial indexes cannot be declared in schema.prisma, so this one only exists here.
+CREATE UNIQUE INDEX "Domain_domainName_verified_key" ON "Domain"("domainName") WHERE "verifiedAt" IS NOT NULL;
@@ -0,0 +1,112 @@
+// src/buildCacheService.ts
+
+import { PrismaClient } from '@prisma/client';
+import { getDeploymentImageName } from './utils';
+
+const prisma = new PrismaClient();
+
+// --- Build Cache ---
+// The default Dockerfiles keep the package manager caches and `.next/cache` in BuildKit cache mounts
+// whose ids start with the project's cache id, so deployments of the same project share them.
+// Every build also reuses the layers of the project's last successful image (--cache-from).
+// The build prints the size of the cache mounts; a project over the limit, or one whose cache was
+// cleared, builds its next deployment from empty caches and without --cache-from.
+
+const BUILD_CACHE_MAX_BYTES = parseInt(process.env.BUILD_CACHE_MAX_BYTES || '', 10) || 1024 * 1024 * 1024;
+// Printed by the default Dockerfiles after the build step
+const BUILD_CACHE_SIZE_PATTERN = /\[Build Cache\] size-kb=(\d+)/;
+
+export interface BuildCacheOptions {
+    id: string; // Prefix of the project's cache mount ids
+    cacheFromImage: string | null; // Image of the project's last successful deployment, if any
+    reset: boolean; // Empty the cache mounts and ignore earlier images
+    clearRequestedAt: Date | null; // Clear request this build honours (see recordBuildCacheUsage)
+}
+
+export const getBuildCacheId = (projectId: number): string => `project-${projectId}`;
+
+/**
+ * Works out how a deployment's build should use its project's cache.
+ * @param projectId The ID of the project.
+ * @param deploymentId The ID of the deployment being built (never its own cache source).
+ */
+export async function getBuildCacheOptions(projectId: number, deploymentId: number): Promise<BuildCacheOptions> {
+    const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { buildCacheClearRequestedAt: true },
+    });
+    const clearRequestedAt = project?.buildCacheClearRequestedAt ?? null;
+
+    let cacheFromImage: string | null = null;
+    if (!clearRequestedAt) {
+        const lastSuccessful = await prisma.deployment.findFirst({
+            where: { projectId, status: 'ready', id: { not: deploymentId } },
+            orderBy: { createdAt: 'desc' },
+            select: { id: true },
+        });
+        cacheFromImage = lastSuccessful ? getDeploymentImageName(projectId, lastSuccessful.id) : null;
+    }
+
+    return { id: getBuildCacheId(projectId), cacheFromImage, reset: clearRequestedAt !== null, clearRequestedAt };
+}
+
+/**
+ * Reads the cache size a default Dockerfile reported in its build output.
+ * @param output The build's stdout and stderr.
+ * @returns The size in bytes, or null if the build did not report one (user Dockerfile, or the step was cached).
+ */
+export function parseBuildCacheSize(output: string): number | null {
+    const match = BUILD_CACHE_SIZE_PATTERN.exec(output);
+    return match ? parseInt(match[1], 10) * 1024 : null;
+}
+
+/**
+ * Records the outcome of a successful build for the project's cache.
+ * A clear request the build honoured is marked done; one made while the build ran stays pending.
+ * If the cache has grown past the limit, the next build is made to start from empty caches.
+ * @param projectId The ID of the project.
+ * @param options The cache options the build ran with.
+ * @param sizeBytes The cache size the build reported, if any.
+ */
+export async function recordBuildCacheUsage(projectId: number, options: BuildCacheOptions, sizeBytes: number | null): Promise<void> {
+    if (options.clearRequestedAt) {
+        await prisma.project.updateMany({
+            where: { id: projectId, buildCacheClearRequestedAt: options.clearRequestedAt },
+            data: { buildCacheClearRequestedAt: null },
+        });
+    }
+    if (sizeBytes === null) return;
+
+    const overLimit = sizeBytes > BUILD_CACHE_MAX_BYTES;
+    await prisma.project.update({
+        where: { id: projectId },
+        data: { buildCacheSizeBytes: sizeBytes, ...(overLimit ? { buildCacheClearRequestedAt: new Date() } : {}) },
+    });
+    if (overLimit) {
+        console.log(`[Build Cache] Cache of project ${projectId} is ${sizeBytes} bytes (limit ${BUILD_CACHE_MAX_BYTES}). The next build starts from an empty cache.`);
+    }
+}
+
+/**
+ * Clears a project's build cache: its next build empties the cache mounts and does not reuse earlier images.
+ * @param projectId The ID of the project.
+ */
+export async function clearBuildCache(projectId: number): Promise<void> {
+    await prisma.project.update({
+        where: { id: projectId },
+        data: { buildCacheClearRequestedAt: new Date() },
+    });
+    console.log(`[Build Cache] Cache of project ${projectId} will be cleared by its next build.`);
+}
+
+/**
+ * Describes a project's build cache for the API.
+ */
+export function getBuildCacheInfo(project: { buildCacheSizeBytes?: number | bigint | null; buildCacheClearRequestedAt?: Date | null }) {
+    return {
+        sizeBytes: project.buildCacheSizeBytes != null ? Number(project.buildCacheSizeBytes) : null,
+        limitBytes: BUILD_CACHE_MAX_BYTES,
+        clearPending: !!project.buildCacheClearRequestedAt,
+    };
+}
+// --- End Build Cache ---
@@ -0,0 +1,161 @@
+// src/buildPresets.ts
+
+import path from 'path';
+import fs from 'fs/promises';
+
+// --- Framework Presets ---
+// Repositories without a Dockerfile that are not Next.js projects (Next.js has its own defaults in
+// buildService.ts) are matched against these presets in order; the first whose rules match is used.
+// A preset names the default Dockerfile that builds the project, the package.json script that runs
+// the build, the directory the build leaves the application in (copied to the image's /app and
+// extracted to the host) and how PM2 starts the extracted application.
+
+export type FrameworkPresetId = 'remix' | 'sveltekit' | 'nuxt' | 'astro' | 'vite' | 'node' | 'static';
+
+/**
+ * How a deployment's extracted build output is started: 'standalone' and 'classic' for Next.js
+ * builds, otherwise the id of the framework preset it was built with.
+ */
+export type BuildType = 'standalone' | 'classic' | FrameworkPresetId;
+
+/**
+ * What the detection rules look at: the files in the repository root and its package.json.
+ */
+export interface RepositoryInfo {
+    files: string[];
+    packageJson: any | null;
+    dependencies: Set<string>; // dependencies and devDependencies
+}
+
+/**
+ * How PM2 starts an application from its build output. Paths are relative to the build output.
+ */
+export type StartCommand =
+    | { kind: 'node'; script: string; args?: string[] } // A Node.js entry point or a node_modules/.bin binary
+    | { kind: 'npm'; script: string }                   // A package.json script, run with npm
+    | { kind: 'static'; spa: boolean };                 // PM2's static file server; `spa` serves index.html for unknown paths
+
+export interface FrameworkPreset {
+    id: FrameworkPresetId;
+    name: string;
+    detect: (repo: RepositoryInfo) => boolean;
+    dockerfile: string;            // Default Dockerfile template in ./dockerfiles
+    buildScript: string | null;    // package.json script that builds the application, skipped if the project does not define it
+    outputDirectory: string;       // Where the build leaves the application, relative to the repository root
+    start: StartCommand;
+}
+
+const hasConfigFile = (repo: RepositoryInfo, baseName: string) =>
+    repo.files.some((file) => file.startsWith(`${baseName}.`));
+
+const FRAMEWORK_PRESETS: FrameworkPreset[] = [
+    {
+        id: 'remix',
+        name: 'Remix',
+        detect: (repo) => repo.dependencies.has('@remix-run/dev') || hasConfigFile(repo, 'remix.config'),
+        dockerfile: 'Dockerfile.node.default',
+        buildScript: 'build',
+        outputDirectory: '.',
+        // Vite-based Remix (v2) writes the server bundle to build/server
+        start: { kind: 'node', script: 'node_modules/.bin/remix-serve', args: ['build/server/index.js'] },
+    },
+    {
+        id: 'sveltekit',
+        name: 'SvelteKit',
+        detect: (repo) => repo.dependencies.has('@sveltejs/kit') || hasConfigFile(repo, 'svelte.config'),
+        dockerfile: 'Dockerfile.node.default',
+        buildScript: 'build',
+        outputDirectory: '.',
+        // Requires @sveltejs/adapter-node, whose server loads the production dependencies at runtime
+        start: { kind: 'node', script: 'build/index.js' },
+    },
+    {
+        id: 'nuxt',
+        name: 'Nuxt',
+        detect: (repo) => repo.dependencies.has('nuxt') || hasConfigFile(repo, 'nuxt.config'),
+        dockerfile: 'Dockerfile.node.default',
+        buildScript: 'build',
+        outputDirectory: '.output', // Self-contained Nitro server
+        start: { kind: 'node', script: 'server/index.mjs' },
+    },
+    {
+        id: 'astro',
+        name: 'Astro',
+        detect: (repo) => repo.dependencies.has('astro') || hasConfigFile(repo, 'astro.config'),
+        dockerfile: 'Dockerfile.node.default',
+        buildScript: 'build',
+        outputDirectory: 'dist', // Astro's default static output
+        start: { kind: 'static', spa: false },
+    },
+    {
+        id: 'vite',
+        name: 'Vite single-page app',
+        detect: (repo) => repo.dependencies.has('vite') || hasConfigFile(repo, 'vite.config'),
+        dockerfile: 'Dockerfile.node.default',
+        buildScript: 'build',
+        outputDirectory: 'dist',
+        start: { kind: 'static', spa: true },
+    },
+    {
+        id: 'node',
+        name: 'Node.js server',
+        detect: (repo) => typeof repo.packageJson?.scripts?.start === 'string',
+        dockerfile: 'Dockerfile.node.default',
+        buildScript: 'build', // e.g. TypeScript compilation; many servers have none
+        outputDirectory: '.',
+        start: { kind: 'npm', script: 'start' },
+    },
+    {
+        id: 'static',
+        name: 'Static HTML',
+        detect: (repo) => repo.files.includes('index.html'),
+        dockerfile: 'Dockerfile.static.default',
+        buildScript: null,
+        outputDirectory: '.',
+        start: { kind: 'static', spa: false },
+    },
+];
+
+/**
+ * Looks up a preset by id.
+ * @returns The preset, or undefined if there is none with that id.
+ */
+export function getFrameworkPreset(id: string): FrameworkPreset | undefined {
+    return FRAMEWORK_PRESETS.find((preset) => preset.id === id);
+}
+
+/**
+ * Gathers what the detection rules need from a repository.
+ * @param repoPath The path to the cloned repository.
+ */
+export async function readRepositoryInfo(repoPath: string): Promise<RepositoryInfo> {
+    const files = await fs.readdir(repoPath).catch(() => [] as string[]);
+    let packageJson: any | null = null;
+    if (files.includes('package.json')) {
+        try {
+            packageJson = JSON.parse(await fs.readFile(path.join(repoPath, 'package.json'), 'utf8'));
+        } catch (error: any) {
+            console.warn(`[Build Presets] Failed to read or parse package.json in ${repoPath}: ${error.message}`);
+        }
+    }
+    const dependencies = new Set([
+        ...Object.keys(packageJson?.dependencies ?? {}),
+        ...Object.keys(packageJson?.devDependencies ?? {}),
+    ]);
+    return { files, packageJson, dependencies };
+}
+
+/**
+ * Finds the first preset whose detection rules match a repository.
+ * @param repo The repository, as read by readRepositoryInfo.
+ * @returns The preset, or null if the project is not one we can build without a Dockerfile.
+ */
+export function detectFrameworkPreset(repo: RepositoryInfo): FrameworkPreset | null {
+    return FRAMEWORK_PRESETS.find((preset) => preset.detect(repo)) ?? null;
+}
+
+/**
+ * Names of the frameworks the presets support, for error messages.
+ */
+export const SUPPORTED_FRAMEWORKS = ['Next.js', ...FRAMEWORK_PRESETS.map((preset) => preset.name)];
+// --- End Framework Presets ---
@@ -1,8 +1,19 @@
 import path from 'path';
 import fs from 'fs/promises';
 import fsSync from 'fs'; // For synchronous checks like existsSync
-import { createWriteStream, WriteStream } from 'fs';
 import { spawn } from 'child_process';
+import { createDeploymentLogWriter, DeploymentLogWriter } from './deploymentLogs';
+import { BuildCacheOptions, parseBuildCacheSize } from './buildCacheService';
+import {
+    BuildType,
+    detectFrameworkPreset,
+    FrameworkPreset,
+    FrameworkPresetId,
+    getFrameworkPreset,
+    readRepositoryInfo,
+    RepositoryInfo,
+    SUPPORTED_FRAMEWORKS,
+} from './buildPresets';
 
 // Path for the default Dockerfile for Next.js projects WITH output: "standalone"
 const DEFAULT_STANDALONE_DOCKERFILE_PATH = path.resolve(
@@ -26,26 +37,189 @@ export type DockerfileSource =
     | 'default_standalone'       // Default Dockerfile for Next.js with output: "standalone".
     | 'default_classic'          // Default Dockerfile for classic Next.js builds.
     | 'user_classic_assumed'     // User Dockerfile, but project seems like classic Next.js (hint for start command).
+    | `default_${FrameworkPresetId}` // Default Dockerfile of a framework preset (see buildPresets.ts), e.g. 'default_vite'.
     | 'unknown';                 // Initial state or if source cannot be determined.
 
+const isDefaultDockerfileSource = (source: DockerfileSource) => source.startsWith('default_');
+
+/**
+ * Determines how the extracted build output must be started.
+ * @param dockerfileUsed The Dockerfile source recorded for the build.
+ * @returns 'classic' for `next start` builds, the preset id for builds from a framework preset's
+ *          default Dockerfile, 'standalone' for `server.js` builds (including user Dockerfiles).
+ */
+export function getBuildType(dockerfileUsed: DockerfileSource | string | null): BuildType {
+    if (dockerfileUsed === 'default_classic' || dockerfileUsed === 'user_classic_assumed') {
+        return 'classic';
+    }
+    const preset = dockerfileUsed?.startsWith('default_') ? getFrameworkPreset(dockerfileUsed.slice('default_'.length)) : undefined;
+    return preset ? preset.id : 'standalone';
+}
+
+// --- Package Manager Detection ---
+export type PackageManagerName = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+/**
+ * The package manager a repository uses and the commands the default Dockerfiles run with it.
+ */
+export interface PackageManager {
+    name: PackageManagerName;
+    version: string | null;      // Version pinned by the `packageManager` field of package.json, if any
+    lockfile: string | null;     // The package manager's lockfile in the repository root, if any
+    setupCommand: string;        // Makes the package manager available in a build stage
+    installCommand: string;      // Installs exactly what the lockfile records (a plain install without one)
+    buildCommand: string;        // Runs the `build` script
+}
+
+// Lockfiles in order of precedence, for repositories whose package.json does not name a package manager
+const LOCKFILES: Array<[string, PackageManagerName]> = [
+    ['bun.lockb', 'bun'],
+    ['bun.lock', 'bun'],
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['package-lock.json', 'npm'],
+    ['npm-shrinkwrap.json', 'npm'],
+];
+
+// e.g. "pnpm@9.1.0" or "yarn@4.2.2+sha256.abc..."
+const PACKAGE_MANAGER_FIELD_PATTERN = /^(npm|pnpm|yarn|bun)@(\d[^+\s]*)/;
+
+/**
+ * Works out which package manager a repository uses: the `packageManager` field of package.json
+ * if it names one, otherwise the lockfile present, otherwise npm.
+ * @param repoPath The path to the cloned repository.
+ * @returns The package manager and the commands to set it up, install dependencies and build with it.
+ */
+export async function detectPackageManager(repoPath: string): Promise<PackageManager> {
+    let declared: RegExpExecArray | null = null;
+    try {
+        const packageJson = JSON.parse(await fs.readFile(path.join(repoPath, 'package.json'), 'utf8'));
+        declared = PACKAGE_MANAGER_FIELD_PATTERN.exec(typeof packageJson.packageManager === 'string' ? packageJson.packageManager : '');
+    } catch {
+        // No readable package.json: go by the lockfiles
+    }
+
+    const lockfiles = LOCKFILES.filter(([file]) => fsSync.existsSync(path.join(repoPath, file)));
+    const name: PackageManagerName = (declared?.[1] as PackageManagerName | undefined) ?? lockfiles[0]?.[1] ?? 'npm';
+    const version = declared?.[2] ?? null;
+    const lockfile = lockfiles.find(([, manager]) => manager === name)?.[0] ?? null;
+
+    // node:18-alpine ships npm and Yarn 1; pnpm and bun are installed from npm, Yarn 2+ comes through corepack
+    switch (name) {
+        case 'pnpm':
+            return {
+                name, version, lockfile,
+                setupCommand: `npm install -g pnpm@${version ?? 'latest'}`,
+                installCommand: lockfile ? 'pnpm install --frozen-lockfile' : 'pnpm install',
+                buildCommand: 'pnpm run build',
+            };
+        case 'yarn': {
+            const berry = version ? parseInt(version, 10) >= 2 : fsSync.existsSync(path.join(repoPath, '.yarnrc.yml'));
+            return {
+                name, version, lockfile,
+                setupCommand: berry ? 'corepack enable' : 'true',
+                installCommand: lockfile ? (berry ? 'yarn install --immutable' : 'yarn install --frozen-lockfile') : 'yarn install',
+                buildCommand: 'yarn run build',
+            };
+        }
+        case 'bun':
+            return {
+                name, version, lockfile,
+                setupCommand: `npm install -g bun@${version ?? 'latest'}`,
+                installCommand: lockfile ? 'bun install --frozen-lockfile' : 'bun install',
+                buildCommand: 'bun run build',
+            };
+        default:
+            return {
+                name, version, lockfile,
+                setupCommand: 'true',
+                installCommand: lockfile ? 'npm ci' : 'npm install',
+                buildCommand: 'npm run build',
+            };
+    }
+}
+
+/**
+ * Formats a package manager for display and for the deployment record, e.g. "pnpm@9.1.0" or "npm".
+ */
+export const formatPackageManager = (packageManager: PackageManager): string =>
+    packageManager.version ? `${packageManager.name}@${packageManager.version}` : packageManager.name;
+// --- End Package Manager Detection ---
+
+/**
+ * Writes a copy of a default Dockerfile that declares the given build arguments in every stage,
+ * so their values are available as environment variables to `RUN` steps such as `npm run build`.
+ * @param templatePath The default Dockerfile to copy.
+ * @param argNames The names of the build arguments to declare.
+ * @param outputDir Directory to write the generated Dockerfile to (outside the build context).
+ * @returns The path of the generated Dockerfile.
+ */
+async function writeDockerfileWithBuildArgs(templatePath: string, argNames: string[], outputDir: string): Promise<string> {
+    const template = await fs.readFile(templatePath, 'utf8');
+    const argDeclarations = argNames.map((name) => `ARG ${name}`).join('\n');
+    const content = template.replace(/^(FROM\s+.+)$/gm, `$1\n${argDeclarations}`);
+    const outputPath = path.join(outputDir, `${path.basename(templatePath)}.generated`);
+    await fs.writeFile(outputPath, content, 'utf8');
+    return outputPath;
+}
+
+// --- Build Limits ---
+// BuildKit runs the RUN steps of a build in cgroups below the build's --cgroup-parent. Each project's
+// builds run in a systemd slice of its own that carries the project's CPU and memory limits, which
+// requires Docker's systemd cgroup driver and an API allowed to run `systemctl set-property`.
+
+export interface BuildLimits {
+    cpus: number;
+    memoryMb: number;
+    slice: string; // systemd slice the build's RUN steps run in (see getBuildSliceName)
+}
+
+// Dashes nest slices: nextlive-build-1.slice is below nextlive-build.slice
+export const getBuildSliceName = (projectId: number): string => `nextlive-build-${projectId}.slice`;
+
+/**
+ * Sets the CPU and memory limits of a build slice, creating it if needed. Limits last until the host reboots.
+ * @param limits The limits and the slice to apply them to.
+ * @returns An error message if systemd refused the limits, otherwise null.
+ */
+function applyBuildLimits(limits: BuildLimits): Promise<string | null> {
+    const properties = [`CPUQuota=${Math.round(limits.cpus * 100)}%`, `MemoryMax=${limits.memoryMb}M`, 'MemorySwapMax=0'];
+    return new Promise((resolve) => {
+        const systemctlProcess = spawn('systemctl', ['set-property', '--runtime', limits.slice, ...properties], { stdio: 'pipe' });
+        let stderr = '';
+        systemctlProcess.stderr.on('data', (data) => { stderr += data.toString(); });
+        systemctlProcess.on('error', (error) => resolve(`systemctl failed to start: ${error.message}`));
+        systemctlProcess.on('close', (code) => resolve(code === 0 ? null : stderr.trim() || `systemctl exited with code ${code}`));
+    });
+}
+// --- End Build Limits ---
 
 /**
  * Builds a Docker image for a given repository.
  * Checks for a user-provided Dockerfile. For Next.js projects without one,
- * it selects a default Dockerfile based on 'output: "standalone"' configuration.
+ * it selects a default Dockerfile based on 'output: "standalone"' configuration;
+ * other projects without one are built with the default Dockerfile of the framework preset they match.
  * @param repoPath The path to the cloned repository.
  * @param imageName The desired name/tag for the Docker image.
  * @param logFilePath Path to log file for appending build logs.
  * @param buildArgs An optional object of build arguments to pass to `docker build`.
- * @returns A promise that resolves with an object indicating which Dockerfile was used.
+ * @param signal Aborting it stops the build and rejects with the signal's reason.
+ * @param cache The project's build cache. Without it the default Dockerfiles use a shared cache id and no image is reused.
+ * @param limits CPU and memory limits of the build's RUN steps. A build whose limits cannot be applied runs without them.
+ * @returns A promise that resolves with which Dockerfile was used, the cache size the build reported (bytes, or null)
+ *          and the package manager the default Dockerfile installed dependencies with (null for a user Dockerfile).
  * @throws Error if the Docker build fails or required configurations/Dockerfiles are missing.
  */
 export async function buildProjectImage(
     repoPath: string,
     imageName: string,
     logFilePath: string,
-    buildArgs: { [key: string]: string } = {}
-): Promise<{ dockerfileUsed: DockerfileSource }> {
+    buildArgs: { [key: string]: string } = {},
+    signal?: AbortSignal,
+    cache?: BuildCacheOptions,
+    limits?: BuildLimits
+): Promise<{ dockerfileUsed: DockerfileSource; cacheSizeBytes: number | null; packageManager: string | null }> {
+    signal?.throwIfAborted();
     console.log(`[Build Service] Starting Docker image build for '${imageName}' from '${repoPath}'`);
     console.log(`[Build Service] Appending build logs to: ${logFilePath}`);
     console.log(`[Build Service] Default standalone Dockerfile path: ${DEFAULT_STANDALONE_DOCKERFILE_PATH}`);
@@ -53,12 +227,11 @@ export async function buildProjectImage(
 
     let stdoutBuffer = ''; // Buffer for stdout of Docker process
     let stderrBuffer = ''; // Buffer for stderr of Docker process
-    let logStream: WriteStream | null = null;
+    let logStream: DeploymentLogWriter | null = null;
 
     try {
-        // Ensure the directory for the log file exists and create a writable stream
-        await fs.mkdir(path.dirname(logFilePath), { recursive: true });
-        logStream = createWriteStream(logFilePath, { flags: 'a' }); // Append mode
+        // Creates the log directory if needed and appends lines tagged with the build stage
+        logStream = await createDeploymentLogWriter(logFilePath, 'build');
         logStream.write(`--- Docker Build Started: ${new Date().toISOString()} ---\n`);
         logStream.on('error', (err) => {
             console.error(`[Build Service] Error writing to log file stream ${logFilePath}: ${err.message}`);
@@ -71,6 +244,8 @@ export async function buildProjectImage(
     const userDockerfilePath = path.join(repoPath, 'Dockerfile'); // Standard Dockerfile name
     let dockerfilePathToUse = ''; // Path to the Dockerfile that will be used
     let dockerfileSource: DockerfileSource = 'unknown';
+    let frameworkPreset: FrameworkPreset | null = null; // Set when a framework preset's default Dockerfile is used
+    let repositoryInfo: RepositoryInfo | null = null; // What the preset was detected from
     const buildContext = repoPath; // Docker build context is the repository path
 
     try {
@@ -207,11 +382,27 @@ export async function buildProjectImage(
                     dockerfileSource = 'default_classic';
                 }
             } else {
-                // Not detected as a Next.js project and no user Dockerfile provided.
-                const errorMsg = `[Build Service] Build failed for ${repoPath}: No Dockerfile found in the repository root, and it could not be identified as a Next.js project for default Dockerfile selection.`;
-                console.error(errorMsg);
-                stderrBuffer += `\n--- Build Configuration Error ---\n${errorMsg}\n`;
-                throw new Error(errorMsg);
+                // Not a Next.js project: use the default Dockerfile of the first framework preset that matches
+                repositoryInfo = await readRepositoryInfo(repoPath);
+                frameworkPreset = detectFrameworkPreset(repositoryInfo);
+                if (!frameworkPreset) {
+                    const errorMsg = `[Build Service] Build failed for ${repoPath}: No Dockerfile found in the repository root, and the project was not recognised as any supported framework (${SUPPORTED_FRAMEWORKS.join(', ')}).`;
+                    console.error(errorMsg);
+                    stderrBuffer += `\n--- Build Configuration Error ---\n${errorMsg}\n`;
+                    throw new Error(errorMsg);
+                }
+
+                const presetDockerfilePath = path.resolve(__dirname, 'dockerfiles', frameworkPreset.dockerfile);
+                if (!fsSync.existsSync(presetDockerfilePath)) {
+                    const errorMsg = `[Build Service] Default Dockerfile of the ${frameworkPreset.name} preset is missing on the server at: ${presetDockerfilePath}`;
+                    console.error(errorMsg);
+                    stderrBuffer += `\n--- Build Configuration Error ---\n${errorMsg}\n`;
+                    throw new Error(errorMsg);
+                }
+                console.log(`[Build Service] Project identified as ${frameworkPreset.name} (preset '${frameworkPreset.id}'). Using default Dockerfile: ${presetDockerfilePath}`);
+                if (logStream) logStream.write(`Project identified as ${frameworkPreset.name}. Using default Dockerfile ${frameworkPreset.dockerfile} (output directory '${frameworkPreset.outputDirectory}').\n`);
+                dockerfilePathToUse = presetDockerfilePath;
+                dockerfileSource = `default_${frameworkPreset.id}`;
             }
         }
         // --- End Dockerfile Selection Logic ---
@@ -230,26 +421,112 @@ export async function buildProjectImage(
         throw configError; // Re-throw the original configuration error
     }
 
+    // --- Expose build arguments to default Dockerfiles ---
+    // `--build-arg` values are only visible to a stage that declares a matching ARG. User Dockerfiles
+    // declare what they need; for our defaults we generate a copy that declares every project variable.
+    const usesDefaultDockerfile = isDefaultDockerfileSource(dockerfileSource);
+    if (usesDefaultDockerfile && Object.keys(buildArgs).length > 0) {
+        try {
+            dockerfilePathToUse = await writeDockerfileWithBuildArgs(dockerfilePathToUse, Object.keys(buildArgs), path.dirname(repoPath));
+            if (logStream) logStream.write(`Declared ${Object.keys(buildArgs).length} build argument(s) in the default Dockerfile.\n`);
+        } catch (error: any) {
+            const errorMsg = `[Build Service] Failed to prepare default Dockerfile with build arguments: ${error.message}`;
+            console.error(errorMsg);
+            if (logStream) {
+                logStream.write(`${errorMsg}\n--- Docker Build Failed: ${new Date().toISOString()} (Config Error) ---\n`);
+                logStream.end();
+            }
+            throw new Error(errorMsg);
+        }
+    }
+
     // --- Proceed with Docker build using spawn ---
     const dockerBuildArgs = ['build', '-t', imageName, '-f', dockerfilePathToUse];
     Object.entries(buildArgs).forEach(([key, value]) => {
         dockerBuildArgs.push('--build-arg', `${key}=${value}`);
     });
-    dockerBuildArgs.push(buildContext); // Add context path as the last argument
+    if (frameworkPreset) {
+        dockerBuildArgs.push('--build-arg', `OUTPUT_DIRECTORY=${frameworkPreset.outputDirectory}`);
+    }
+
+    // --- Package manager (default Dockerfiles of projects with a package.json; a user Dockerfile installs dependencies itself) ---
+    let packageManager: PackageManager | null = null;
+    if (usesDefaultDockerfile && fsSync.existsSync(path.join(repoPath, 'package.json'))) {
+        packageManager = await detectPackageManager(repoPath);
+        let buildCommand = packageManager.buildCommand;
+        if (frameworkPreset) {
+            const script = frameworkPreset.buildScript;
+            buildCommand = script && typeof repositoryInfo?.packageJson?.scripts?.[script] === 'string' ? `${packageManager.name} run ${script}` : 'true';
+            if (buildCommand === 'true' && logStream) logStream.write(`No '${script ?? 'build'}' script in package.json: skipping the build step.\n`);
+        }
+        dockerBuildArgs.push(
+            '--build-arg', `PACKAGE_MANAGER_SETUP=${packageManager.setupCommand}`,
+            '--build-arg', `INSTALL_COMMAND=${packageManager.installCommand}`,
+            '--build-arg', `BUILD_COMMAND=${buildCommand}`
+        );
+        const detectedFrom = packageManager.version ? 'packageManager field' : packageManager.lockfile ?? 'no lockfile, defaulting to npm';
+        console.log(`[Build Service] Using ${formatPackageManager(packageManager)} (${detectedFrom}) for '${imageName}'.`);
+        if (logStream) {
+            logStream.write(`Package manager: ${formatPackageManager(packageManager)} (${detectedFrom}). Install: '${packageManager.installCommand}', build: '${buildCommand}'.\n`);
+            if (!packageManager.lockfile) {
+                logStream.write(`Warning: no ${packageManager.name} lockfile found. Dependencies are resolved afresh and the build may not be reproducible.\n`);
+            }
+        }
+    }
+
+    // --- Build cache (see buildCacheService.ts) ---
+    // Inline cache metadata lets later builds use this image with --cache-from
+    const cacheArgs = ['--build-arg', 'BUILDKIT_INLINE_CACHE=1'];
+    if (cache && usesDefaultDockerfile) {
+        cacheArgs.push('--build-arg', `BUILD_CACHE_ID=${cache.id}`, '--build-arg', `BUILD_CACHE_RESET=${cache.reset ? 1 : 0}`);
+    }
+    if (cache?.cacheFromImage) {
+        cacheArgs.push('--cache-from', cache.cacheFromImage);
+    }
+    if (cache && logStream) {
+        logStream.write(
+            cache.reset
+                ? `Build cache: starting from an empty cache (cleared or over its size limit).\n`
+                : `Build cache: ${usesDefaultDockerfile ? `mounts '${cache.id}-*'` : 'no cache mounts (own Dockerfile)'}, reusing layers of ${cache.cacheFromImage ?? 'no earlier image'}.\n`
+        );
+    }
+    dockerBuildArgs.push(...cacheArgs);
+
+    if (limits) {
+        const limitError = await applyBuildLimits(limits);
+        if (limitError) {
+            console.warn(`[Build Service] Could not apply build limits to ${limits.slice}: ${limitError}`);
+            if (logStream) logStream.write(`Warning: build limits (${limits.cpus} CPUs, ${limits.memoryMb}MB) could not be applied and the build runs without them: ${limitError}\n`);
+        } else {
+            dockerBuildArgs.push('--cgroup-parent', limits.slice);
+            if (logStream) logStream.write(`Build limits: ${limits.cpus} CPUs, ${limits.memoryMb}MB of memory.\n`);
+        }
+    }
+    dockerBuildArgs.push(buildContext); // Context path goes last
+
+    // Build argument values may be secrets: never write them to logs or error messages
+    const printableBuildCommand = `docker ${dockerBuildArgs
+        .map((arg, index) => (dockerBuildArgs[index - 1] === '--build-arg' ? `${arg.split('=')[0]}=****` : arg))
+        .join(' ')}`;
 
-    console.log(`[Build Service] Executing Docker build command (using spawn): docker ${dockerBuildArgs.join(' ')}`);
-    if (logStream) logStream.write(`Executing Docker build command: docker ${dockerBuildArgs.join(' ')}\n`);
+    console.log(`[Build Service] Executing Docker build command (using spawn): ${printableBuildCommand}`);
+    if (logStream) logStream.write(`Executing Docker build command: ${printableBuildCommand}\n`);
 
     return new Promise((resolve, reject) => {
         const dockerProcess = spawn('docker', dockerBuildArgs, {
             cwd: buildContext, // Set working directory to the build context
             stdio: 'pipe',     // Pipe stdout/stderr to capture
+            env: { ...process.env, DOCKER_BUILDKIT: '1' }, // Cache mounts and inline cache need BuildKit
         });
 
+        // Stopping the docker client makes the daemon cancel the build
+        const onAbort = () => dockerProcess.kill('SIGTERM');
+        signal?.addEventListener('abort', onAbort, { once: true });
+
         // Pipe live output to log stream or console
         if (logStream) {
             dockerProcess.stdout.pipe(logStream, { end: false });
-            dockerProcess.stderr.pipe(logStream, { end: false });
+            dockerProcess.stderr.pipe(logStream.stderr, { end: false });
         } else {
             dockerProcess.stdout.pipe(process.stdout); // Fallback to main process stdout
             dockerProcess.stderr.pipe(process.stderr); // Fallback to main process stderr
@@ -275,6 +552,14 @@ export async function buildProjectImage(
 
         dockerProcess.on('close', (code) => {
             console.log(`[Build Service] Docker build process for '${imageName}' exited with code ${code}`);
+            signal?.removeEventListener('abort', onAbort);
+            if (signal?.aborted) {
+                if (logStream) {
+                    logStream.write(`\n--- Docker Build Cancelled: ${new Date().toISOString()} ---\n`);
+                    logStream.end();
+                }
+                return reject(signal.reason);
+            }
             if (logStream) {
                 // stdoutBuffer and stderrBuffer already contain the full output due to the 'data' listeners
                 if (code === 0) {
@@ -287,10 +572,14 @@ export async function buildProjectImage(
 
             if (code === 0) {
                 console.log(`[Build Service] Successfully built image: ${imageName} (Dockerfile source: ${dockerfileSource}).`);
-                resolve({ dockerfileUsed: dockerfileSource });
+                resolve({
+                    dockerfileUsed: dockerfileSource,
+                    cacheSizeBytes: parseBuildCacheSize(stdoutBuffer + stderrBuffer),
+                    packageManager: packageManager ? formatPackageManager(packageManager) : null,
+                });
             } else {
                 console.error(`[Build Service] Docker build failed for image ${imageName} (Dockerfile source: ${dockerfileSource}).`);
-                const fullErrorDetails = `Docker build failed (Using ${dockerfileSource} Dockerfile).\nCommand: docker ${dockerBuildArgs.join(' ')}\nExit Code: ${code}\nStdout:\n${stdoutBuffer}\nStderr:\n${stderrBuffer}`;
+                const fullErrorDetails = `Docker build failed (Using ${dockerfileSource} Dockerfile).\nCommand: ${printableBuildCommand}\nExit Code: ${code}\nStdout:\n${stdoutBuffer}\nStderr:\n${stderrBuffer}`;
                 reject(new Error(fullErrorDetails));
             }
         });
@@ -300,20 +589,26 @@ export async function buildProjectImage(
 /**
  * Runs the built Docker image briefly to extract build artifacts via a volume mount.
  * Assumes the image's runner stage places all necessary artifacts in /app.
- * The chosen Dockerfile (standalone or classic) must ensure /app is correctly populated.
+ * The chosen Dockerfile (a default one or the user's) must ensure /app is correctly populated.
  * @param imageName The name/tag of the built Docker image.
  * @param buildOutputPath The host path where the artifacts should be copied to.
  * @param logFilePath Path to log file for appending extraction logs.
+ * @param signal Aborting it removes the extraction container and rejects with the signal's reason.
  * @returns A promise that resolves when extraction is complete.
  * @throws Error if the Docker extraction command fails.
  */
-export async function extractBuildArtifacts(imageName: string, buildOutputPath: string, logFilePath: string): Promise<void> {
+export async function extractBuildArtifacts(
+    imageName: string,
+    buildOutputPath: string,
+    logFilePath: string,
+    signal?: AbortSignal
+): Promise<void> {
+    signal?.throwIfAborted();
     console.log(`[Build Service] Starting artifact extraction for image '${imageName}' to '${buildOutputPath}'...`);
 
-    let logStream: WriteStream | null = null;
+    let logStream: DeploymentLogWriter | null = null;
     try {
-        await fs.mkdir(path.dirname(logFilePath), { recursive: true }); // Ensure log dir exists
-        logStream = createWriteStream(logFilePath, { flags: 'a' });
+        logStream = await createDeploymentLogWriter(logFilePath, 'extract');
         logStream.write(`--- Artifact Extraction Started: ${new Date().toISOString()} ---\n`);
         logStream.write(`Attempting to extract from image ${imageName} to ${buildOutputPath}\n`);
         logStream.on('error', (err) => {
@@ -331,9 +626,13 @@ export async function extractBuildArtifacts(imageName: string, buildOutputPath:
         // Using a more verbose copy command for better debugging if it gets stuck
         const copyCommand = `echo '[Copy Script] Attempting to copy /app contents to /extracted-output. Stand by...' && echo '[Copy Script] Size of /app:' && du -sh /app && echo '[Copy Script] Listing /app contents:' && ls -A /app && echo '[Copy Script] --- Starting verbose copy (cp -vR) ---' && cp -vR /app/. /extracted-output/ && echo '[Copy Script] --- Verbose copy finished ---' || (echo '[Copy Script] Verbose copy attempt (cp -vR) failed or had issues. Trying cp -a.' && cp -a /app/. /extracted-output/) || (echo '[Copy Script] Both cp -vR and cp -a failed. Trying basic cp -R.' && cp -R /app/. /extracted-output/) || echo '[Copy Script] All copy attempts had issues, but continuing due to || true logic.' ; exit 0`;
 
+        // Named so a cancelled extraction can be removed: stopping `docker run` does not stop the container
+        const containerName = `${imageName}-extract-${Date.now()}`;
         const dockerRunArgs = [
             'run',
             '--rm', // Automatically remove the container when it exits
+            '--name',
+            containerName,
             '-v',
             `${buildOutputPath}:/extracted-output`, // Mount host path to a temp container dir
             imageName, // The image to run (runner stage is default)
@@ -347,13 +646,20 @@ export async function extractBuildArtifacts(imageName: string, buildOutputPath:
 
         const dockerProcess = spawn('docker', dockerRunArgs, { stdio: 'pipe' });
 
+        const onAbort = () => {
+            spawn('docker', ['rm', '-f', containerName], { stdio: 'ignore' })
+                .on('error', (error) => console.error(`[Build Service] Failed to remove container ${containerName}: ${error.message}`));
+            dockerProcess.kill('SIGTERM');
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
         let stdoutBuffer = ''; // Capture full stdout for potential error reporting
         let stderrBuffer = ''; // Capture full stderr for potential error reporting
 
         // Pipe live output and also buffer it
         // if (logStream) {
         //     dockerProcess.stdout.pipe(logStream, { end: false });
-        //     dockerProcess.stderr.pipe(logStream, { end: false });
+        //     dockerProcess.stderr.pipe(logStream.stderr, { end: false });
         // } else {
         //     dockerProcess.stdout.pipe(process.stdout);
         //     dockerProcess.stderr.pipe(process.stderr);
@@ -378,6 +684,14 @@ export async function extractBuildArtifacts(imageName: string, buildOutputPath:
             // The copyCommand is designed to `exit 0` via `|| true` logic to prevent `docker run` failing the script here.
             // We rely on the output of the copyCommand itself to understand success/failure of copy.
             console.log(`[Build Service] Docker extract process for '${imageName}' exited with code ${code}.`);
+            signal?.removeEventListener('abort', onAbort);
+            if (signal?.aborted) {
+                if (logStream) {
+                    logStream.write(`\n--- Artifact Extraction Cancelled: ${new Date().toISOString()} ---\n`);
+                    logStream.end();
+                }
+                return reject(signal.reason);
+            }
             if (logStream) {
                 // stdoutBuffer will contain the echos from the copyCommand
                 if (stdoutBuffer.includes("[Copy Script] --- Verbose copy finished ---")) {
@@ -407,6 +721,67 @@ export async function extractBuildArtifacts(imageName: string, buildOutputPath:
     });
 }
 
+/**
+ * Removes a deployment's Docker image from the local image store.
+ * An image that no longer exists is not treated as an error.
+ * @param imageName The name/tag of the Docker image to remove.
+ * @returns A promise that resolves once the image is gone.
+ * @throws Error if `docker rmi` fails for any reason other than a missing image.
+ */
+export async function removeProjectImage(imageName: string): Promise<void> {
+    console.log(`[Build Service] Removing Docker image '${imageName}'...`);
+
+    return new Promise((resolve, reject) => {
+        const dockerProcess = spawn('docker', ['rmi', '-f', imageName], { stdio: 'pipe' });
+
+        let stderrBuffer = '';
+        dockerProcess.stderr.on('data', (data) => { stderrBuffer += data.toString(); });
+
+        dockerProcess.on('error', (error) => {
+            const errorMsg = `[Build Service] Docker rmi process failed to start: ${error.message}`;
+            console.error(errorMsg);
+            reject(new Error(errorMsg));
+        });
+
+        dockerProcess.on('close', (code) => {
+            if (code === 0 || stderrBuffer.includes('No such image')) {
+                console.log(`[Build Service] Docker image '${imageName}' removed (or did not exist).`);
+                resolve();
+            } else {
+                console.error(`[Build Service] Failed to remove Docker image '${imageName}'. Exit Code: ${code}. Stderr: ${stderrBuffer}`);
+                reject(new Error(`Failed to remove Docker image '${imageName}'. Exit Code: ${code}. Stderr: ${stderrBuffer}`));
+            }
+        });
+    });
+}
+
+/**
+ * Reads how much disk space an image takes.
+ * @param imageName The name/tag of the Docker image.
+ * @returns The size in bytes.
+ * @throws Error if the image does not exist or Docker cannot be queried.
+ */
+export async function getImageSize(imageName: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const dockerProcess = spawn('docker', ['image', 'inspect', '--format', '{{.Size}}', imageName], { stdio: 'pipe' });
+
+        let stdoutBuffer = '';
+        let stderrBuffer = '';
+        dockerProcess.stdout.on('data', (data) => { stdoutBuffer += data.toString(); });
+        dockerProcess.stderr.on('data', (data) => { stderrBuffer += data.toString(); });
+
+        dockerProcess.on('error', (error) => reject(new Error(`Docker image inspect process failed to start: ${error.message}`)));
+        dockerProcess.on('close', (code) => {
+            const size = parseInt(stdoutBuffer.trim(), 10);
+            if (code === 0 && !Number.isNaN(size)) {
+                resolve(size);
+            } else {
+                reject(new Error(`Failed to read the size of image '${imageName}': ${stderrBuffer.trim() || `exit code ${code}`}`));
+            }
+        });
+    });
+}
+
 /*
 Reminder: Ensure you have the following Dockerfiles in your './dockerfiles/' directory:
 1. Dockerfile.nextjs.standalone.default
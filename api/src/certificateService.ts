@@ -0,0 +1,182 @@
+// src/certificateService.ts
+
+import { PrismaClient } from '@prisma/client';
+import * as acme from 'acme-client';
+import path from 'path';
+import fs from 'fs/promises';
+import { encryptValue, decryptValue } from './envService';
+import { refreshProjectProxy } from './releaseService';
+import { ACME_CHALLENGE_DIR, CERTIFICATES_DIR, getCertificateFilePaths } from './utils';
+
+const prisma = new PrismaClient();
+
+// ACME server to request certificates from. Point it at a local Pebble instance
+// (e.g. https://localhost:14000/dir, trusting its CA via NODE_EXTRA_CA_CERTS) for testing.
+const ACME_DIRECTORY_URL = process.env.ACME_DIRECTORY_URL || acme.directory.letsencrypt.production;
+const ACME_EMAIL = process.env.ACME_EMAIL || '';
+// acme-client checks that the challenge is reachable before asking the CA to validate it.
+// Test setups whose domains do not resolve to this host can turn that off.
+const ACME_SKIP_CHALLENGE_VERIFICATION = process.env.ACME_SKIP_CHALLENGE_VERIFICATION === 'true';
+const ACME_ACCOUNT_KEY_PATH = path.join(CERTIFICATES_DIR, 'acme-account.key');
+
+// Certificates are renewed once they expire within this window (Let's Encrypt certificates last 90 days)
+const RENEW_BEFORE_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
+const RENEWAL_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+let acmeClient: acme.Client | null = null;
+let renewalTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Returns the ACME client, creating the account key on first use.
+ * The key is kept on disk so the same ACME account is reused across restarts.
+ */
+async function getAcmeClient(): Promise<acme.Client> {
+    if (acmeClient) return acmeClient;
+
+    let accountKey: Buffer;
+    try {
+        accountKey = await fs.readFile(ACME_ACCOUNT_KEY_PATH);
+    } catch {
+        console.log(`[Certificate Service] Creating ACME account key at ${ACME_ACCOUNT_KEY_PATH}.`);
+        accountKey = await acme.crypto.createPrivateKey();
+        await fs.mkdir(CERTIFICATES_DIR, { recursive: true });
+        await fs.writeFile(ACME_ACCOUNT_KEY_PATH, accountKey, { mode: 0o600 });
+    }
+
+    acmeClient = new acme.Client({ directoryUrl: ACME_DIRECTORY_URL, accountKey });
+    return acmeClient;
+}
+
+/**
+ * Writes a certificate and its key where the Nginx config for the domain expects them.
+ * @param domainName The domain the certificate is for.
+ * @param certificateData The PEM certificate chain.
+ * @param privateKey The PEM private key.
+ */
+async function writeCertificateFiles(domainName: string, certificateData: string, privateKey: string): Promise<void> {
+    const { certificatePath, keyPath } = getCertificateFilePaths(domainName);
+    await fs.mkdir(path.dirname(certificatePath), { recursive: true });
+    await fs.writeFile(certificatePath, certificateData);
+    await fs.writeFile(keyPath, privateKey, { mode: 0o600 });
+}
+
+/**
+ * Requests a certificate for a domain from the ACME server (HTTP-01), answering the challenge from `ACME_CHALLENGE_DIR`.
+ * @param domainName The domain the certificate is for.
+ * @returns The PEM certificate chain and its private key.
+ * @throws Error if the CA does not issue a certificate.
+ */
+export async function requestCertificate(domainName: string): Promise<{ certificateData: string; privateKey: string }> {
+    console.log(`[Certificate Service] Requesting certificate for ${domainName} from ${ACME_DIRECTORY_URL}.`);
+    const client = await getAcmeClient();
+    const [privateKey, csr] = await acme.crypto.createCsr({ commonName: domainName });
+    const challengeDir = path.join(ACME_CHALLENGE_DIR, '.well-known', 'acme-challenge');
+
+    const certificateData = await client.auto({
+        csr,
+        email: ACME_EMAIL || undefined,
+        termsOfServiceAgreed: true,
+        challengePriority: ['http-01'],
+        skipChallengeVerification: ACME_SKIP_CHALLENGE_VERIFICATION,
+        challengeCreateFn: async (_authz, challenge, keyAuthorization) => {
+            await fs.mkdir(challengeDir, { recursive: true });
+            await fs.writeFile(path.join(challengeDir, challenge.token), keyAuthorization);
+        },
+        challengeRemoveFn: async (_authz, challenge) => {
+            await fs.rm(path.join(challengeDir, challenge.token), { force: true });
+        },
+    });
+    return { certificateData, privateKey: privateKey.toString() };
+}
+
+/**
+ * Requests a certificate for a verified domain over ACME (HTTP-01), stores it in `SslCertificate`,
+ * writes it to disk and switches the project's Nginx site to serve the domain over HTTPS.
+ * The domain must already be served over HTTP by the project so the CA can fetch the challenge.
+ * @param domainId The ID of the domain.
+ * @returns The stored certificate.
+ * @throws Error if the domain is not verified or the CA does not issue a certificate.
+ */
+export async function issueCertificate(domainId: number) {
+    const domain = await prisma.domain.findUnique({ where: { id: domainId } });
+    if (!domain) {
+        throw new Error(`Domain ${domainId} not found.`);
+    }
+    if (!domain.verifiedAt) {
+        throw new Error(`Domain ${domain.domainName} is not verified yet.`);
+    }
+
+    const { certificateData, privateKey: privateKeyPem } = await requestCertificate(domain.domainName);
+    const { notAfter } = acme.crypto.readCertificateInfo(certificateData);
+    await writeCertificateFiles(domain.domainName, certificateData, privateKeyPem);
+
+    const data = {
+        certificateData,
+        privateKey: encryptValue(privateKeyPem),
+        issuedAt: new Date(),
+        expiresAt: notAfter,
+    };
+    const certificate = domain.sslCertificateId
+        ? await prisma.sslCertificate.update({ where: { id: domain.sslCertificateId }, data })
+        : await prisma.sslCertificate.create({ data: { ...data, domains: { connect: { id: domain.id } } } });
+    console.log(`[Certificate Service] Certificate for ${domain.domainName} issued, expires ${notAfter.toISOString()}.`);
+
+    await refreshProjectProxy(domain.projectId);
+    return certificate;
+}
+
+/**
+ * Deletes a domain's certificate files and record, e.g. when the domain is removed.
+ * @param domain The domain name and its certificate ID, if it has one.
+ */
+export async function removeCertificate(domain: { domainName: string; sslCertificateId: number | null }): Promise<void> {
+    await fs.rm(path.join(CERTIFICATES_DIR, domain.domainName), { recursive: true, force: true });
+    if (domain.sslCertificateId) {
+        await prisma.sslCertificate.deleteMany({ where: { id: domain.sslCertificateId, domains: { none: {} } } });
+    }
+}
+
+/**
+ * Issues certificates for verified domains that have none, renews those close to expiry,
+ * and restores certificate files missing from disk (e.g. after moving to a new host).
+ * A failure for one domain is logged and retried on the next sweep.
+ */
+export async function renewCertificates(): Promise<void> {
+    const renewBefore = new Date(Date.now() + RENEW_BEFORE_EXPIRY_MS);
+    const domains = await prisma.domain.findMany({
+        where: { verifiedAt: { not: null } },
+        include: { sslCertificate: true },
+    });
+
+    for (const domain of domains) {
+        try {
+            if (!domain.sslCertificate || domain.sslCertificate.expiresAt < renewBefore) {
+                await issueCertificate(domain.id);
+                continue;
+            }
+
+            const { certificatePath } = getCertificateFilePaths(domain.domainName);
+            const filesPresent = await fs.access(certificatePath).then(() => true, () => false);
+            if (!filesPresent) {
+                console.log(`[Certificate Service] Restoring certificate files for ${domain.domainName}.`);
+                await writeCertificateFiles(domain.domainName, domain.sslCertificate.certificateData, decryptValue(domain.sslCertificate.privateKey));
+                await refreshProjectProxy(domain.projectId);
+            }
+        } catch (error: any) {
+            console.error(`[Certificate Service] Could not issue or renew certificate for ${domain.domainName}:`, error.message);
+        }
+    }
+}
+
+/**
+ * Runs a renewal sweep now and then periodically. Call once at API startup.
+ * Only active in production (YOUR_PLATFORM_URL set), where Nginx serves custom domains.
+ */
+export function startCertificateRenewal(): void {
+    if (renewalTimer || !process.env.YOUR_PLATFORM_URL) return;
+
+    const sweep = () =>
+        renewCertificates().catch((error: any) => console.error('[Certificate Service] Renewal sweep failed:', error.message));
+    renewalTimer = setInterval(sweep, RENEWAL_INTERVAL_MS);
+    setImmediate(sweep);
+}
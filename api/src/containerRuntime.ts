@@ -0,0 +1,369 @@
+// src/containerRuntime.ts
+
+import { spawn } from 'child_process';
+import readline from 'readline';
+import { BuildType, getFrameworkPreset } from './buildPresets';
+import { ApplicationSpec, getInstanceName, RuntimeDriver, RuntimeLogLine, RuntimeMetrics } from './runtimeDriver';
+
+// --- Container Runtime ---
+// Runs a deployment's image as a Docker container instead of running its extracted build output
+// with the host's Node.js. Each container has its own filesystem and Node.js version, a read-only
+// root filesystem (only /tmp, and .next/cache for Next.js, are writable), no Linux capabilities,
+// and the project's CPU, memory and disk limits (disk: the size of the writable tmpfs mounts) plus a process limit. The application listens on CONTAINER_PORT inside the container,
+// published on 127.0.0.1:<internal port> for Nginx. Each replica is its own container, labelled with
+// its deployment so all of them can be found.
+
+const CONTAINER_PORT = 3000;
+const CONTAINER_PIDS_LIMIT = 256;
+// Docker's json-file log driver rotates the output of each container
+const CONTAINER_LOG_MAX_BYTES = parseInt(process.env.RUNTIME_LOG_MAX_BYTES || '', 10) || 10 * 1024 * 1024;
+const CONTAINER_LOG_RETAINED_FILES = parseInt(process.env.RUNTIME_LOG_RETAINED_FILES || '', 10) || 3;
+// How long a container must stay up after `docker run` to count as started
+const START_GRACE_PERIOD_MS = 1000;
+
+// `<RFC 3339 timestamp> <text>`, as written by `docker logs --timestamps`
+const CONTAINER_LOG_LINE_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})) ?(.*)$/;
+// `<amount><unit>`, as in the memory usage `docker stats` prints (e.g. 12.5MiB)
+const DOCKER_SIZE_PATTERN = /^([\d.]+)\s*([KMGT]i?B|B)$/i;
+const DOCKER_SIZE_UNITS: { [unit: string]: number } = {
+    b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12, kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4,
+};
+
+// Static build output (see StartCommand in buildPresets.ts) is served by this script inside the
+// container, since the image has nothing but Node.js and the files. Serves /app, with index.html
+// for unknown paths when STATIC_SPA is 'true', otherwise 404.html if the site has one.
+const STATIC_SERVER_SOURCE = `
+const http = require('http'), fs = require('fs'), path = require('path');
+const root = '/app', spa = process.env.STATIC_SPA === 'true';
+const types = { '.html': 'text/html; charset=utf-8', '.js': 'text/javascript', '.mjs': 'text/javascript', '.css': 'text/css',
+  '.json': 'application/json', '.svg': 'image/svg+xml', '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif', '.webp': 'image/webp', '.ico': 'image/x-icon', '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml', '.woff': 'font/woff', '.woff2': 'font/woff2', '.wasm': 'application/wasm' };
+const isFile = (file) => { try { return fs.statSync(file).isFile(); } catch { return false; } };
+http.createServer((req, res) => {
+  let pathname;
+  try { pathname = decodeURIComponent(new URL(req.url, 'http://localhost').pathname); } catch { res.writeHead(400); return res.end(); }
+  const file = path.join(root, path.normalize(pathname));
+  const found = [file, path.join(file, 'index.html'), file + '.html'].find(isFile);
+  const target = found || path.join(root, spa ? 'index.html' : '404.html');
+  fs.readFile(target, (error, data) => {
+    if (error) { res.writeHead(404, { 'Content-Type': 'text/plain' }); return res.end('Not found'); }
+    res.writeHead(found || spa ? 200 : 404, { 'Content-Type': types[path.extname(target)] || 'application/octet-stream' });
+    res.end(req.method === 'HEAD' ? undefined : data);
+  });
+}).listen(process.env.PORT, '0.0.0.0');
+`;
+
+export const getContainerName = (deploymentId: number, replica: number = 0): string => getInstanceName(deploymentId, replica);
+
+/**
+ * Runs a docker CLI command to completion.
+ * @param args Arguments to `docker`.
+ * @param env Environment of the docker client (e.g. values for `-e NAME` options).
+ * @returns The exit code and output.
+ * @throws Error if the docker CLI cannot be started.
+ */
+function runDocker(args: string[], env: NodeJS.ProcessEnv = process.env): Promise<{ code: number | null; stdout: string; stderr: string }> {
+    return new Promise((resolve, reject) => {
+        const dockerProcess = spawn('docker', args, { stdio: 'pipe', env });
+        let stdout = '';
+        let stderr = '';
+        dockerProcess.stdout.on('data', (data) => { stdout += data.toString(); });
+        dockerProcess.stderr.on('data', (data) => { stderr += data.toString(); });
+        dockerProcess.on('error', (error) => reject(new Error(`Docker process failed to start: ${error.message}`)));
+        dockerProcess.on('close', (code) => resolve({ code, stdout, stderr }));
+    });
+}
+
+/**
+ * Lists the names of the containers of all of a deployment's replicas, running or not.
+ * @param deploymentId The ID of the deployment.
+ * @throws Error if Docker cannot be queried.
+ */
+async function listContainerNames(deploymentId: number): Promise<string[]> {
+    const result = await runDocker(['ps', '--all', '--filter', `label=next-live.deployment=${deploymentId}`, '--format', '{{.Names}}']);
+    if (result.code !== 0) {
+        throw new Error(`Failed to list containers of deployment ${deploymentId}: ${result.stderr.trim()}`);
+    }
+    return result.stdout.split('\n').map((name) => name.trim()).filter(Boolean).sort();
+}
+
+/**
+ * Works out the command a container runs. Images from a framework preset's default Dockerfile hold
+ * only the build output, so the preset's start command is used; Next.js and user images run their own CMD.
+ * @returns The command, or null to run the image's CMD.
+ */
+function getContainerCommand(buildType: BuildType): { command: string[] | null; env: { [key: string]: string } } {
+    const preset = getFrameworkPreset(buildType);
+    if (!preset) {
+        return { command: null, env: {} };
+    }
+    const { start } = preset;
+    switch (start.kind) {
+        case 'static':
+            return { command: ['node', '-e', STATIC_SERVER_SOURCE], env: { STATIC_SPA: String(start.spa) } };
+        case 'npm':
+            return { command: ['npm', 'run', start.script], env: {} };
+        default:
+            return { command: ['node', start.script, ...(start.args ?? [])], env: {} };
+    }
+}
+
+/**
+ * Starts a deployment's image as a container, replacing any container the replica already has.
+ * @param app.deploymentId The ID of the deployment (names the container).
+ * @param app.imageName The deployment's image.
+ * @param app.buildType How the image was built (see getBuildType).
+ * @param app.env Project runtime environment variables (PORT, HOSTNAME, HOST and NODE_ENV always take precedence).
+ * @param app.limits CPUs, memory and writable disk space of the container.
+ * @param port The host port (on 127.0.0.1) to publish the application on.
+ * @param replica Which of the deployment's replicas the container is (names the container).
+ * @throws Error if the container cannot be created or exits right after starting.
+ */
+async function startContainer(app: ApplicationSpec, port: number, replica: number = 0): Promise<void> {
+    const containerName = getContainerName(app.deploymentId, replica);
+    await stopContainer(app.deploymentId, replica);
+
+    const { command, env: commandEnv } = getContainerCommand(app.buildType);
+    const containerEnv: { [key: string]: string } = {
+        ...app.env,
+        ...commandEnv,
+        PORT: CONTAINER_PORT.toString(),
+        HOSTNAME: '0.0.0.0', // Next.js standalone listens on HOSTNAME, which Docker sets to the container ID
+        HOST: '0.0.0.0',
+        NODE_ENV: 'production',
+        NPM_CONFIG_CACHE: '/tmp/.npm', // npm writes its cache and logs; the root filesystem is read-only
+    };
+    const isNextBuild = app.buildType === 'standalone' || app.buildType === 'classic';
+    const { cpus, memoryMb, diskMb } = app.limits;
+
+    const args = [
+        'run', '--detach',
+        '--name', containerName,
+        '--label', `next-live.deployment=${app.deploymentId}`,
+        '--label', `next-live.replica=${replica}`,
+        '--publish', `127.0.0.1:${port}:${CONTAINER_PORT}`,
+        '--cpus', cpus.toString(),
+        '--memory', `${memoryMb}m`,
+        '--memory-swap', `${memoryMb}m`, // No swap on top of the limit
+        '--pids-limit', CONTAINER_PIDS_LIMIT.toString(),
+        '--read-only',
+        // tmpfs counts against the memory limit as well; the size caps what the application can write
+        '--tmpfs', `/tmp:size=${diskMb}m`,
+        ...(isNextBuild ? ['--tmpfs', `/app/.next/cache:size=${diskMb}m`] : []),
+        '--cap-drop', 'ALL',
+        '--security-opt', 'no-new-privileges',
+        '--log-driver', 'json-file',
+        '--log-opt', `max-size=${CONTAINER_LOG_MAX_BYTES}`,
+        '--log-opt', `max-file=${CONTAINER_LOG_RETAINED_FILES}`,
+        // `-e NAME` takes the value from the docker client's environment, keeping values off the command line
+        ...Object.keys(containerEnv).flatMap((name) => ['--env', name]),
+        app.imageName,
+        ...(command ?? []),
+    ];
+
+    console.log(`[Container Runtime] Starting container '${containerName}' from ${app.imageName} on 127.0.0.1:${port} (CPUs: ${cpus}, memory: ${memoryMb}MB, disk: ${diskMb}MB).`);
+    const result = await runDocker(args, { ...process.env, ...containerEnv });
+    if (result.code !== 0) {
+        throw new Error(`Failed to start container '${containerName}': ${result.stderr.trim() || `exit code ${result.code}`}`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, START_GRACE_PERIOD_MS));
+    const status = await getContainerStatus(app.deploymentId, replica);
+    if (status !== 'online') {
+        const logs = await runDocker(['logs', '--tail', '20', containerName]);
+        throw new Error(`Container '${containerName}' started but is not running (status: ${status ?? 'gone'}). Last output:\n${(logs.stdout + logs.stderr).trim()}`);
+    }
+    console.log(`[Container Runtime] Container '${containerName}' is running.`);
+}
+
+/**
+ * Stops and removes a deployment's containers. A missing container is not an error.
+ * @param deploymentId The ID of the deployment.
+ * @param replica The replica whose container to remove. Without it, every replica's container is removed.
+ * @throws Error if Docker fails to remove a container for another reason.
+ */
+async function stopContainer(deploymentId: number, replica?: number): Promise<void> {
+    const containerNames = replica === undefined ? await listContainerNames(deploymentId) : [getContainerName(deploymentId, replica)];
+    for (const containerName of containerNames) {
+        const result = await runDocker(['rm', '--force', containerName]);
+        if (result.code !== 0 && !result.stderr.includes('No such container')) {
+            throw new Error(`Failed to remove container '${containerName}': ${result.stderr.trim()}`);
+        }
+        if (result.code === 0) {
+            console.log(`[Container Runtime] Container '${containerName}' stopped and removed.`);
+        }
+    }
+}
+
+/**
+ * Reads the state of a deployment's container, in PM2's terms where they match.
+ * @param deploymentId The ID of the deployment.
+ * @param replica Which replica's container to read (the first by default).
+ * @returns 'online' for a running container, otherwise Docker's state (e.g. 'exited', 'restarting'),
+ *          or null if the replica has no container.
+ * @throws Error if Docker cannot be queried.
+ */
+async function getContainerStatus(deploymentId: number, replica: number = 0): Promise<string | null> {
+    const containerName = getContainerName(deploymentId, replica);
+    const result = await runDocker(['inspect', '--format', '{{.State.Status}}', containerName]);
+    if (result.code !== 0) {
+        if (result.stderr.includes('No such object') || result.stderr.includes('No such container')) {
+            return null;
+        }
+        throw new Error(`Failed to read status of container '${containerName}': ${result.stderr.trim()}`);
+    }
+    const status = result.stdout.trim();
+    return status === 'running' ? 'online' : status;
+}
+
+/**
+ * Splits `docker logs --timestamps` output of one stream into lines.
+ */
+function parseContainerLogLines(text: string, stream: RuntimeLogLine['stream']): RuntimeLogLine[] {
+    return text
+        .split('\n')
+        .filter((line) => line.length > 0)
+        .map((line) => {
+            const match = CONTAINER_LOG_LINE_PATTERN.exec(line);
+            const date = match ? new Date(match[1]) : null;
+            return {
+                timestamp: date && !Number.isNaN(date.getTime()) ? date.toISOString() : null,
+                stream,
+                text: (match ? match[2] : line).replace(/\r$/, ''),
+            };
+        });
+}
+
+/**
+ * Reads the most recent output of a deployment's containers, stdout and stderr of all replicas merged in time order.
+ * @param deploymentId The ID of the deployment.
+ * @param tail Number of lines to read from each stream of each container.
+ * @returns The lines, oldest first. Empty if the deployment has no container.
+ */
+async function readContainerLogs(deploymentId: number, tail: number): Promise<RuntimeLogLine[]> {
+    const lines: RuntimeLogLine[] = [];
+    for (const containerName of await listContainerNames(deploymentId)) {
+        const result = await runDocker(['logs', '--timestamps', '--tail', tail.toString(), containerName]);
+        if (result.code !== 0) continue;
+        lines.push(...parseContainerLogLines(result.stdout, 'stdout'), ...parseContainerLogLines(result.stderr, 'stderr'));
+    }
+    return lines.sort((a, b) => (a.timestamp ?? '').localeCompare(b.timestamp ?? ''));
+}
+
+/**
+ * Streams the output of a deployment's containers as it is written, starting from now.
+ * Yields batches of lines; ends when all containers present at the start go away, or the signal is aborted.
+ * @param deploymentId The ID of the deployment.
+ * @param signal Ends the stream, even while waiting for output, and stops the `docker logs` processes.
+ */
+async function* followContainerLogs(deploymentId: number, signal: AbortSignal): AsyncGenerator<RuntimeLogLine[]> {
+    const since = new Date().toISOString();
+    const dockerProcesses = (await listContainerNames(deploymentId)).map((containerName) =>
+        spawn('docker', ['logs', '--follow', '--timestamps', '--since', since, containerName], { stdio: 'pipe' })
+    );
+    let pending: RuntimeLogLine[] = [];
+    let running = dockerProcesses.length;
+    let wakeUp: (() => void) | null = null;
+    const push = (lines: RuntimeLogLine[]) => {
+        pending.push(...lines);
+        wakeUp?.();
+    };
+
+    for (const dockerProcess of dockerProcesses) {
+        readline.createInterface({ input: dockerProcess.stdout }).on('line', (line) => push(parseContainerLogLines(line, 'stdout')));
+        readline.createInterface({ input: dockerProcess.stderr }).on('line', (line) => push(parseContainerLogLines(line, 'stderr')));
+        dockerProcess.on('close', () => {
+            running--;
+            wakeUp?.();
+        });
+        dockerProcess.on('error', (error) => {
+            console.error(`[Container Runtime] Could not follow logs of deployment ${deploymentId}:`, error.message);
+        });
+    }
+    const ended = () => running === 0 || signal.aborted;
+    const onAbort = () => wakeUp?.();
+    signal.addEventListener('abort', onAbort);
+
+    try {
+        while (!signal.aborted) {
+            if (pending.length > 0) {
+                const batch = pending;
+                pending = [];
+                yield batch;
+                continue;
+            }
+            if (ended()) return;
+            await new Promise<void>((resolve) => {
+                wakeUp = resolve;
+            });
+            wakeUp = null;
+        }
+    } finally {
+        signal.removeEventListener('abort', onAbort);
+        dockerProcesses.forEach((dockerProcess) => dockerProcess.kill('SIGTERM'));
+    }
+}
+
+/**
+ * Reads a size as `docker stats` prints it.
+ * @returns The size in bytes, or 0 if it cannot be read.
+ */
+function parseDockerSize(value: string): number {
+    const match = DOCKER_SIZE_PATTERN.exec(value.trim());
+    return match ? Math.round(parseFloat(match[1]) * (DOCKER_SIZE_UNITS[match[2].toLowerCase()] ?? 1)) : 0;
+}
+
+/**
+ * Reads the resource usage of a deployment's container.
+ * @param deploymentId The ID of the deployment.
+ * @param replica Which replica's container to read (the first by default).
+ * @returns The metrics, or null if the replica has no container.
+ * @throws Error if Docker cannot be queried.
+ */
+async function getContainerMetrics(deploymentId: number, replica: number = 0): Promise<RuntimeMetrics | null> {
+    const containerName = getContainerName(deploymentId, replica);
+    const inspect = await runDocker(['inspect', '--format', '{{.State.Status}} {{.State.StartedAt}} {{.RestartCount}} {{.HostConfig.Memory}}', containerName]);
+    if (inspect.code !== 0) {
+        if (inspect.stderr.includes('No such object') || inspect.stderr.includes('No such container')) {
+            return null;
+        }
+        throw new Error(`Failed to inspect container '${containerName}': ${inspect.stderr.trim()}`);
+    }
+    const [state, startedAt, restartCount, memoryLimit] = inspect.stdout.trim().split(' ');
+    const running = state === 'running';
+
+    let cpuPercent = 0;
+    let memoryBytes = 0;
+    if (running) {
+        const stats = await runDocker(['stats', '--no-stream', '--format', '{{.CPUPerc}}|{{.MemUsage}}', containerName]);
+        if (stats.code !== 0) {
+            throw new Error(`Failed to read resource usage of container '${containerName}': ${stats.stderr.trim()}`);
+        }
+        const [cpu, memoryUsage] = stats.stdout.trim().split('|');
+        cpuPercent = parseFloat(cpu) || 0;
+        memoryBytes = parseDockerSize(memoryUsage?.split('/')[0] ?? '');
+    }
+
+    const started = new Date(startedAt);
+    return {
+        cpuPercent,
+        memoryBytes,
+        memoryLimitBytes: parseInt(memoryLimit, 10) || null, // 0 means unlimited
+        restarts: parseInt(restartCount, 10) || 0,
+        uptimeMs: running && !Number.isNaN(started.getTime()) ? Date.now() - started.getTime() : null,
+    };
+}
+
+export const dockerDriver: RuntimeDriver = {
+    name: 'docker',
+    start: startContainer,
+    stop: stopContainer,
+    // Starting removes the old container first, so a restart keeps the port
+    restart: startContainer,
+    status: getContainerStatus,
+    logs: readContainerLogs,
+    followLogs: followContainerLogs,
+    metrics: getContainerMetrics,
+};
+// --- End Container Runtime ---
@@ -0,0 +1,231 @@
+// src/deploymentEvents.ts
+
+import { PrismaClient } from '@prisma/client';
+import { Client } from 'pg';
+import { EventEmitter, on } from 'events';
+import fs from 'fs/promises';
+import { watch, FSWatcher } from 'fs';
+
+const prisma = new PrismaClient();
+
+// --- Deployment Events for GraphQL Subscriptions ---
+// Status changes are announced with Postgres NOTIFY so that subscribers connected to any API
+// instance hear about deployments processed by the workers of another instance.
+// Logs are tailed from the deployment's log file, starting at a byte offset the client can resume from.
+
+const DEPLOYMENT_STATUS_CHANNEL = 'deployment_status';
+// How long to wait before reconnecting the LISTEN connection after it drops
+const LISTENER_RECONNECT_DELAY_MS = 5_000;
+// Fallback wake-up for log tails in case a file change or status notification was missed
+const LOG_TAIL_POLL_INTERVAL_MS = 2_000;
+// Largest chunk of log sent in one subscription event
+const LOG_CHUNK_MAX_BYTES = 64 * 1024;
+const FINAL_STATUSES = ['ready', 'failed', 'cancelled'];
+
+const deploymentEvents = new EventEmitter();
+deploymentEvents.setMaxListeners(0); // One listener per open subscription
+
+let listenerClient: Client | null = null;
+
+const statusEventName = (deploymentId: number) => `status:${deploymentId}`;
+
+/**
+ * Announces that a deployment's status or details changed. Call after every status update.
+ * Never throws: a missed notification only delays subscribers until their next refresh.
+ * @param deploymentId The ID of the deployment.
+ */
+export async function notifyDeploymentStatusChanged(deploymentId: number): Promise<void> {
+    try {
+        await prisma.$executeRaw`SELECT pg_notify(${DEPLOYMENT_STATUS_CHANNEL}, ${String(deploymentId)})`;
+    } catch (error: any) {
+        console.error(`[Deployment Events] Failed to notify status change of deployment ${deploymentId}:`, error.message);
+    }
+}
+
+async function publishDeploymentStatus(deploymentId: number): Promise<void> {
+    const deployment = await prisma.deployment.findUnique({ where: { id: deploymentId } });
+    if (deployment) {
+        deploymentEvents.emit(statusEventName(deploymentId), deployment);
+    }
+}
+
+/**
+ * Opens the connection that LISTENs for deployment status notifications and relays them
+ * to this process's subscribers. Reconnects on its own if the connection drops. Call once at API startup.
+ */
+export async function startDeploymentEventListener(): Promise<void> {
+    if (listenerClient) return;
+
+    const client = new Client({ connectionString: process.env.DATABASE_URL });
+    listenerClient = client;
+
+    const reconnect = (error: Error) => {
+        console.error(`[Deployment Events] Listener connection lost: ${error.message}. Reconnecting in ${LISTENER_RECONNECT_DELAY_MS}ms.`);
+        if (listenerClient === client) listenerClient = null;
+        client.end().catch(() => undefined);
+        setTimeout(() => startDeploymentEventListener(), LISTENER_RECONNECT_DELAY_MS);
+    };
+
+    client.on('notification', (message) => {
+        const deploymentId = parseInt(message.payload ?? '', 10);
+        if (message.channel !== DEPLOYMENT_STATUS_CHANNEL || Number.isNaN(deploymentId)) return;
+        publishDeploymentStatus(deploymentId).catch((error: any) =>
+            console.error(`[Deployment Events] Failed to publish status of deployment ${deploymentId}:`, error.message)
+        );
+    });
+    client.on('error', reconnect);
+
+    try {
+        await client.connect();
+        await client.query(`LISTEN ${DEPLOYMENT_STATUS_CHANNEL}`);
+        console.log(`[Deployment Events] Listening for deployment status changes.`);
+    } catch (error: any) {
+        reconnect(error);
+    }
+}
+
+/**
+ * Streams a deployment's record: the current state first, then every change,
+ * ending after the deployment reaches a final status.
+ * @param deploymentId The ID of the deployment.
+ */
+export async function* subscribeToDeploymentStatus(deploymentId: number) {
+    const abortController = new AbortController();
+    // Start listening before reading the current state so no change falls in between
+    const changes = on(deploymentEvents, statusEventName(deploymentId), { signal: abortController.signal });
+
+    try {
+        const current = await prisma.deployment.findUnique({ where: { id: deploymentId } });
+        if (!current) return;
+        yield current;
+        if (FINAL_STATUSES.includes(current.status)) return;
+
+        for await (const [deployment] of changes) {
+            yield deployment;
+            if (FINAL_STATUSES.includes(deployment.status)) return;
+        }
+    } catch (error: any) {
+        if (error.name !== 'AbortError') throw error;
+    } finally {
+        abortController.abort();
+    }
+}
+
+/**
+ * Reads the next chunk of a log file, ending at a line break so multi-byte characters and lines stay whole.
+ * @param logFilePath The log file.
+ * @param offset Byte offset to read from.
+ * @param includePartialLine Also return a trailing line without a line break (once nothing more will be written).
+ * @returns The chunk and the offset just after it, or null if there is nothing new.
+ */
+export async function readLogChunk(
+    logFilePath: string,
+    offset: number,
+    includePartialLine: boolean
+): Promise<{ content: string; nextOffset: number } | null> {
+    let file: fs.FileHandle;
+    try {
+        file = await fs.open(logFilePath, 'r');
+    } catch {
+        return null; // Not created yet
+    }
+
+    try {
+        const { size } = await file.stat();
+        if (size <= offset) return null;
+
+        const buffer = Buffer.alloc(Math.min(size - offset, LOG_CHUNK_MAX_BYTES));
+        const { bytesRead } = await file.read(buffer, 0, buffer.length, offset);
+        let length = bytesRead;
+        const lastLineBreak = buffer.lastIndexOf(0x0a, bytesRead - 1);
+        if (lastLineBreak >= 0) {
+            length = lastLineBreak + 1;
+        } else if (!includePartialLine && bytesRead < LOG_CHUNK_MAX_BYTES) {
+            return null; // Wait for the rest of the line
+        }
+        if (length === 0) return null;
+
+        return { content: buffer.subarray(0, length).toString('utf8'), nextOffset: offset + length };
+    } finally {
+        await file.close();
+    }
+}
+
+/**
+ * Streams a deployment's log file from a byte offset as it grows, ending once the deployment
+ * has reached a final status and the whole file has been sent.
+ * @param deploymentId The ID of the deployment.
+ * @param logFilePath The deployment's log file.
+ * @param fromOffset Byte offset to start from (the `offset` of the last chunk a client received).
+ */
+export async function* tailDeploymentLog(deploymentId: number, logFilePath: string, fromOffset: number = 0) {
+    let offset = Math.max(0, fromOffset);
+    let changed = true;
+    let wakeUp: (() => void) | null = null;
+    const onChange = () => {
+        changed = true;
+        wakeUp?.();
+    };
+
+    let finished = false;
+    const onStatus = (deployment: { status: string }) => {
+        finished = FINAL_STATUSES.includes(deployment.status);
+        onChange();
+    };
+    deploymentEvents.on(statusEventName(deploymentId), onStatus);
+
+    let watcher: FSWatcher | null = null;
+    const startWatching = () => {
+        try {
+            const fileWatcher = watch(logFilePath, onChange);
+            // e.g. the working directory of a failed deployment was removed
+            fileWatcher.on('error', () => {
+                fileWatcher.close();
+                if (watcher === fileWatcher) watcher = null;
+            });
+            watcher = fileWatcher;
+        } catch {
+            watcher = null; // The file does not exist yet; retried on the next poll
+        }
+    };
+
+    try {
+        const deployment = await prisma.deployment.findUnique({ where: { id: deploymentId }, select: { status: true } });
+        finished = !deployment || FINAL_STATUSES.includes(deployment.status);
+        startWatching();
+
+        while (true) {
+            changed = false;
+            const wasFinished = finished;
+
+            let chunk = await readLogChunk(logFilePath, offset, wasFinished);
+            while (chunk) {
+                offset = chunk.nextOffset;
+                yield { deploymentId, offset, content: chunk.content };
+                chunk = await readLogChunk(logFilePath, offset, wasFinished);
+            }
+            if (wasFinished) return;
+
+            if (!watcher) startWatching();
+            if (!changed) {
+                const timedOut = await new Promise<boolean>((resolve) => {
+                    const timer = setTimeout(() => resolve(true), LOG_TAIL_POLL_INTERVAL_MS);
+                    wakeUp = () => {
+                        clearTimeout(timer);
+                        resolve(false);
+                    };
+                });
+                wakeUp = null;
+                if (timedOut) {
+                    // Catch up on a status notification that may have been missed
+                    const latest = await prisma.deployment.findUnique({ where: { id: deploymentId }, select: { status: true } });
+                    finished = !latest || FINAL_STATUSES.includes(latest.status);
+                }
+            }
+        }
+    } finally {
+        deploymentEvents.off(statusEventName(deploymentId), onStatus);
+        (watcher as FSWatcher | null)?.close();
+    }
+}
+// --- End Deployment Events ---
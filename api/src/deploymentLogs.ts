@@ -0,0 +1,204 @@
+// src/deploymentLogs.ts
+
+import { Writable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { createReadStream, createWriteStream, WriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import readline from 'readline';
+
+// --- Structured Deployment Logs ---
+// Every line of a deployment's log file is written as
+//   <ISO timestamp> [<stage>] [<stdout|stderr>] <text>
+// so the log can be read back as typed lines, filtered by stage and paged through by line number.
+// Lines that do not follow the format (e.g. logs written before it existed) are read back with only their text.
+
+export const DEPLOYMENT_LOG_STAGES = ['clone', 'build', 'extract', 'serve', 'proxy'] as const;
+export type DeploymentLogStage = (typeof DEPLOYMENT_LOG_STAGES)[number];
+export type DeploymentLogStream = 'stdout' | 'stderr';
+
+const LOG_LINE_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z) \[([a-z]+)\] \[(stdout|stderr)\] (.*)$/;
+
+const DEFAULT_PAGE_SIZE = 500;
+const MAX_PAGE_SIZE = 5000;
+
+export interface DeploymentLogLine {
+    lineNumber: number; // 1-based; pass the last one back as `after` to read the next page
+    timestamp: string | null;
+    stage: DeploymentLogStage | null;
+    stream: DeploymentLogStream;
+    text: string;
+}
+
+function formatLogLine(stage: DeploymentLogStage, stream: DeploymentLogStream, text: string): string {
+    // Carriage returns (progress output) would split the line when it is read back
+    return `${new Date().toISOString()} [${stage}] [${stream}] ${text.replace(/\r/g, '')}\n`;
+}
+
+/**
+ * Writable that tags everything written to it, line by line, before appending it to the log file.
+ * Text without a trailing line break is held back until the rest of the line arrives or the writer ends.
+ */
+class TaggedLineWriter extends Writable {
+    private readonly decoder = new StringDecoder('utf8');
+    private partialLine = '';
+
+    constructor(
+        protected readonly file: WriteStream,
+        private readonly stage: DeploymentLogStage,
+        private readonly stream: DeploymentLogStream
+    ) {
+        super();
+    }
+
+    _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+        this.appendLines(this.decoder.write(chunk), false, callback);
+    }
+
+    _final(callback: (error?: Error | null) => void): void {
+        this.appendLines(this.decoder.end(), true, callback);
+    }
+
+    protected appendLines(text: string, includePartialLine: boolean, callback: (error?: Error | null) => void): void {
+        const lines = (this.partialLine + text).split(/\r?\n/);
+        // The last piece is whatever follows the last line break ('' if the text ended with one)
+        const rest = lines.pop() ?? '';
+        this.partialLine = includePartialLine ? '' : rest;
+        if (includePartialLine && rest) lines.push(rest);
+
+        if (lines.length === 0) {
+            callback();
+            return;
+        }
+        this.file.write(lines.map((line) => formatLogLine(this.stage, this.stream, line)).join(''), callback);
+    }
+}
+
+/**
+ * A deployment log writer for one stage. Writing to it (or piping a child's stdout into it) appends
+ * lines tagged `stdout`; `stderr` is a second writable for lines tagged `stderr`.
+ * Ending it flushes both and closes the log file.
+ */
+export class DeploymentLogWriter extends TaggedLineWriter {
+    readonly stderr: TaggedLineWriter;
+
+    constructor(file: WriteStream, stage: DeploymentLogStage) {
+        super(file, stage, 'stdout');
+        this.stderr = new TaggedLineWriter(file, stage, 'stderr');
+        file.on('error', (error) => this.destroy(error));
+    }
+
+    _final(callback: (error?: Error | null) => void): void {
+        super._final((error) => {
+            if (error) return callback(error);
+            this.stderr.end(() => this.file.end(callback));
+        });
+    }
+}
+
+/**
+ * Opens a deployment's log file for appending lines of one stage. The log directory is created if needed.
+ * @param logFilePath The deployment's log file.
+ * @param stage The stage the lines belong to.
+ * @returns The writer. End it when the stage is done.
+ */
+export async function createDeploymentLogWriter(logFilePath: string, stage: DeploymentLogStage): Promise<DeploymentLogWriter> {
+    await fs.mkdir(path.dirname(logFilePath), { recursive: true });
+    return new DeploymentLogWriter(createWriteStream(logFilePath, { flags: 'a' }), stage);
+}
+
+/**
+ * Appends a few lines to a deployment's log without keeping the file open, e.g. for a status message.
+ * Never throws: a log line that cannot be written is reported on the console instead.
+ * @param logFilePath The deployment's log file.
+ * @param stage The stage the lines belong to.
+ * @param text The text to append. Multi-line text is split into one log line per line.
+ * @param stream Whether the text is output or an error.
+ */
+export async function appendDeploymentLog(
+    logFilePath: string,
+    stage: DeploymentLogStage,
+    text: string,
+    stream: DeploymentLogStream = 'stdout'
+): Promise<void> {
+    const lines = text.replace(/\r?\n$/, '').split(/\r?\n/);
+    try {
+        await fs.mkdir(path.dirname(logFilePath), { recursive: true });
+        await fs.appendFile(logFilePath, lines.map((line) => formatLogLine(stage, stream, line)).join(''));
+    } catch (error: any) {
+        console.error(`[Deployment Logs] Failed to append to ${logFilePath}: ${error.message}`);
+    }
+}
+
+/**
+ * Parses one line of a deployment log file.
+ * @param line The raw line, without its line break.
+ * @param lineNumber The line's 1-based position in the file.
+ */
+export function parseDeploymentLogLine(line: string, lineNumber: number): DeploymentLogLine {
+    const match = LOG_LINE_PATTERN.exec(line);
+    if (!match || !(DEPLOYMENT_LOG_STAGES as readonly string[]).includes(match[2])) {
+        return { lineNumber, timestamp: null, stage: null, stream: 'stdout', text: line };
+    }
+    return {
+        lineNumber,
+        timestamp: match[1],
+        stage: match[2] as DeploymentLogStage,
+        stream: match[3] as DeploymentLogStream,
+        text: match[4],
+    };
+}
+
+/**
+ * Reads a page of a deployment's log as typed lines.
+ * @param logFilePath The deployment's log file.
+ * @param options.after Only return lines after this line number (the `nextCursor` of the previous page).
+ * @param options.limit Maximum number of lines to return (default 500, at most 5000).
+ * @param options.stage Only return lines of this stage.
+ * @param options.search Only return lines whose text contains this string (case-insensitive).
+ * @returns The lines, the cursor to pass as `after` for the next page, and whether more matching lines follow.
+ *          A log file that does not exist yet reads as empty.
+ */
+export async function readDeploymentLogLines(
+    logFilePath: string,
+    options: { after?: number | null; limit?: number | null; stage?: DeploymentLogStage | null; search?: string | null } = {}
+): Promise<{ lines: DeploymentLogLine[]; nextCursor: number; hasMore: boolean }> {
+    const after = Math.max(0, options.after ?? 0);
+    const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const search = options.search?.toLowerCase() || null;
+
+    const lines: DeploymentLogLine[] = [];
+    let hasMore = false;
+
+    try {
+        await fs.access(logFilePath);
+    } catch {
+        return { lines, nextCursor: after, hasMore }; // Not created yet
+    }
+
+    const fileStream = createReadStream(logFilePath, { encoding: 'utf8' });
+    const reader = readline.createInterface({ input: fileStream, crlfDelay: Infinity });
+    try {
+        let lineNumber = 0;
+        for await (const rawLine of reader) {
+            lineNumber++;
+            if (lineNumber <= after) continue;
+
+            const line = parseDeploymentLogLine(rawLine, lineNumber);
+            if (options.stage && line.stage !== options.stage) continue;
+            if (search && !line.text.toLowerCase().includes(search)) continue;
+
+            if (lines.length === limit) {
+                hasMore = true;
+                break;
+            }
+            lines.push(line);
+        }
+    } finally {
+        reader.close();
+        fileStream.destroy();
+    }
+
+    return { lines, nextCursor: lines.length > 0 ? lines[lines.length - 1].lineNumber : after, hasMore };
+}
+// --- End Structured Deployment Logs ---
@@ -1,60 +1,367 @@
 // src/deploymentQueue.ts
 
-// --- In-Memory Deployment Queue and Worker ---
-// This queue stores functions (tasks) to be executed asynchronously
-const deploymentQueue: Array<() => Promise<void>> = [];
-// Increased limit as requested by the user in the prompt
-const MAX_CONCURRENT_DEPLOYMENTS = 1; // Limit of concurrent deployments
-let runningDeployments = 0; // Counter for currently running deployments
+import { PrismaClient } from '@prisma/client';
+import os from 'os';
+import { processDeployment, cleanUpDeploymentResources, finishOpenStages } from './processDeployment';
+import { notifyDeploymentStatusChanged } from './deploymentEvents';
+import { assertDeploymentQuota } from './quotaService';
+import { IN_PROGRESS_DEPLOYMENT_STATUSES } from './utils';
 
-console.log(`In-memory deployment queue initialized. Max concurrent deployments: ${MAX_CONCURRENT_DEPLOYMENTS}`);
+const prisma = new PrismaClient();
 
-// The worker function that pulls tasks from the queue and executes them
+// --- Persistent Deployment Queue and Worker ---
+// Jobs live in the "DeploymentJob" table so a restart of the API does not lose them.
+// Any number of API instances can run workers; a job is claimed with a row lock
+// (FOR UPDATE SKIP LOCKED) so it is only ever picked up by one worker.
+
+// Identifies this process as the owner of the jobs it claims
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+// How often a running job refreshes its heartbeat
+const HEARTBEAT_INTERVAL_MS = 10_000;
+// A running job whose heartbeat is older than this is considered orphaned
+const STALE_JOB_TIMEOUT_MS = 60_000;
+// How often the queue is polled for jobs enqueued by other instances and for orphaned jobs
+const QUEUE_POLL_INTERVAL_MS = 5_000;
+// An orphaned job is re-queued until it has been attempted this many times, then failed
+const MAX_JOB_ATTEMPTS = 3;
+
+let maxConcurrentDeployments = parseInt(process.env.MAX_CONCURRENT_DEPLOYMENTS || '1', 10) || 1;
+let runningDeployments = 0; // Counter for deployments running in this process
+let pollTimer: NodeJS.Timeout | null = null;
+// Jobs running in this process, by deployment ID, so that a cancellation can stop them right away
+const runningJobControllers = new Map<number, AbortController>();
+
+const CANCELLED_MESSAGE = 'Deployment was cancelled.';
+
+console.log(`Persistent deployment queue initialized (worker ${WORKER_ID}). Max concurrent deployments: ${maxConcurrentDeployments}`);
+
+/**
+ * Atomically claims the oldest queued job, marking it as running and owned by this worker.
+ * @returns The claimed job, or null if the queue is empty (or every queued row is locked by another worker).
+ */
+async function claimNextJob(): Promise<{ id: number; deploymentId: number; attempts: number } | null> {
+    const claimed = await prisma.$queryRaw<Array<{ id: number; deploymentId: number; attempts: number }>>`
+        UPDATE "DeploymentJob"
+        SET "status" = 'running',
+            "lockedBy" = ${WORKER_ID},
+            "lockedAt" = NOW(),
+            "heartbeatAt" = NOW(),
+            "attempts" = "attempts" + 1,
+            "updatedAt" = NOW()
+        WHERE "id" = (
+            SELECT "id" FROM "DeploymentJob"
+            WHERE "status" = 'queued'
+            ORDER BY "createdAt"
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING "id", "deploymentId", "attempts"
+    `;
+    return claimed[0] ?? null;
+}
+
+/**
+ * Refreshes a running job's heartbeat and stops the job if a cancellation was requested
+ * (possibly through another API instance).
+ * @param jobId The ID of the job.
+ * @param controller The job's abort controller.
+ */
+async function refreshHeartbeat(jobId: number, controller: AbortController): Promise<void> {
+    await prisma.deploymentJob.updateMany({ where: { id: jobId, lockedBy: WORKER_ID }, data: { heartbeatAt: new Date() } });
+    const job = await prisma.deploymentJob.findUnique({ where: { id: jobId }, select: { cancelRequestedAt: true } });
+    if (job?.cancelRequestedAt && !controller.signal.aborted) {
+        console.log(`[Worker] Cancellation requested for job ${jobId}. Stopping it.`);
+        controller.abort(new Error(CANCELLED_MESSAGE));
+    }
+}
+
+/**
+ * Runs a claimed job: loads the deployment and its project and hands them to processDeployment,
+ * keeping the job's heartbeat fresh while it runs.
+ * @param job The job claimed by this worker.
+ */
+async function runJob(job: { id: number; deploymentId: number; attempts: number }): Promise<void> {
+    const { id: jobId, deploymentId } = job;
+    const controller = new AbortController();
+    runningJobControllers.set(deploymentId, controller);
+
+    const heartbeat = setInterval(() => {
+        refreshHeartbeat(jobId, controller)
+            .catch((error: any) => console.error(`[Worker] Failed to refresh heartbeat for job ${jobId}:`, error.message));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+        const deployment = await prisma.deployment.findUnique({
+            where: { id: deploymentId },
+            include: { project: true },
+        });
+        if (!deployment) {
+            throw new Error(`Deployment ${deploymentId} no longer exists.`);
+        }
+
+        await processDeployment({
+            deploymentId: deployment.id,
+            projectId: deployment.project.id,
+            userId: deployment.project.userId,
+            gitRepoUrl: deployment.project.gitRepoUrl,
+            gitRef: deployment.gitRef,
+            commitSha: deployment.commitSha,
+            signal: controller.signal,
+        });
+
+        await prisma.deploymentJob.update({
+            where: { id: jobId },
+            data: controller.signal.aborted
+                ? { status: 'cancelled', lastError: CANCELLED_MESSAGE, lockedBy: null, lockedAt: null }
+                : { status: 'completed', lockedBy: null, lockedAt: null },
+        });
+    } catch (error: any) {
+        // processDeployment handles its own failures and updates the deployment status.
+        // Anything that reaches this point escaped that handling, so record it on both rows.
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[Worker] Unhandled error executing job ${jobId} (deployment ${deploymentId}):`, message);
+        await prisma.deploymentJob
+            .update({ where: { id: jobId }, data: { status: 'failed', lastError: message, lockedBy: null, lockedAt: null } })
+            .catch((dbError: any) => console.error(`[Worker] Failed to mark job ${jobId} as failed:`, dbError.message));
+        await prisma.deployment
+            .update({ where: { id: deploymentId }, data: { status: 'failed', errorMessage: `Unhandled processing error: ${message}` } })
+            .catch((dbError: any) => console.error(`[Deployment ${deploymentId}] Failed to update status to failed after unhandled error:`, dbError.message));
+        await finishOpenStages(deploymentId, message);
+        await notifyDeploymentStatusChanged(deploymentId);
+    } finally {
+        clearInterval(heartbeat);
+        runningJobControllers.delete(deploymentId);
+    }
+}
+
+// The worker function that claims jobs from the table and executes them
 async function deploymentWorker() {
-    // Continue processing as long as there are tasks in the queue AND we are below the concurrency limit
-    while (deploymentQueue.length > 0 && runningDeployments < MAX_CONCURRENT_DEPLOYMENTS) {
-        const task = deploymentQueue.shift(); // Get the next task from the front of the queue
-        if (task) { // Ensure a task was actually retrieved
-            runningDeployments++;
-            console.log(`[Worker] Starting a deployment task. Running: ${runningDeployments}/${MAX_CONCURRENT_DEPLOYMENTS}. Queue size: ${deploymentQueue.length}`);
-            try {
-                await task(); // Execute the task (which is an async function calling processDeployment)
-            } catch (error) {
-                // This catch block is primarily for logging errors that might escape
-                // the internal error handling of the task itself (processDeployment).
-                // The processDeployment function's internal catch should handle updating DB status.
-                console.error("[Worker] Unhandled error executing deployment task:", error);
-            } finally {
-                runningDeployments--;
-                console.log(`[Worker] Finished a deployment task. Running: ${runningDeployments}/${MAX_CONCURRENT_DEPLOYMENTS}. Queue size: ${deploymentQueue.length}`);
-                // Schedule the worker to check the queue again immediately after a task finishes.
-                // This is crucial to pick up the next queued task if concurrency allows.
-                // Using setImmediate or process.nextTick prevents blocking the event loop.
-                setImmediate(deploymentWorker);
-            }
+    // Continue claiming jobs as long as we are below the concurrency limit and jobs are available
+    while (runningDeployments < maxConcurrentDeployments) {
+        let job: { id: number; deploymentId: number; attempts: number } | null;
+        runningDeployments++; // Reserve the slot before awaiting so concurrent worker calls respect the limit
+        try {
+            job = await claimNextJob();
+        } catch (error: any) {
+            runningDeployments--;
+            console.error('[Worker] Failed to claim a deployment job:', error.message);
+            return;
+        }
+        if (!job) {
+            runningDeployments--;
+            break;
+        }
+
+        const claimedJob = job;
+        console.log(`[Worker] Claimed job ${claimedJob.id} for deployment ${claimedJob.deploymentId} (attempt ${claimedJob.attempts}). Running: ${runningDeployments}/${maxConcurrentDeployments}`);
+        runJob(claimedJob).finally(() => {
+            runningDeployments--;
+            console.log(`[Worker] Finished job ${claimedJob.id}. Running: ${runningDeployments}/${maxConcurrentDeployments}`);
+            // Check the queue again immediately after a job finishes.
+            setImmediate(deploymentWorker);
+        });
+    }
+}
+
+/**
+ * Finds running jobs whose worker stopped sending heartbeats (e.g. the API crashed or restarted)
+ * and either re-queues them or, once they have used up their attempts, fails them.
+ * Also fails in-progress deployments that have no job at all.
+ */
+async function recoverOrphanedDeployments(): Promise<void> {
+    const staleBefore = new Date(Date.now() - STALE_JOB_TIMEOUT_MS);
+    const orphanedJobs = await prisma.deploymentJob.findMany({
+        where: {
+            status: 'running',
+            OR: [{ heartbeatAt: null }, { heartbeatAt: { lt: staleBefore } }],
+        },
+        include: { deployment: true },
+    });
+
+    for (const job of orphanedJobs) {
+        const deploymentId = job.deploymentId;
+
+        // Take ownership of the orphaned row first so that only one instance recovers it
+        const { count } = await prisma.deploymentJob.updateMany({
+            where: { id: job.id, status: 'running', lockedBy: job.lockedBy, heartbeatAt: job.heartbeatAt },
+            data: { lockedBy: WORKER_ID, heartbeatAt: new Date() },
+        });
+        if (count === 0) continue;
+
+        console.warn(`[Queue] Job ${job.id} for deployment ${deploymentId} was orphaned by worker ${job.lockedBy} (attempt ${job.attempts}/${MAX_JOB_ATTEMPTS}).`);
+
+        // Remove whatever the interrupted run left behind before retrying or giving up
+        await cleanUpDeploymentResources(job.deployment).catch((error: any) =>
+            console.error(`[Queue] Cleanup of orphaned deployment ${deploymentId} failed:`, error.message)
+        );
+
+        if (job.cancelRequestedAt) {
+            // Its worker went away before it could act on the cancellation
+            await prisma.deployment.update({ where: { id: deploymentId }, data: { status: 'cancelled', errorMessage: CANCELLED_MESSAGE } });
+            await finishOpenStages(deploymentId, CANCELLED_MESSAGE);
+            await prisma.deploymentJob.update({
+                where: { id: job.id },
+                data: { status: 'cancelled', lockedBy: null, lockedAt: null, lastError: CANCELLED_MESSAGE },
+            });
+            console.log(`[Queue] Marked deployment ${deploymentId} as cancelled.`);
+            await notifyDeploymentStatusChanged(deploymentId);
+        } else if (job.attempts < MAX_JOB_ATTEMPTS) {
+            await prisma.deployment.update({ where: { id: deploymentId }, data: { status: 'queued', errorMessage: null } });
+            await prisma.deploymentJob.update({
+                where: { id: job.id },
+                data: { status: 'queued', lockedBy: null, lockedAt: null, heartbeatAt: null, lastError: `Worker ${job.lockedBy} stopped responding.` },
+            });
+            console.log(`[Queue] Re-queued deployment ${deploymentId}.`);
+            await notifyDeploymentStatusChanged(deploymentId);
+        } else {
+            const message = `Deployment worker stopped responding ${job.attempts} times. Giving up.`;
+            await prisma.deployment.update({ where: { id: deploymentId }, data: { status: 'failed', errorMessage: message } });
+            await finishOpenStages(deploymentId, message);
+            await prisma.deploymentJob.update({
+                where: { id: job.id },
+                data: { status: 'failed', lockedBy: null, lockedAt: null, lastError: message },
+            });
+            console.log(`[Queue] Marked deployment ${deploymentId} as failed.`);
+            await notifyDeploymentStatusChanged(deploymentId);
         }
     }
-    // If the loop finishes, it means the queue is empty or the concurrency limit is reached.
-    console.log(`[Worker] Queue empty or concurrency limit reached. Worker pausing.`);
+
+    // Deployments created before the queue was persisted have no job row. Only look at
+    // old rows so a deployment whose job is being inserted right now is not caught.
+    const { count: untrackedCount } = await prisma.deployment.updateMany({
+        where: { status: { in: IN_PROGRESS_DEPLOYMENT_STATUSES }, job: null, createdAt: { lt: staleBefore } },
+        data: { status: 'failed', errorMessage: 'Deployment was interrupted by an API restart.' },
+    });
+    if (untrackedCount > 0) {
+        console.warn(`[Queue] Marked ${untrackedCount} untracked in-progress deployment(s) as failed.`);
+    }
 }
 
 /**
- * Adds a new deployment task to the in-memory queue.
- * The task will be picked up by the deployment worker when concurrency allows.
- * @param task An async function representing the deployment task (e.g., a function that calls processDeployment with specific parameters).
+ * Creates a queued deployment record for a project together with its queue job, in one write,
+ * and wakes the worker. This is the single entry point for starting a deployment, whether it
+ * comes from the dashboard, a redeploy or a Git webhook.
+ * The job will be picked up by a deployment worker (in this or another API instance) when concurrency allows.
+ * @param projectId The ID of the project to deploy.
+ * @param options.gitRef Branch or tag to deploy (repository default branch if omitted).
+ * @param options.commitSha Exact commit to deploy, if pinned.
+ * @returns The created deployment record.
+ * @throws QuotaExceededError if the project's owner may not start another deployment (see quotaService.ts).
  */
-function enqueueDeployment(task: () => Promise<void>) {
-    deploymentQueue.push(task);
-    console.log(`[Queue] Task added to queue. Queue size: ${deploymentQueue.length}`);
-    // Start the worker if it's not currently running at maximum capacity.
-    // This ensures the worker starts processing if there's a new task and a slot is free.
-    if (runningDeployments < MAX_CONCURRENT_DEPLOYMENTS) {
-        console.log(`[Queue] Concurrency available, scheduling worker to check queue.`);
+async function createDeployment(projectId: number, options: { gitRef?: string | null; commitSha?: string | null } = {}) {
+    const deployment = await prisma.$transaction(async (tx) => {
+        await assertDeploymentQuota(projectId, tx);
+        return tx.deployment.create({
+            data: {
+                projectId: projectId,
+                status: 'queued',
+                version: options.commitSha ?? 'TBD',
+                gitRef: options.gitRef ?? null,
+                commitSha: options.commitSha ?? null,
+                deploymentUrl: '',
+                // buildOutputPath and internalPort will be added/updated later
+                job: { create: {} },
+            },
+        });
+    });
+    console.log(`[Queue] Job added to queue for deployment ${deployment.id} (project ${projectId}).`);
+
+    if (runningDeployments < maxConcurrentDeployments) {
         setImmediate(deploymentWorker); // Schedule the worker to run soon
     } else {
-        console.log(`[Queue] Concurrency limit reached. Task queued, worker will pick it up when a slot is free.`);
+        console.log(`[Queue] Concurrency limit reached. Job queued, worker will pick it up when a slot is free.`);
     }
+    return deployment;
+}
+
+/**
+ * Cancels a deployment that has not finished yet.
+ * A queued deployment is taken off the queue and marked 'cancelled' right away. A running one is
+ * stopped by the worker running it: immediately if that is this process, otherwise at the worker's
+ * next heartbeat. The worker then kills its git/docker processes, removes what it created and marks
+ * the deployment 'cancelled'.
+ * @param deploymentId The ID of the deployment to cancel.
+ * @returns The deployment record ('cancelled', or still in its current stage until its worker has stopped).
+ * @throws Error if the deployment does not exist or has already finished.
+ */
+async function cancelDeployment(deploymentId: number) {
+    const deployment = await prisma.deployment.findUnique({ where: { id: deploymentId }, include: { job: true } });
+    if (!deployment) {
+        throw new Error(`Deployment ${deploymentId} not found.`);
+    }
+    if (!IN_PROGRESS_DEPLOYMENT_STATUSES.includes(deployment.status)) {
+        throw new Error(`Deployment ${deploymentId} is already ${deployment.status} and cannot be cancelled.`);
+    }
+
+    // Still queued (or from before the queue was persisted): no worker has it, so cancel it here
+    const { count: dequeued } = await prisma.deploymentJob.updateMany({
+        where: { deploymentId, status: 'queued' },
+        data: { status: 'cancelled', lastError: CANCELLED_MESSAGE },
+    });
+    if (dequeued > 0 || !deployment.job) {
+        const cancelled = await prisma.deployment.update({
+            where: { id: deploymentId },
+            data: { status: 'cancelled', errorMessage: CANCELLED_MESSAGE },
+        });
+        console.log(`[Queue] Cancelled queued deployment ${deploymentId}.`);
+        await notifyDeploymentStatusChanged(deploymentId);
+        return cancelled;
+    }
+
+    // Running: flag the job for whichever worker holds it, and stop it now if that is this process
+    await prisma.deploymentJob.updateMany({
+        where: { deploymentId, status: 'running' },
+        data: { cancelRequestedAt: new Date() },
+    });
+    const controller = runningJobControllers.get(deploymentId);
+    if (controller) {
+        controller.abort(new Error(CANCELLED_MESSAGE));
+        console.log(`[Queue] Stopping running deployment ${deploymentId}.`);
+    } else {
+        console.log(`[Queue] Cancellation of deployment ${deploymentId} requested from the worker running it.`);
+    }
+    return prisma.deployment.findUniqueOrThrow({ where: { id: deploymentId } });
+}
+
+/**
+ * Changes how many deployments this process runs at the same time.
+ * Raising the limit immediately lets the worker claim more queued jobs; lowering it
+ * lets running jobs finish and only affects what is claimed next.
+ * @param limit The new limit (must be a positive integer).
+ */
+function setMaxConcurrentDeployments(limit: number): void {
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error('Max concurrent deployments must be a positive integer.');
+    }
+    console.log(`[Queue] Max concurrent deployments changed from ${maxConcurrentDeployments} to ${limit}.`);
+    maxConcurrentDeployments = limit;
+    setImmediate(deploymentWorker);
+}
+
+function getMaxConcurrentDeployments(): number {
+    return maxConcurrentDeployments;
+}
+
+/**
+ * Recovers orphaned jobs and starts polling the queue. Call once at API startup.
+ */
+async function startDeploymentWorkers(): Promise<void> {
+    if (pollTimer) return;
+
+    try {
+        await recoverOrphanedDeployments();
+    } catch (error: any) {
+        console.error('[Queue] Startup recovery failed:', error.message);
+    }
+
+    pollTimer = setInterval(() => {
+        recoverOrphanedDeployments()
+            .catch((error: any) => console.error('[Queue] Recovery sweep failed:', error.message))
+            .finally(() => deploymentWorker());
+    }, QUEUE_POLL_INTERVAL_MS);
+
+    setImmediate(deploymentWorker);
 }
-// --- End In-Memory Deployment Queue and Worker ---
+// --- End Persistent Deployment Queue and Worker ---
 
-export { enqueueDeployment };
+export { createDeployment, cancelDeployment, startDeploymentWorkers, setMaxConcurrentDeployments, getMaxConcurrentDeployments };
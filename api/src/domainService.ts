@@ -0,0 +1,111 @@
+// src/domainService.ts
+
+import crypto from 'crypto';
+import { promises as dns } from 'dns';
+
+// Custom domains prove ownership with a TXT record on this label, or by pointing a CNAME at the project
+const VERIFICATION_RECORD_LABEL = '_next-live';
+const VERIFICATION_VALUE_PREFIX = 'next-live-verification=';
+
+const DOMAIN_NAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * The subset of `dns.promises` used for verification. Tests can replace it with `setDnsResolver`.
+ */
+export interface DnsResolver {
+    resolveTxt(hostname: string): Promise<string[][]>;
+    resolveCname(hostname: string): Promise<string[]>;
+}
+
+let dnsResolver: DnsResolver = dns;
+
+/**
+ * Replaces the resolver used by `verifyDomainOwnership`.
+ * @param resolver The resolver to use, e.g. a stub returning fixed records.
+ */
+export function setDnsResolver(resolver: DnsResolver): void {
+    dnsResolver = resolver;
+}
+
+/**
+ * Lowercases a domain name and strips a trailing dot, then validates it.
+ * @param domainName The domain name as entered by the user.
+ * @returns The normalized domain name.
+ * @throws Error with a user-facing message if the name is not a valid hostname or belongs to the platform.
+ */
+export function normalizeDomainName(domainName: string): string {
+    const normalized = domainName.trim().toLowerCase().replace(/\.$/, '');
+    if (!DOMAIN_NAME_PATTERN.test(normalized)) {
+        throw new Error(`"${domainName}" is not a valid domain name.`);
+    }
+    const platformDomain = process.env.YOUR_PLATFORM_URL?.toLowerCase();
+    if (platformDomain && (normalized === platformDomain || normalized.endsWith(`.${platformDomain}`))) {
+        throw new Error(`Domains under ${platformDomain} are managed by the platform and cannot be added.`);
+    }
+    return normalized;
+}
+
+/**
+ * Generates the random token a user publishes in DNS to prove they own a domain.
+ */
+export function generateVerificationToken(): string {
+    return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Describes the DNS records that verify a domain.
+ * @param domain The domain name and its verification token.
+ * @param cnameTarget Hostname the domain may point at instead (the project's production hostname), if it has one.
+ */
+export function getDomainVerification(domain: { domainName: string; verificationToken: string }, cnameTarget: string | null) {
+    return {
+        txtName: `${VERIFICATION_RECORD_LABEL}.${domain.domainName}`,
+        txtValue: `${VERIFICATION_VALUE_PREFIX}${domain.verificationToken}`,
+        cnameTarget,
+    };
+}
+
+/**
+ * Looks up a domain's DNS records and checks that they prove ownership: either the TXT record
+ * from `getDomainVerification`, or a CNAME on the domain itself pointing at `cnameTarget`.
+ * @param domain The domain name and its verification token.
+ * @param cnameTarget The project's production hostname, or null if it does not have one yet.
+ * @param resolver The resolver to use. Defaults to the one set with `setDnsResolver` (system DNS).
+ * @returns Which record matched, or null with the reason if neither did.
+ */
+export async function verifyDomainOwnership(
+    domain: { domainName: string; verificationToken: string },
+    cnameTarget: string | null,
+    resolver: DnsResolver = dnsResolver
+): Promise<{ verified: true; method: 'txt' | 'cname' } | { verified: false; reason: string }> {
+    const { txtName, txtValue } = getDomainVerification(domain, cnameTarget);
+    const problems: string[] = [];
+
+    try {
+        const records = await resolver.resolveTxt(txtName);
+        // A TXT record may be split into several strings; join them back together
+        if (records.some((chunks) => chunks.join('') === txtValue)) {
+            console.log(`[Domain Service] ${domain.domainName} verified by TXT record on ${txtName}.`);
+            return { verified: true, method: 'txt' };
+        }
+        problems.push(`TXT ${txtName} does not contain "${txtValue}"`);
+    } catch (error: any) {
+        problems.push(`TXT ${txtName}: ${error.code || error.message}`);
+    }
+
+    if (cnameTarget) {
+        const expectedTarget = cnameTarget.toLowerCase().replace(/\.$/, '');
+        try {
+            const targets = await resolver.resolveCname(domain.domainName);
+            if (targets.some((target) => target.toLowerCase().replace(/\.$/, '') === expectedTarget)) {
+                console.log(`[Domain Service] ${domain.domainName} verified by CNAME to ${expectedTarget}.`);
+                return { verified: true, method: 'cname' };
+            }
+            problems.push(`CNAME ${domain.domainName} points to ${targets.join(', ') || 'nothing'}, not ${expectedTarget}`);
+        } catch (error: any) {
+            problems.push(`CNAME ${domain.domainName}: ${error.code || error.message}`);
+        }
+    }
+
+    return { verified: false, reason: problems.join('; ') };
+}
@@ -0,0 +1,99 @@
+// src/envService.ts
+
+import crypto from 'crypto';
+import { PrismaClient, EnvironmentVariable } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Values are encrypted at rest with AES-256-GCM. The key is derived from ENV_ENCRYPTION_KEY,
+// which must stay the same for the lifetime of the database (changing it makes stored values unreadable).
+const ENCRYPTION_KEY_MATERIAL = process.env.ENV_ENCRYPTION_KEY || '';
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const ENCRYPTED_VALUE_PREFIX = 'v1';
+
+// Variables the platform sets itself; users cannot override them
+const RESERVED_KEYS = ['PORT', 'NODE_ENV'];
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function getEncryptionKey(): Buffer {
+    if (!ENCRYPTION_KEY_MATERIAL) {
+        throw new Error('ENV_ENCRYPTION_KEY is not configured on the server. Environment variables cannot be stored or read.');
+    }
+    return crypto.createHash('sha256').update(ENCRYPTION_KEY_MATERIAL).digest();
+}
+
+/**
+ * Encrypts a plaintext value for storage.
+ * @param plaintext The value to encrypt.
+ * @returns A string of the form `v1:<iv>:<authTag>:<ciphertext>` (base64 parts).
+ */
+export function encryptValue(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, getEncryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+    return [ENCRYPTED_VALUE_PREFIX, iv.toString('base64'), authTag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypts a value produced by `encryptValue`.
+ * @param encrypted The stored value.
+ * @returns The plaintext.
+ * @throws Error if the value is malformed or was encrypted with a different key.
+ */
+export function decryptValue(encrypted: string): string {
+    const [prefix, iv, authTag, ciphertext] = encrypted.split(':');
+    if (prefix !== ENCRYPTED_VALUE_PREFIX || !iv || !authTag || ciphertext === undefined) {
+        throw new Error('Stored environment variable value has an unknown format.');
+    }
+    const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, getEncryptionKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Validates an environment variable name.
+ * @throws Error with a user-facing message if the key is invalid or reserved.
+ */
+export function validateEnvironmentVariableKey(key: string): void {
+    if (!KEY_PATTERN.test(key)) {
+        throw new Error(`Invalid environment variable name "${key}". Use letters, digits and underscores, not starting with a digit.`);
+    }
+    if (RESERVED_KEYS.includes(key.toUpperCase())) {
+        throw new Error(`Environment variable "${key}" is set by the platform and cannot be overridden.`);
+    }
+}
+
+/**
+ * Shapes a stored variable for the GraphQL API. Secret values are never returned.
+ */
+export function toPublicEnvironmentVariable(variable: EnvironmentVariable) {
+    return {
+        id: variable.id,
+        projectId: variable.projectId,
+        key: variable.key,
+        value: variable.secret ? null : decryptValue(variable.encryptedValue),
+        secret: variable.secret,
+        scope: variable.scope,
+        createdAt: variable.createdAt,
+        updatedAt: variable.updatedAt,
+    };
+}
+
+/**
+ * Loads and decrypts a project's variables for one stage of a deployment.
+ * @param projectId The ID of the project.
+ * @param target 'build' for `docker build --build-arg`, 'runtime' for the application process env.
+ * @returns A map of variable names to plaintext values.
+ */
+export async function getProjectEnvironment(projectId: number, target: 'build' | 'runtime'): Promise<{ [key: string]: string }> {
+    const variables = await prisma.environmentVariable.findMany({
+        where: { projectId, scope: { in: [target, 'both'] } },
+        orderBy: { key: 'asc' },
+    });
+    const env: { [key: string]: string } = {};
+    for (const variable of variables) {
+        env[variable.key] = decryptValue(variable.encryptedValue);
+    }
+    return env;
+}
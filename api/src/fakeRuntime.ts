@@ -0,0 +1,170 @@
+// src/fakeRuntime.ts
+
+import http from 'http';
+import { ApplicationSpec, getInstanceName, RuntimeDriver, RuntimeLogLine, RuntimeMetrics } from './runtimeDriver';
+
+// --- Fake Runtime ---
+// Stands in for a real runtime in tests and local development: "starting" a deployment opens an HTTP
+// server inside the API process that answers every request with 200, so readiness probes, Nginx and
+// the health monitor see a working application. Nothing from the build output or image is run.
+// Each replica has its own server; the logs are kept per deployment, like the files PM2 writes.
+// State lives in memory and is lost when the API restarts.
+
+// Lines kept per application, like a log file rotated by size
+const FAKE_LOG_MAX_LINES = 1000;
+
+interface FakeApplication {
+    deploymentId: number;
+    server: http.Server;
+    port: number;
+    startedAt: number;
+    restarts: number;
+}
+
+interface FakeLog {
+    lines: RuntimeLogLine[];
+    followers: Set<(line: RuntimeLogLine) => void>;
+}
+
+// Keyed by instance name (see getInstanceName)
+const fakeApplications = new Map<string, FakeApplication>();
+// Keyed by deployment ID
+const fakeLogs = new Map<number, FakeLog>();
+
+/**
+ * Records a line of output for a deployment and hands it to anyone following its logs.
+ */
+function writeFakeLog(deploymentId: number, text: string, stream: RuntimeLogLine['stream'] = 'stdout'): void {
+    let log = fakeLogs.get(deploymentId);
+    if (!log) {
+        log = { lines: [], followers: new Set() };
+        fakeLogs.set(deploymentId, log);
+    }
+    const line: RuntimeLogLine = { timestamp: new Date().toISOString(), stream, text };
+    log.lines.push(line);
+    if (log.lines.length > FAKE_LOG_MAX_LINES) {
+        log.lines.splice(0, log.lines.length - FAKE_LOG_MAX_LINES);
+    }
+    log.followers.forEach((follower) => follower(line));
+}
+
+/**
+ * Opens a fake application for one of a deployment's replicas on a port, replacing the one the replica already has.
+ * @param app The deployment to start.
+ * @param port The port (on 127.0.0.1) to listen on.
+ * @param replica Which of the deployment's replicas to start.
+ * @throws Error if the port cannot be listened on.
+ */
+async function startFakeApplication(app: ApplicationSpec, port: number, replica: number = 0): Promise<void> {
+    const instanceName = getInstanceName(app.deploymentId, replica);
+    const previous = fakeApplications.get(instanceName);
+    await closeFakeApplication(instanceName);
+
+    const application: FakeApplication = {
+        deploymentId: app.deploymentId,
+        server: http.createServer((req, res) => {
+            writeFakeLog(app.deploymentId, `[${instanceName}] ${req.method} ${req.url} 200`);
+            res.writeHead(200, { 'Content-Type': 'text/plain' });
+            res.end(`Deployment ${app.deploymentId}, replica ${replica} (${app.buildType})\n`);
+        }),
+        port,
+        startedAt: Date.now(),
+        restarts: previous ? previous.restarts + 1 : 0,
+    };
+    await new Promise<void>((resolve, reject) => {
+        application.server.once('error', reject);
+        application.server.listen(port, '127.0.0.1', () => resolve());
+    });
+    fakeApplications.set(instanceName, application);
+    writeFakeLog(app.deploymentId, `[${instanceName}] Listening on 127.0.0.1:${port} (build type: ${app.buildType})`);
+    console.log(`[Fake Runtime] '${instanceName}' is answering on port ${port}.`);
+}
+
+/**
+ * Closes one fake application. A missing application is not an error.
+ * @param instanceName The name of the replica (see getInstanceName).
+ */
+async function closeFakeApplication(instanceName: string): Promise<void> {
+    const application = fakeApplications.get(instanceName);
+    if (!application) return;
+
+    fakeApplications.delete(instanceName);
+    await new Promise<void>((resolve) => {
+        application.server.close(() => resolve());
+        application.server.closeAllConnections(); // Keep-alive connections would hold the port
+    });
+    console.log(`[Fake Runtime] '${instanceName}' stopped.`);
+}
+
+/**
+ * Closes a deployment's fake applications. A missing application is not an error.
+ * @param deploymentId The ID of the deployment.
+ * @param replica The replica to close. Without it, every replica is closed.
+ */
+async function stopFakeApplication(deploymentId: number, replica?: number): Promise<void> {
+    const instanceNames = replica === undefined
+        ? [...fakeApplications.entries()].filter(([, application]) => application.deploymentId === deploymentId).map(([name]) => name)
+        : [getInstanceName(deploymentId, replica)];
+    for (const instanceName of instanceNames) {
+        await closeFakeApplication(instanceName);
+    }
+    if (replica === undefined) {
+        fakeLogs.delete(deploymentId); // Nothing of the deployment runs any more
+    }
+}
+
+/**
+ * Streams a deployment's fake output as it is written, starting from now.
+ * Yields batches of lines until the signal is aborted.
+ * @param deploymentId The ID of the deployment.
+ * @param signal Ends the stream, even while waiting for output.
+ */
+async function* followFakeLogs(deploymentId: number, signal: AbortSignal): AsyncGenerator<RuntimeLogLine[]> {
+    const log = fakeLogs.get(deploymentId);
+    if (!log) return;
+
+    let pending: RuntimeLogLine[] = [];
+    let wakeUp: (() => void) | null = null;
+    const follower = (line: RuntimeLogLine) => {
+        pending.push(line);
+        wakeUp?.();
+    };
+    const onAbort = () => wakeUp?.();
+    log.followers.add(follower);
+    signal.addEventListener('abort', onAbort);
+
+    try {
+        while (!signal.aborted) {
+            if (pending.length > 0) {
+                const batch = pending;
+                pending = [];
+                yield batch;
+                continue;
+            }
+            await new Promise<void>((resolve) => {
+                wakeUp = resolve;
+            });
+            wakeUp = null;
+        }
+    } finally {
+        signal.removeEventListener('abort', onAbort);
+        log.followers.delete(follower);
+    }
+}
+
+export const fakeDriver: RuntimeDriver = {
+    name: 'fake',
+    start: startFakeApplication,
+    stop: stopFakeApplication,
+    restart: startFakeApplication,
+    status: async (deploymentId: number, replica: number = 0) => (fakeApplications.has(getInstanceName(deploymentId, replica)) ? 'online' : null),
+    logs: async (deploymentId: number, tail: number) => fakeLogs.get(deploymentId)?.lines.slice(-tail) ?? [],
+    followLogs: followFakeLogs,
+    metrics: async (deploymentId: number, replica: number = 0): Promise<RuntimeMetrics | null> => {
+        const application = fakeApplications.get(getInstanceName(deploymentId, replica));
+        return application
+            ? { cpuPercent: 0, memoryBytes: 0, memoryLimitBytes: null, restarts: application.restarts, uptimeMs: Date.now() - application.startedAt }
+            : null;
+    },
+};
+// --- End Fake Runtime ---
@@ -4,7 +4,7 @@ import { PrismaClient } from '@prisma/client';
 import path from 'path';
 import fs from 'fs/promises';
 import os from 'os';
-import { createWriteStream, WriteStream } from 'fs';
+import { createDeploymentLogWriter, DeploymentLogWriter } from './deploymentLogs';
 
 const prisma = new PrismaClient();
 
@@ -16,14 +16,57 @@ function getAuthenticatedRepoUrl(repoUrl: string, token: string | null): string
     return repoUrl;
 }
 
+// Branch/tag names we accept: git's own rules are looser, but this keeps refs from being read as options
+const GIT_REF_PATTERN = /^(?!-)(?!.*\.\.)[A-Za-z0-9._\/-]+$/;
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+function isValidGitRef(ref: string): boolean {
+    return GIT_REF_PATTERN.test(ref) && !ref.endsWith('/') && !ref.endsWith('.lock');
+}
+
+function isValidCommitSha(sha: string): boolean {
+    return COMMIT_SHA_PATTERN.test(sha);
+}
+
+function getCloneDirectory(deploymentId: number | string): string {
+    return path.join(os.homedir(), '.next-live-clones', `deployment-${deploymentId}-repo`);
+}
+
 // get token from gitAccount using prima through userId
 
 
-async function cloneRepository(repoUrl: string, deploymentId: string,userId:number,  logFilePath: string): Promise<string> {
-    const homeDir = os.homedir();
-    const cloneDir = path.join(homeDir, '.next-live-clones', `deployment-${deploymentId}-repo`);
+/**
+ * Clones a repository for a deployment as a shallow (depth 1) clone.
+ * With `commitSha`, exactly that commit is fetched and checked out (falling back to a full fetch
+ * of `ref` or all branches if the server refuses to serve a single commit). With only `ref`,
+ * the tip of that branch or tag is cloned. With neither, the repository default branch is used.
+ * @param repoUrl The repository URL.
+ * @param deploymentId The ID of the deployment (used for the clone directory).
+ * @param userId The ID of the user whose Git account token is used.
+ * @param logFilePath Path to log file for appending clone logs.
+ * @param options.ref Branch or tag to deploy.
+ * @param options.commitSha Commit to deploy.
+ * @param options.signal Aborting it kills the running git process and rejects the clone.
+ * @returns The path of the checked-out repository.
+ */
+async function cloneRepository(
+    repoUrl: string,
+    deploymentId: string,
+    userId: number,
+    logFilePath: string,
+    options: { ref?: string | null; commitSha?: string | null; signal?: AbortSignal } = {}
+): Promise<string> {
+    const { ref, commitSha, signal } = options;
+    const cloneDir = getCloneDirectory(deploymentId);
     const destinationPath = path.join(cloneDir, 'repository');
-    let logStream: WriteStream | null = null;
+    let logStream: DeploymentLogWriter | null = null;
+
+    if (ref && !isValidGitRef(ref)) {
+        throw new Error(`Invalid Git ref: ${ref}`);
+    }
+    if (commitSha && !isValidCommitSha(commitSha)) {
+        throw new Error(`Invalid commit SHA: ${commitSha}`);
+    }
     
     // Fetch the token from the database or set it to null if not found or any error occurs dont catch the error
     let accessToken: string | null = null;
@@ -42,10 +85,10 @@ async function cloneRepository(repoUrl: string, deploymentId: string,userId:numb
     
 
     try {
-        await fs.mkdir(path.dirname(logFilePath), { recursive: true });
-        logStream = createWriteStream(logFilePath, { flags: 'a' });
+        logStream = await createDeploymentLogWriter(logFilePath, 'clone');
         logStream.write(`--- Git Clone Started: ${new Date().toISOString()} ---\n`);
         logStream.write(`Original URL: ${repoUrl}\n`);
+        logStream.write(`Ref: ${ref || '(default branch)'}${commitSha ? `, commit: ${commitSha}` : ''}\n`);
         // logStream.write(`Authenticated URL: ${authenticatedRepoUrl}\n`);
         logStream.write(`Using token: ****${accessToken?.slice(-4)}\n`);
     } catch (streamErr: any) {
@@ -56,12 +99,34 @@ async function cloneRepository(repoUrl: string, deploymentId: string,userId:numb
 
     process.env.SIMPLE_GIT_DEBUG = 'true';
     const git: SimpleGit = simpleGit({
-        timeout: { block: 6000 }
+        timeout: { block: 6000 },
+        abort: signal,
     });
 
     try {
         await fs.mkdir(cloneDir, { recursive: true });
-        await git.clone(authenticatedRepoUrl, destinationPath);
+        // A retried deployment may find a partial clone from an interrupted run
+        await fs.rm(destinationPath, { recursive: true, force: true });
+
+        if (commitSha) {
+            await fs.mkdir(destinationPath, { recursive: true });
+            const repoGit: SimpleGit = simpleGit(destinationPath, { timeout: { block: 6000 }, abort: signal });
+            await repoGit.init();
+            await repoGit.addRemote('origin', authenticatedRepoUrl);
+            try {
+                // Servers that allow fetching reachable commits by SHA (e.g. GitHub) let us stay shallow
+                await repoGit.fetch(['--depth', '1', 'origin', commitSha]);
+                await repoGit.checkout(['--detach', 'FETCH_HEAD']);
+            } catch (shallowError: any) {
+                if (logStream) logStream.write(`Shallow fetch of ${commitSha} failed (${shallowError.message}). Fetching full history.\n`);
+                await repoGit.fetch(ref ? ['origin', ref] : ['origin']);
+                await repoGit.checkout(['--detach', commitSha]);
+            }
+        } else {
+            const cloneArgs = ['--depth', '1'];
+            if (ref) cloneArgs.push('--branch', ref);
+            await git.clone(authenticatedRepoUrl, destinationPath, cloneArgs);
+        }
         
         if (logStream) {
             logStream.write(`Repo cloned successfully\n`);
@@ -69,17 +134,49 @@ async function cloneRepository(repoUrl: string, deploymentId: string,userId:numb
         }
         return destinationPath;
     } catch (error: any) {
-        // Error handling remains the same
-        throw new Error(`Git clone failed: ${error.message}`);
+        // Git errors can echo the remote URL, which contains the access token
+        const message = accessToken ? error.message.split(accessToken).join('****') : error.message;
+        if (signal?.aborted) {
+            if (logStream) {
+                logStream.write(`Git clone cancelled.\n`);
+                logStream.end();
+            }
+            throw signal.reason;
+        }
+        if (logStream) {
+            logStream.stderr.write(`Git clone failed: ${message}\n`);
+            logStream.end();
+        }
+        throw new Error(`Git clone failed: ${message}`);
+    }
+}
+
+/**
+ * Reads the HEAD commit of a cloned repository.
+ * @param repoPath Path to the cloned repository.
+ * @returns The commit SHA, subject line, author name and commit timestamp.
+ * @throws Error if the repository has no commits or git fails.
+ */
+async function getHeadCommit(repoPath: string): Promise<{ sha: string; message: string; author: string; timestamp: Date }> {
+    const git: SimpleGit = simpleGit(repoPath);
+    const log = await git.log({ maxCount: 1 });
+    const head = log.latest;
+    if (!head) {
+        throw new Error(`No commits found in repository at ${repoPath}`);
     }
+    return {
+        sha: head.hash,
+        message: head.message, // simple-git puts only the subject line here; the rest is in `body`
+        author: head.author_name,
+        timestamp: new Date(head.date),
+    };
 }
 
 async function cleanUpCloneDirectory(cloneDir: string, logFilePath: string): Promise<void> {
     console.log(`Cleaning up clone directory: ${cloneDir}`);
-    let logStream: WriteStream | null = null;
+    let logStream: DeploymentLogWriter | null = null;
     try {
-        await fs.mkdir(path.dirname(logFilePath), { recursive: true });
-        logStream = createWriteStream(logFilePath, { flags: 'a' });
+        logStream = await createDeploymentLogWriter(logFilePath, 'clone');
         logStream.write(`--- Git Cleanup Started: ${new Date().toISOString()} ---\n`);
         logStream.write(`Attempting to clean up clone directory: ${cloneDir}\n`);
     } catch (streamErr: any) {
@@ -100,11 +197,11 @@ async function cleanUpCloneDirectory(cloneDir: string, logFilePath: string): Pro
     } catch (error: any) {
         console.error(`Failed to clean up clone directory ${cloneDir}:`, error);
         if (logStream) {
-            logStream.write(`Failed to clean up clone directory ${cloneDir}: ${error.message}\n`);
+            logStream.stderr.write(`Failed to clean up clone directory ${cloneDir}: ${error.message}\n`);
             logStream.write(`--- Git Cleanup Failed: ${new Date().toISOString()} ---\n`);
             logStream.end();
         }
     }
 }
 
-export { cloneRepository, cleanUpCloneDirectory };
\ No newline at end of file
+export { cloneRepository, cleanUpCloneDirectory, getHeadCommit, getCloneDirectory, isValidGitRef, isValidCommitSha };
\ No newline at end of file
@@ -0,0 +1,253 @@
+// src/healthMonitor.ts
+
+import { PrismaClient, Deployment, Project } from '@prisma/client';
+import { getApplicationStatus, getDeploymentPorts, getReadinessProbe, probeApplication, restartApplication } from './servingService';
+import { ensureDeploymentServing, getDeploymentApplication } from './releaseService';
+import { getDeploymentRuntime, getRuntimeDriver } from './runtimeDriver';
+
+const prisma = new PrismaClient();
+
+// --- Liveness Monitor ---
+// Every ready deployment is checked periodically: each of its replicas must be online in its runtime and answer one request
+// of its project's readiness probe. A deployment with a replica down gets an incident and that replica is restarted, with
+// an exponential backoff between restarts, until a check passes again.
+// Every API instance runs the monitor. An instance claims a check by bumping the deployment's
+// healthCheckedAt, so each deployment is checked by only one of them per interval.
+
+const MONITOR_INTERVAL_MS = parseInt(process.env.HEALTH_MONITOR_INTERVAL_MS || '', 10) || 30_000;
+// Failed requests in a row before an application whose process is online counts as down
+const FAILURES_BEFORE_INCIDENT = 2;
+const RESTART_BACKOFF_BASE_MS = 10_000;
+const RESTART_BACKOFF_MAX_MS = 10 * 60 * 1000;
+// Period the uptime of deploymentHealth is computed over
+const UPTIME_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INCIDENT_LIMIT = 50;
+const MAX_INCIDENT_LIMIT = 500;
+
+let monitorTimer: NodeJS.Timeout | null = null;
+let sweepRunning = false;
+
+/**
+ * Records a passing check: the deployment is healthy, its backoff is reset and any open incident resolved.
+ */
+async function markHealthy(deployment: Deployment): Promise<void> {
+    await prisma.deployment.update({
+        where: { id: deployment.id },
+        data: { healthStatus: 'healthy', consecutiveHealthFailures: 0, restartAttempts: 0, nextRestartAt: null },
+    });
+    const { count } = await prisma.deploymentIncident.updateMany({
+        where: { deploymentId: deployment.id, resolvedAt: null },
+        data: { resolvedAt: new Date() },
+    });
+    if (count > 0) {
+        console.log(`[Health Monitor] Deployment ${deployment.id} is healthy again.`);
+    }
+}
+
+/**
+ * Checks one deployment and acts on the result: resolves its incident if it is healthy,
+ * otherwise opens an incident and restarts it once its backoff allows.
+ * @param deployment The deployment to check, with its project (for the probe settings).
+ */
+async function checkDeployment(deployment: Deployment & { project: Project }): Promise<void> {
+    const deploymentId = deployment.id;
+    const runtime = getDeploymentRuntime(deployment.runtime);
+    const probe = getReadinessProbe(deployment.project);
+    let ports = getDeploymentPorts(deployment);
+    let processDown = false;
+    let problem: string | null = null;
+    const hungReplicas: number[] = []; // Online but not answering
+    for (let replica = 0; replica < ports.length; replica++) {
+        const label = ports.length > 1 ? `Replica ${replica}` : 'Application';
+        const processStatus = await getApplicationStatus(deploymentId, runtime, replica);
+        if (processStatus !== 'online') {
+            processDown = true;
+            problem ??= `${label} (${runtime}) is ${processStatus ?? 'not running'}`;
+            continue;
+        }
+        const probeProblem = (await probeApplication(ports[replica], probe)).problem;
+        if (probeProblem) {
+            hungReplicas.push(replica);
+            problem ??= ports.length > 1 ? `${label}: ${probeProblem}` : probeProblem;
+        }
+    }
+
+    if (!problem) {
+        await markHealthy(deployment);
+        return;
+    }
+
+    const failures = deployment.consecutiveHealthFailures + 1;
+    console.warn(`[Health Monitor] Check of deployment ${deploymentId} failed (${failures} in a row): ${problem}`);
+    if (!processDown && failures < FAILURES_BEFORE_INCIDENT) {
+        await prisma.deployment.update({ where: { id: deploymentId }, data: { consecutiveHealthFailures: failures } });
+        return;
+    }
+
+    let incident = await prisma.deploymentIncident.findFirst({ where: { deploymentId, resolvedAt: null } });
+    if (!incident) {
+        incident = await prisma.deploymentIncident.create({ data: { deploymentId, reason: problem } });
+        console.warn(`[Health Monitor] Deployment ${deploymentId} is down. Opened incident ${incident.id}.`);
+    }
+
+    const now = Date.now();
+    if (deployment.nextRestartAt && deployment.nextRestartAt.getTime() > now) {
+        await prisma.deployment.update({
+            where: { id: deploymentId },
+            data: { healthStatus: 'unhealthy', consecutiveHealthFailures: failures },
+        });
+        console.log(`[Health Monitor] Next restart of deployment ${deploymentId} at ${deployment.nextRestartAt.toISOString()}.`);
+        return;
+    }
+
+    const backoffMs = Math.min(RESTART_BACKOFF_BASE_MS * 2 ** deployment.restartAttempts, RESTART_BACKOFF_MAX_MS);
+    await prisma.deployment.update({
+        where: { id: deploymentId },
+        data: {
+            healthStatus: 'unhealthy',
+            consecutiveHealthFailures: failures,
+            restartAttempts: { increment: 1 },
+            nextRestartAt: new Date(now + backoffMs),
+        },
+    });
+    await prisma.deploymentIncident.update({ where: { id: incident.id }, data: { restarts: { increment: 1 } } });
+
+    console.log(`[Health Monitor] Restarting deployment ${deploymentId} (restart ${deployment.restartAttempts + 1}).`);
+    try {
+        if (processDown) {
+            // Brings back the replicas that are down, on new ports if theirs were taken
+            const { internalPort, replicaPorts } = await ensureDeploymentServing(deployment);
+            ports = [internalPort, ...replicaPorts];
+        }
+        if (hungReplicas.length > 0) {
+            // Online but not answering: replace the processes on the ports the proxy points at
+            const application = await getDeploymentApplication(deployment);
+            for (const replica of hungReplicas) {
+                await restartApplication(application, runtime, ports[replica], replica);
+            }
+        }
+        console.log(`[Health Monitor] Deployment ${deploymentId} restarted on port(s) ${ports.join(', ')}.`);
+    } catch (error: any) {
+        console.error(`[Health Monitor] Restart of deployment ${deploymentId} failed (next attempt in ${backoffMs}ms):`, error.message);
+    }
+}
+
+/**
+ * Checks every ready deployment that no other instance has checked within the interval.
+ * A failure for one deployment is logged and does not stop the others.
+ */
+export async function monitorDeployments(): Promise<void> {
+    // A little slack so a claim made just before this sweep does not skip a whole interval
+    const checkedBefore = new Date(Date.now() - MONITOR_INTERVAL_MS * 0.9);
+    const deployments = await prisma.deployment.findMany({
+        where: {
+            status: 'ready',
+            internalPort: { not: null },
+            buildOutputPath: { not: null },
+            OR: [{ healthCheckedAt: null }, { healthCheckedAt: { lt: checkedBefore } }],
+        },
+        include: { project: true },
+    });
+
+    for (const deployment of deployments) {
+        const { count } = await prisma.deployment.updateMany({
+            where: { id: deployment.id, status: 'ready', healthCheckedAt: deployment.healthCheckedAt },
+            data: { healthCheckedAt: new Date() },
+        });
+        if (count === 0) continue; // Claimed by another instance, or no longer ready
+
+        try {
+            await checkDeployment(deployment);
+        } catch (error: any) {
+            console.error(`[Health Monitor] Could not check deployment ${deployment.id}:`, error.message);
+        }
+    }
+}
+
+/**
+ * Runs a monitoring sweep now and then periodically. Call once at API startup.
+ */
+export function startHealthMonitor(): void {
+    if (monitorTimer) return;
+
+    const sweep = () => {
+        if (sweepRunning) return; // Probes can be slow; never run two sweeps at once
+        sweepRunning = true;
+        monitorDeployments()
+            .catch((error: any) => console.error('[Health Monitor] Sweep failed:', error.message))
+            .finally(() => {
+                sweepRunning = false;
+            });
+    };
+    monitorTimer = setInterval(sweep, MONITOR_INTERVAL_MS);
+    setImmediate(sweep);
+    console.log(`[Health Monitor] Checking ready deployments every ${MONITOR_INTERVAL_MS}ms.`);
+}
+
+/**
+ * Reports how a deployment has been doing since it went live.
+ * @param deploymentId The ID of the deployment.
+ * @param options.limit Maximum number of incidents to return, newest first (default 50, at most 500).
+ * @returns The last check's result, the application's status and resource usage right now (of the first replica,
+ *          and of each replica under `replicas`), the uptime over the last 24 hours (or since the deployment
+ *          was created, if later) and its incidents.
+ * @throws Error if the deployment does not exist.
+ */
+export async function getDeploymentHealth(deploymentId: number, options: { limit?: number | null } = {}) {
+    const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_INCIDENT_LIMIT), MAX_INCIDENT_LIMIT);
+    const deployment = await prisma.deployment.findUnique({ where: { id: deploymentId } });
+    if (!deployment) {
+        throw new Error(`Deployment ${deploymentId} not found.`);
+    }
+
+    const now = Date.now();
+    const windowStart = Math.max(now - UPTIME_WINDOW_MS, deployment.createdAt.getTime());
+    const incidents = await prisma.deploymentIncident.findMany({
+        where: { deploymentId },
+        orderBy: { startedAt: 'desc' },
+        take: limit,
+    });
+    // Incidents overlapping the window, including ones beyond the returned page
+    const windowIncidents = await prisma.deploymentIncident.findMany({
+        where: { deploymentId, OR: [{ resolvedAt: null }, { resolvedAt: { gt: new Date(windowStart) } }] },
+        select: { startedAt: true, resolvedAt: true },
+    });
+    const downtimeMs = windowIncidents.reduce((total, incident) => {
+        const start = Math.max(incident.startedAt.getTime(), windowStart);
+        const end = incident.resolvedAt?.getTime() ?? now;
+        return total + Math.max(0, end - start);
+    }, 0);
+    const windowMs = now - windowStart;
+
+    const runtime = getDeploymentRuntime(deployment.runtime);
+    const ports = getDeploymentPorts(deployment);
+    const replicas = [];
+    for (let replica = 0; replica < Math.max(1, ports.length); replica++) {
+        const processStatus = await getApplicationStatus(deploymentId, runtime, replica).catch((error: any) => {
+            console.error(`[Health Monitor] Could not read process status of replica ${replica} of deployment ${deploymentId}:`, error.message);
+            return null;
+        });
+        const metrics = await getRuntimeDriver(runtime).metrics(deploymentId, replica).catch((error: any) => {
+            console.error(`[Health Monitor] Could not read metrics of replica ${replica} of deployment ${deploymentId}:`, error.message);
+            return null;
+        });
+        replicas.push({ replica, port: ports[replica] ?? null, processStatus, metrics });
+    }
+
+    return {
+        deploymentId,
+        status: deployment.healthStatus,
+        processStatus: replicas[0].processStatus,
+        runtime,
+        metrics: replicas[0].metrics,
+        replicas,
+        lastCheckedAt: deployment.healthCheckedAt,
+        restartAttempts: deployment.restartAttempts,
+        uptimePercent: windowMs > 0 ? Math.max(0, 100 * (1 - downtimeMs / windowMs)) : 100,
+        incidents: incidents.map((incident) => ({
+            ...incident,
+            durationMs: (incident.resolvedAt?.getTime() ?? now) - incident.startedAt.getTime(),
+        })),
+    };
+}
+// --- End Liveness Monitor ---
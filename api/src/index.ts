@@ -4,10 +4,18 @@ import fs from 'fs';
 import path from 'path';
 import resolvers from './resolvers';
 import express, { Request, Response } from 'express';
-import { buildProjectImage } from './buildService'; 
+import { findSigningProjects, handleGitHubWebhook } from './webhookService';
+import { startDeploymentWorkers } from './deploymentQueue';
+import { startCertificateRenewal } from './certificateService';
+import { startRuntimeLogRotation } from './runtimeLogService';
+import { startHealthMonitor } from './healthMonitor';
+import { startPortReconciliation } from './portRegistry';
+import { startDeploymentEventListener } from './deploymentEvents';
 import { PrismaClient } from '@prisma/client';
 import { makeExecutableSchema } from '@graphql-tools/schema';
 import jwt from 'jsonwebtoken';
+import { WebSocketServer } from 'ws';
+import { useServer } from 'graphql-ws/lib/use/ws';
 
 const prisma = new PrismaClient();
  const JWT_SECRET = process.env.JWT_SECRET || 'your_secret_key';
@@ -20,24 +28,35 @@ const prisma = new PrismaClient();
  let schema = makeExecutableSchema({ typeDefs, resolvers });
 
 const app = express();
-app.use(express.json());
+// Keep the raw body around: webhook signatures are computed over the exact bytes received
+app.use(express.json({
+  limit: '5mb',
+  verify: (req, _res, buf) => {
+    (req as Request & { rawBody?: Buffer }).rawBody = buf;
+  },
+}));
+
+
+// Resolves the user from an `Authorization: Bearer <token>` value (HTTP header or WebSocket connection param)
+const getUserIdFromAuthorization = (authHeader: string): number | null => {
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  let userId: number | null = null;
 
+  if (token) {
+    try {
+      const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
+      userId = decoded.userId;
+    } catch (error) {
+      console.warn('Invalid or expired token');
+    }
+  }
+  return userId;
+};
 
 const server = new ApolloServer({
   schema,
   context: async ({ req }) => {
-    const authHeader = req.headers.authorization || '';
-    const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null;
-    let userId: number | null = null;
-
-    if (token) {
-      try {
-        const decoded = jwt.verify(token, JWT_SECRET) as { userId: number };
-        userId = decoded.userId;
-      } catch (error) {
-        console.warn('Invalid or expired token');
-      }
-    }
+    const userId = getUserIdFromAuthorization(req.headers.authorization || '');
     return { prisma, userId }; // Make userId available in the context
   },
 });
@@ -47,8 +66,34 @@ console.log(`Attempting to start server on port: ${port}`);
 
 
 
-server.listen({ port }).then(({ url }) => {
+server.listen({ port }).then(({ url, server: httpServer }) => {
   console.log(`Server ready at ${url}`);
+  // Subscriptions use the graphql-ws protocol on the same port
+  const wsServer = new WebSocketServer({ server: httpServer });
+  useServer(
+    {
+      schema,
+      context: async (ctx) => {
+        const authorization = ctx.connectionParams?.authorization;
+        const userId = getUserIdFromAuthorization(typeof authorization === 'string' ? authorization : '');
+        return { prisma, userId };
+      },
+    },
+    wsServer
+  );
+  console.log(`Subscriptions ready at ${url.replace(/^http/, 'ws')}`);
+  // Relay deployment status changes (from any instance) to subscribers of this one
+  startDeploymentEventListener();
+  // Recover deployments orphaned by a previous crash/restart and start claiming queued jobs
+  startDeploymentWorkers();
+  // Issue missing certificates for custom domains and renew those close to expiry
+  startCertificateRenewal();
+  // Keep the runtime logs PM2 writes for each deployment from growing without bound
+  startRuntimeLogRotation();
+  // Check live deployments and restart the ones that went down
+  startHealthMonitor();
+  // Compare port leases with the ports actually listened on
+  startPortReconciliation();
   // The webhook is currently listening on a separate hardcoded port (3001).
   // If deploying to a single container, you'll need to integrate this webhook
   // into the main Express app listening on the PORT environment variable.
@@ -58,18 +103,30 @@ server.listen({ port }).then(({ url }) => {
 });
 
 app.post('/webhook', async (req: Request, res: Response) => {
-  const payload = req.body;
-  const projectId = 1; 
-  const repoPath = path.join(__dirname, 'repositories', projectId.toString());
-  const buildOutputPath = path.join(__dirname, 'builds', projectId.toString());
-  try {
+  const rawBody = (req as Request & { rawBody?: Buffer }).rawBody;
+  const signature = req.header('X-Hub-Signature-256');
+  const event = req.header('X-GitHub-Event');
+  const deliveryId = req.header('X-GitHub-Delivery');
+
+  if (!event || !deliveryId) {
+    res.status(400).json({ error: 'Missing X-GitHub-Event or X-GitHub-Delivery header' });
+    return;
+  }
 
-    await buildProjectImage(repoPath, buildOutputPath, 'logFilePath'); 
-    console.log('Project build success');
-    res.sendStatus(200);
-  } catch (e) {
-    console.log('Project build failed');
-    res.sendStatus(500);
+  try {
+    // Only a project's own webhook secret lets a delivery act on it
+    const signingProjects = rawBody ? await findSigningProjects(rawBody, signature, req.body) : [];
+    if (signingProjects.length === 0) {
+      console.warn(`Rejected webhook delivery ${deliveryId}: invalid signature`);
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+    const result = await handleGitHubWebhook(deliveryId, event, req.body, signingProjects);
+    console.log(`Webhook delivery ${deliveryId} (${event}) handled:`, result);
+    res.status(result.outcome === 'deployed' ? 202 : 200).json(result);
+  } catch (e: any) {
+    console.error(`Webhook delivery ${deliveryId} failed:`, e.message);
+    res.status(500).json({ error: 'Failed to handle webhook' });
   }
 });
 
@@ -0,0 +1,501 @@
+// src/pm2Runtime.ts
+
+import path from 'path';
+import pm2 from 'pm2';
+import fs from 'fs/promises';
+import { setTimeout } from 'timers/promises';
+import { readLogChunk } from './deploymentEvents';
+import { BuildType, getFrameworkPreset } from './buildPresets';
+import { ApplicationSpec, getInstanceName, RuntimeDriver, RuntimeLogLine, RuntimeMetrics } from './runtimeDriver';
+import { getRuntimeLogPaths } from './utils';
+
+// --- PM2 Runtime ---
+// Runs a deployment's extracted build output with the host's Node.js as one PM2 process per replica,
+// named `deploy-<id>` and `deploy-<id>-<replica>` (see getInstanceName). PM2 writes the stdout and stderr
+// of all of them to the deployment's files (see getRuntimeLogPaths), prefixing output with a timestamp;
+// runtimeLogService rotates them.
+
+// PM2's static file server, used for the build output of static framework presets (see buildPresets.ts)
+const PM2_STATIC_SERVER_SCRIPT = path.join(path.dirname(require.resolve('pm2/package.json')), 'lib', 'API', 'Serve.js');
+
+// PM2 prefixes runtime log output with `<timestamp>: `
+const RUNTIME_LOG_DATE_FORMAT = 'YYYY-MM-DDTHH:mm:ss.SSSZ';
+// How much of each file is read to answer a runtimeLogs query
+const READ_WINDOW_BYTES = 1024 * 1024;
+// Rotation renames the files, so followers poll instead of watching them
+const FOLLOW_POLL_INTERVAL_MS = 1000;
+
+// `<timestamp>: <text>`, where the timestamp is PM2's log_date_format (e.g. 2025-05-19T09:00:00.000+00:00)
+const RUNTIME_LOG_LINE_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})): (.*)$/;
+
+/**
+ * Starts the application process using PM2.
+ * Adapts the start command based on the build type: 'standalone' or 'classic' for Next.js,
+ * otherwise the start command of the framework preset the deployment was built with.
+ * @param buildOutputPath The path to the extracted build artifacts.
+ * @param port The internal port the application should listen on.
+ * @param deploymentId The ID of the deployment for naming the PM2 process.
+ * @param buildType 'standalone' or 'classic' for a Next.js build, or the id of a framework preset.
+ * @param appEnv Project runtime environment variables (PORT and NODE_ENV always take precedence).
+ * @param memoryLimitMb PM2 restarts the process when it uses more memory than this. PM2 cannot limit CPU or disk.
+ * @param replica Which of the deployment's replicas this process is (names the process).
+ * @returns A promise that resolves when PM2 has successfully started the process.
+ * @throws Error if PM2 fails to start the process or prerequisites are missing.
+ */
+async function startApplicationWithPm2(
+    buildOutputPath: string,
+    port: number,
+    deploymentId: number,
+    buildType: BuildType,
+    appEnv: { [key: string]: string } = {},
+    memoryLimitMb?: number,
+    replica: number = 0
+): Promise<void> {
+    const processName = getInstanceName(deploymentId, replica); // PM2 process name
+    const runtimeLogPaths = getRuntimeLogPaths(deploymentId);
+    let scriptToRun: string; // The command or script PM2 will execute
+    let pm2Args: string[] | undefined; // Arguments for the script, if any
+    let startEnv: { [key: string]: string } = {}; // Environment the start command itself needs
+
+    console.log(`[PM2 Runtime] Preparing to start application for deployment ${deploymentId} (type: ${buildType}) using PM2.`);
+
+    if (buildType === 'standalone') {
+        scriptToRun = path.join(buildOutputPath, 'server.js'); // Standard entry for Next.js standalone
+        try {
+            await fs.access(scriptToRun, fs.constants.F_OK); // Check if server.js exists
+            console.log(`[PM2 Runtime] Standalone entry point '${scriptToRun}' found.`);
+        } catch (error) {
+            console.error(`[PM2 Runtime] Standalone entry point 'server.js' not found at: ${scriptToRun}`);
+            throw new Error(`Application entry point 'server.js' not found at expected path for standalone build: ${scriptToRun}`);
+        }
+    } else if (buildType === 'classic') {
+        // For classic 'next start', PM2 executes 'next' (or a path to it) with 'start' as an argument.
+        // Prerequisites: package.json and .next folder must exist in buildOutputPath.
+        scriptToRun = 'node_modules/.bin/next'; // Path to 'next' executable within node_modules
+        pm2Args = ['start'];                  // Argument for the 'next' command
+
+        const packageJsonPath = path.join(buildOutputPath, 'package.json');
+        const dotNextPath = path.join(buildOutputPath, '.next');
+        try {
+            await fs.access(packageJsonPath, fs.constants.F_OK); // Check for package.json
+            await fs.access(dotNextPath, fs.constants.F_OK);     // Check for .next directory
+            console.log(`[PM2 Runtime] Prerequisites for 'next start' (package.json, .next folder) found in '${buildOutputPath}'.`);
+            console.log(`[PM2 Runtime] PM2 will run: script='${scriptToRun}', args='${pm2Args.join(' ')}'`);
+        } catch (error: any) {
+            console.error(`[PM2 Runtime] Required files for 'next start' (package.json or .next folder) not found in '${buildOutputPath}': ${error.message}`);
+            throw new Error(`Classic Next.js build output is incomplete in '${buildOutputPath}'. Cannot find package.json or .next folder.`);
+        }
+    } else {
+        const preset = getFrameworkPreset(buildType);
+        if (!preset) {
+            throw new Error(`Unknown build type '${buildType}' for deployment ${deploymentId}.`);
+        }
+        const { start } = preset;
+        let requiredPath: string;
+        if (start.kind === 'static') {
+            scriptToRun = PM2_STATIC_SERVER_SCRIPT;
+            startEnv = { PM2_SERVE_PATH: buildOutputPath, PM2_SERVE_PORT: port.toString(), PM2_SERVE_SPA: String(start.spa) };
+            requiredPath = path.join(buildOutputPath, 'index.html');
+        } else if (start.kind === 'npm') {
+            scriptToRun = 'npm';
+            pm2Args = ['run', start.script];
+            requiredPath = path.join(buildOutputPath, 'package.json');
+        } else {
+            scriptToRun = start.script;
+            pm2Args = start.args;
+            requiredPath = path.join(buildOutputPath, start.script);
+        }
+
+        try {
+            await fs.access(requiredPath, fs.constants.F_OK);
+            console.log(`[PM2 Runtime] ${preset.name} build output found. PM2 will run: script='${scriptToRun}', args='${(pm2Args ?? []).join(' ')}'`);
+        } catch (error) {
+            console.error(`[PM2 Runtime] '${path.relative(buildOutputPath, requiredPath)}' not found in the ${preset.name} build output at '${buildOutputPath}'.`);
+            throw new Error(`${preset.name} build output is incomplete in '${buildOutputPath}'. Cannot find ${path.relative(buildOutputPath, requiredPath)}.`);
+        }
+    }
+
+    // Configuration for PM2 start
+    const pm2Config: pm2.StartOptions = {
+        script: scriptToRun,
+        args: pm2Args, // Arguments for the script (e.g., 'start' for 'next')
+        name: processName,
+        cwd: buildOutputPath, // Set working directory for the PM2 process
+        env: {
+            ...appEnv, // Project runtime environment variables
+            ...startEnv,
+            PORT: port.toString(), // Pass the assigned port as an environment variable
+            NODE_ENV: 'production', // Ensure production environment for Next.js
+        },
+        watch: false, // Do not watch files for changes in production deployments
+        instances: 1, // One process per replica, each on its own port behind Nginx
+        exec_mode: 'fork', // Suitable for both 'node server.js' and 'next start'
+        ...(memoryLimitMb ? { max_memory_restart: `${memoryLimitMb}M` } : {}),
+        // Runtime output, read back by the runtimeLogs query. Rotated by runtimeLogService.
+        output: runtimeLogPaths.outputPath,
+        error: runtimeLogPaths.errorPath,
+        log_date_format: RUNTIME_LOG_DATE_FORMAT,
+        // pid: path.join(buildOutputPath, `../pm2-pid-${deploymentId}.pid`),
+    };
+
+    console.log(`[PM2 Runtime] Connecting to PM2 daemon to start process '${processName}' on port ${port}...`);
+    // Mask environment values: project variables may contain secrets
+    const printableEnv = Object.fromEntries(Object.keys(pm2Config.env || {}).map((key) => [key, '****']));
+    console.log(`[PM2 Runtime] PM2 start configuration:`, JSON.stringify({ ...pm2Config, env: printableEnv }, null, 2));
+
+    return new Promise<void>((resolve, reject) => {
+        pm2.connect((connectErr) => {
+            if (connectErr) {
+                console.error('[PM2 Runtime] Error connecting to PM2 daemon:', connectErr);
+                return reject(new Error(`Failed to connect to PM2 daemon: ${connectErr.message}`));
+            }
+            console.log('[PM2 Runtime] Successfully connected to PM2 daemon.');
+
+            // It's good practice to delete any existing process with the same name before starting
+            pm2.delete(processName, (deleteErr) => {
+                if (deleteErr && !deleteErr.message.toLowerCase().includes("doesn't exist") && !deleteErr.message.toLowerCase().includes("not found")) {
+                    // Log error if it's not "process not found"
+                    console.warn(`[PM2 Runtime] PM2 delete warning for '${processName}': ${deleteErr.message}. Proceeding with start...`);
+                } else if (deleteErr) {
+                    console.log(`[PM2 Runtime] PM2 process '${processName}' not found or already deleted. Proceeding with start...`);
+                } else {
+                    console.log(`[PM2 Runtime] Successfully deleted existing PM2 process '${processName}' (if any).`);
+                }
+
+                // Start the new process
+                pm2.start(pm2Config, (startErr, apps) => {
+                    pm2.disconnect(); // Disconnect from PM2 after the start attempt
+                    if (startErr) {
+                        console.error(`[PM2 Runtime] Failed to start PM2 process '${processName}':`, startErr);
+                        return reject(new Error(`Failed to start application process '${processName}' with PM2: ${startErr.message}`));
+                    }
+                    // @ts-ignore
+                    if (!apps || apps.length === 0 || !apps[0]?.pm2_env?.status || apps[0].pm2_env.status !== 'online') {
+                      // @ts-ignore
+                        const appStatus = apps && apps[0]?.pm2_env?.status ? apps[0].pm2_env.status : 'unknown';
+                        console.error(`[PM2 Runtime] PM2 started process '${processName}', but it's not 'online' (status: ${appStatus}). Check PM2 logs for details.`);
+                        // You might want to check `pm2 logs ${processName}` for application errors.
+                        return reject(new Error(`PM2 process '${processName}' started but is not online (status: ${appStatus}). Check PM2 logs.`));
+                    }
+                    // @ts-ignore
+                    console.log(`[PM2 Runtime] PM2 process '${processName}' (PM2 ID: ${apps[0]?.pm_id}) started successfully and is online.`);
+                    resolve();
+                });
+            });
+        });
+    });
+}
+
+/**
+ * Lists the names of the PM2 processes of all of a deployment's replicas.
+ * @param deploymentId The ID of the deployment.
+ * @throws Error if the PM2 daemon cannot be reached.
+ */
+async function listPm2ProcessNames(deploymentId: number): Promise<string[]> {
+    const firstName = getInstanceName(deploymentId, 0);
+    const replicaNamePattern = new RegExp(`^${firstName}-\\d+$`);
+
+    return new Promise<string[]>((resolve, reject) => {
+        pm2.connect((connectErr) => {
+            if (connectErr) {
+                console.error('[PM2 Runtime] Error connecting to PM2 daemon:', connectErr);
+                return reject(new Error(`Failed to connect to PM2 daemon: ${connectErr.message}`));
+            }
+
+            pm2.list((listErr, processes) => {
+                pm2.disconnect();
+                if (listErr) {
+                    return reject(new Error(`Failed to list PM2 processes: ${listErr.message}`));
+                }
+                const names = (processes ?? [])
+                    .map((description) => description.name ?? '')
+                    .filter((name) => name === firstName || replicaNamePattern.test(name));
+                resolve([...new Set(names)]);
+            });
+        });
+    });
+}
+
+/**
+ * Stops and removes the PM2 processes belonging to a deployment.
+ * A missing process is not treated as an error, so this is safe to call during cleanup.
+ * @param deploymentId The ID of the deployment whose processes should be removed.
+ * @param replica The replica to remove. Without it, every replica is removed.
+ * @returns A promise that resolves once PM2 no longer knows about the processes.
+ * @throws Error if the PM2 daemon cannot be reached or a delete fails for another reason.
+ */
+async function stopPm2Process(deploymentId: number, replica?: number): Promise<void> {
+    const processNames = replica === undefined ? await listPm2ProcessNames(deploymentId) : [getInstanceName(deploymentId, replica)];
+    for (const processName of processNames) {
+        await deletePm2Process(processName);
+    }
+}
+
+/**
+ * Deletes one PM2 process. A missing process is not an error.
+ * @param processName The name of the process.
+ * @throws Error if the PM2 daemon cannot be reached or the delete fails for another reason.
+ */
+async function deletePm2Process(processName: string): Promise<void> {
+    console.log(`[PM2 Runtime] Stopping PM2 process '${processName}'...`);
+
+    return new Promise<void>((resolve, reject) => {
+        pm2.connect((connectErr) => {
+            if (connectErr) {
+                console.error('[PM2 Runtime] Error connecting to PM2 daemon:', connectErr);
+                return reject(new Error(`Failed to connect to PM2 daemon: ${connectErr.message}`));
+            }
+
+            pm2.delete(processName, (deleteErr) => {
+                pm2.disconnect();
+                if (deleteErr) {
+                    const message = deleteErr.message.toLowerCase();
+                    if (message.includes("doesn't exist") || message.includes('not found')) {
+                        console.log(`[PM2 Runtime] PM2 process '${processName}' not found. Nothing to stop.`);
+                        return resolve();
+                    }
+                    console.error(`[PM2 Runtime] Failed to delete PM2 process '${processName}':`, deleteErr);
+                    return reject(new Error(`Failed to stop application process '${processName}': ${deleteErr.message}`));
+                }
+                console.log(`[PM2 Runtime] PM2 process '${processName}' stopped and removed.`);
+                resolve();
+            });
+        });
+    });
+}
+
+/**
+ * Reads the PM2 status of a deployment's process.
+ * @param deploymentId The ID of the deployment.
+ * @param replica Which replica's process to read (the first by default).
+ * @returns The PM2 status (e.g. 'online', 'stopped', 'errored'), or null if PM2 has no such process.
+ * @throws Error if the PM2 daemon cannot be reached.
+ */
+async function getPm2ProcessStatus(deploymentId: number, replica: number = 0): Promise<string | null> {
+    const processName = getInstanceName(deploymentId, replica);
+
+    return new Promise<string | null>((resolve, reject) => {
+        pm2.connect((connectErr) => {
+            if (connectErr) {
+                console.error('[PM2 Runtime] Error connecting to PM2 daemon:', connectErr);
+                return reject(new Error(`Failed to connect to PM2 daemon: ${connectErr.message}`));
+            }
+
+            pm2.describe(processName, (describeErr, processes) => {
+                pm2.disconnect();
+                if (describeErr) {
+                    return reject(new Error(`Failed to read status of '${processName}': ${describeErr.message}`));
+                }
+                const status = processes?.[0]?.pm2_env?.status;
+                resolve(status ?? null);
+            });
+        });
+    });
+}
+
+// pm2's types leave out the memory limit a process was started with (and do not export Pm2Env itself)
+interface Pm2EnvWithMemoryLimit extends NonNullable<pm2.ProcessDescription['pm2_env']> {
+    max_memory_restart?: number; // Bytes
+}
+
+/**
+ * Reads the resource usage PM2 measures for a deployment's process.
+ * @param deploymentId The ID of the deployment.
+ * @param replica Which replica's process to read (the first by default).
+ * @returns The metrics, or null if PM2 has no such process.
+ * @throws Error if the PM2 daemon cannot be reached.
+ */
+async function getPm2ProcessMetrics(deploymentId: number, replica: number = 0): Promise<RuntimeMetrics | null> {
+    const processName = getInstanceName(deploymentId, replica);
+
+    return new Promise<RuntimeMetrics | null>((resolve, reject) => {
+        pm2.connect((connectErr) => {
+            if (connectErr) {
+                return reject(new Error(`Failed to connect to PM2 daemon: ${connectErr.message}`));
+            }
+
+            pm2.describe(processName, (describeErr, processes) => {
+                pm2.disconnect();
+                if (describeErr) {
+                    return reject(new Error(`Failed to read metrics of '${processName}': ${describeErr.message}`));
+                }
+                const description = processes?.[0];
+                if (!description) {
+                    return resolve(null);
+                }
+                const pm2Env = description.pm2_env as Pm2EnvWithMemoryLimit | undefined;
+                const online = pm2Env?.status === 'online';
+                const startedAt = pm2Env?.pm_uptime;
+                resolve({
+                    cpuPercent: description.monit?.cpu ?? 0,
+                    memoryBytes: description.monit?.memory ?? 0,
+                    // PM2 restarts the process above max_memory_restart rather than capping its memory
+                    memoryLimitBytes: pm2Env?.max_memory_restart ?? null,
+                    restarts: pm2Env?.restart_time ?? 0,
+                    uptimeMs: online && startedAt ? Date.now() - startedAt : null,
+                });
+            });
+        });
+    });
+}
+
+/**
+ * Splits runtime log text into lines. PM2 only timestamps the start of each write,
+ * so lines without a timestamp take the one of the line before.
+ * @param text Whole lines of one log file.
+ * @param stream Which stream the file holds.
+ * @param previousTimestamp Timestamp of the line just before the text, if known.
+ */
+function parseRuntimeLogLines(text: string, stream: RuntimeLogLine['stream'], previousTimestamp: string | null = null): RuntimeLogLine[] {
+    const lines: RuntimeLogLine[] = [];
+    let timestamp = previousTimestamp;
+    for (const rawLine of text.split('\n')) {
+        if (!rawLine) continue;
+        const match = RUNTIME_LOG_LINE_PATTERN.exec(rawLine);
+        if (match) {
+            const date = new Date(match[1]);
+            timestamp = Number.isNaN(date.getTime()) ? timestamp : date.toISOString();
+        }
+        lines.push({ timestamp, stream, text: (match ? match[2] : rawLine).replace(/\r$/, '') });
+    }
+    return lines;
+}
+
+/**
+ * Reads the end of a log file, starting at a line break.
+ * @param filePath The log file.
+ * @param maxBytes How much to read at most.
+ * @returns The text, or '' if the file does not exist.
+ */
+async function readFileTail(filePath: string, maxBytes: number): Promise<string> {
+    let file: fs.FileHandle;
+    try {
+        file = await fs.open(filePath, 'r');
+    } catch {
+        return '';
+    }
+
+    try {
+        const { size } = await file.stat();
+        const start = Math.max(0, size - maxBytes);
+        const buffer = Buffer.alloc(size - start);
+        const { bytesRead } = await file.read(buffer, 0, buffer.length, start);
+        let text = buffer.subarray(0, bytesRead).toString('utf8');
+        if (start > 0) {
+            // Drop the line cut off at the start of the window
+            text = text.slice(text.indexOf('\n') + 1);
+        }
+        return text;
+    } finally {
+        await file.close();
+    }
+}
+
+/**
+ * Reads one stream's most recent lines, from the current file and, if needed, the last rotated one.
+ */
+async function readRuntimeStream(filePath: string, stream: RuntimeLogLine['stream'], minimumLines: number): Promise<RuntimeLogLine[]> {
+    const lines = parseRuntimeLogLines(await readFileTail(filePath, READ_WINDOW_BYTES), stream);
+    if (lines.length >= minimumLines) {
+        return lines;
+    }
+    const rotated = parseRuntimeLogLines(await readFileTail(`${filePath}.1`, READ_WINDOW_BYTES), stream);
+    // Continuation lines at the top of the current file belong to the last write of the rotated one
+    const lastRotatedTimestamp = rotated.length > 0 ? rotated[rotated.length - 1].timestamp : null;
+    return [...rotated, ...lines.map((line) => (line.timestamp ? line : { ...line, timestamp: lastRotatedTimestamp }))];
+}
+
+/**
+ * Reads a deployment's most recent output from its PM2 log files, stdout and stderr merged in time order.
+ * @param deploymentId The ID of the deployment.
+ * @param tail Number of lines to read at least from each stream, if the files have them.
+ */
+async function readPm2Logs(deploymentId: number, tail: number): Promise<RuntimeLogLine[]> {
+    const { outputPath, errorPath } = getRuntimeLogPaths(deploymentId);
+    const [stdoutLines, stderrLines] = await Promise.all([
+        readRuntimeStream(outputPath, 'stdout', tail),
+        readRuntimeStream(errorPath, 'stderr', tail),
+    ]);
+    // Stable sort keeps each stream's own order for lines with the same timestamp
+    return [...stdoutLines, ...stderrLines].sort((a, b) => (a.timestamp ?? '').localeCompare(b.timestamp ?? ''));
+}
+
+/**
+ * Streams a deployment's output from its PM2 log files as it is written, starting from now.
+ * Yields batches of lines; polls until the signal is aborted.
+ * @param deploymentId The ID of the deployment.
+ * @param signal Ends the stream, including a poll interval already being waited out.
+ */
+async function* followPm2Logs(deploymentId: number, signal: AbortSignal): AsyncGenerator<RuntimeLogLine[]> {
+    const { outputPath, errorPath } = getRuntimeLogPaths(deploymentId);
+    const streams = [
+        { filePath: outputPath, stream: 'stdout' as const, offset: 0, lastTimestamp: null as string | null },
+        { filePath: errorPath, stream: 'stderr' as const, offset: 0, lastTimestamp: null as string | null },
+    ];
+    for (const followed of streams) {
+        followed.offset = await fs.stat(followed.filePath).then((stats) => stats.size, () => 0);
+    }
+
+    while (!signal.aborted) {
+        const batch: RuntimeLogLine[] = [];
+        for (const followed of streams) {
+            const size = await fs.stat(followed.filePath).then((stats) => stats.size, () => 0);
+            if (size < followed.offset) {
+                followed.offset = 0; // Rotated: a new file was started
+            }
+
+            let chunk = await readLogChunk(followed.filePath, followed.offset, false);
+            while (chunk) {
+                followed.offset = chunk.nextOffset;
+                const lines = parseRuntimeLogLines(chunk.content, followed.stream, followed.lastTimestamp);
+                if (lines.length > 0) followed.lastTimestamp = lines[lines.length - 1].timestamp;
+                batch.push(...lines);
+                chunk = await readLogChunk(followed.filePath, followed.offset, false);
+            }
+        }
+
+        if (batch.length > 0) {
+            yield batch.sort((a, b) => (a.timestamp ?? '').localeCompare(b.timestamp ?? ''));
+        }
+        await setTimeout(FOLLOW_POLL_INTERVAL_MS, undefined, { signal }).catch(() => undefined); // Rejects once aborted
+    }
+}
+
+/**
+ * Makes PM2 reopen the log files of all its processes, e.g. after they were rotated (renamed).
+ * @returns A promise that resolves once PM2 writes to the files at their configured paths again.
+ * @throws Error if the PM2 daemon cannot be reached or the reload fails.
+ */
+export async function reopenApplicationLogs(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        pm2.connect((connectErr) => {
+            if (connectErr) {
+                console.error('[PM2 Runtime] Error connecting to PM2 daemon:', connectErr);
+                return reject(new Error(`Failed to connect to PM2 daemon: ${connectErr.message}`));
+            }
+
+            pm2.reloadLogs((reloadErr) => {
+                pm2.disconnect();
+                if (reloadErr) {
+                    return reject(new Error(`Failed to reopen PM2 log files: ${reloadErr.message}`));
+                }
+                resolve();
+            });
+        });
+    });
+}
+
+export const pm2Driver: RuntimeDriver = {
+    name: 'pm2',
+    start: (app: ApplicationSpec, port: number, replica: number) =>
+        startApplicationWithPm2(app.buildOutputPath, port, app.deploymentId, app.buildType, app.env, app.limits.memoryMb, replica),
+    stop: stopPm2Process,
+    // Starting deletes the old process first, so a restart keeps the port
+    restart: (app: ApplicationSpec, port: number, replica: number) =>
+        startApplicationWithPm2(app.buildOutputPath, port, app.deploymentId, app.buildType, app.env, app.limits.memoryMb, replica),
+    status: getPm2ProcessStatus,
+    logs: readPm2Logs,
+    followLogs: followPm2Logs,
+    metrics: getPm2ProcessMetrics,
+};
+// --- End PM2 Runtime ---
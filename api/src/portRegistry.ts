@@ -0,0 +1,216 @@
+// src/portRegistry.ts
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import fs from 'fs/promises';
+
+const prisma = new PrismaClient();
+
+// --- Port Registry ---
+// Every internal port a deployment's replica listens on is leased in the PortLease table, so concurrent
+// deployments (on any API instance) can never be handed the same port. A lease is taken inside a
+// serializable transaction and kept while the deployment exists, even if its application is stopped,
+// so a restart by the health monitor or a rollback gets the same port back. Leases are released when a
+// replica is scaled away, a deployment fails or is torn down, and by deleting the deployment.
+// A reconciliation job compares the leases with the ports actually listened on (read from
+// /proc/net/tcp{,6}, without binding anything): it releases leftovers of deployments that can no longer
+// run and reserves ports something unregistered listens on, so they are not handed out.
+
+const DEPLOYMENT_PORT_RANGE_START = 4001;
+const DEPLOYMENT_PORT_RANGE_END = 4999;
+// Transactions that lost a race for a port are retried this often
+const MAX_ALLOCATION_ATTEMPTS = 5;
+const RECONCILE_INTERVAL_MS = parseInt(process.env.PORT_RECONCILE_INTERVAL_MS || '', 10) || 5 * 60 * 1000;
+// Leases younger than this are never released: their application may still be starting
+const STALE_LEASE_GRACE_MS = 10 * 60 * 1000;
+// Connection state of listening sockets in /proc/net/tcp
+const TCP_LISTEN_STATE = '0A';
+
+let reconcileTimer: NodeJS.Timeout | null = null;
+
+const isInPortRange = (port: number): boolean => port >= DEPLOYMENT_PORT_RANGE_START && port <= DEPLOYMENT_PORT_RANGE_END;
+
+/**
+ * Leases a port for one of a deployment's replicas. A replica that already holds a lease gets its port back.
+ * @param deploymentId The ID of the deployment.
+ * @param replica The replica that will listen on the port.
+ * @param preferredPort A port to take if it is not leased, e.g. the one the replica used before leases were recorded.
+ * @returns The leased port.
+ * @throws Error if every port in the range is leased.
+ */
+export async function leasePort(deploymentId: number, replica: number, preferredPort?: number | null): Promise<number> {
+    for (let attempt = 1; attempt <= MAX_ALLOCATION_ATTEMPTS; attempt++) {
+        try {
+            return await prisma.$transaction(
+                async (tx) => {
+                    const existing = await tx.portLease.findFirst({ where: { deploymentId, replica } });
+                    if (existing) {
+                        return existing.port;
+                    }
+
+                    const leased = new Set((await tx.portLease.findMany({ select: { port: true } })).map((lease) => lease.port));
+                    let port: number | null = preferredPort && isInPortRange(preferredPort) && !leased.has(preferredPort) ? preferredPort : null;
+                    for (let candidate = DEPLOYMENT_PORT_RANGE_START; port === null && candidate <= DEPLOYMENT_PORT_RANGE_END; candidate++) {
+                        if (!leased.has(candidate)) {
+                            port = candidate;
+                        }
+                    }
+                    if (port === null) {
+                        throw new Error(`[Port Registry] No free ports left in range ${DEPLOYMENT_PORT_RANGE_START}-${DEPLOYMENT_PORT_RANGE_END}`);
+                    }
+
+                    await tx.portLease.create({ data: { port, deploymentId, replica } });
+                    console.log(`[Port Registry] Leased port ${port} to replica ${replica} of deployment ${deploymentId}.`);
+                    return port;
+                },
+                { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+            );
+        } catch (error: any) {
+            // P2002: another transaction took the port first; P2034: serialization failure
+            if (error instanceof Prisma.PrismaClientKnownRequestError && (error.code === 'P2002' || error.code === 'P2034')) {
+                console.log(`[Port Registry] Port allocation for deployment ${deploymentId} conflicted with another (attempt ${attempt}/${MAX_ALLOCATION_ATTEMPTS}).`);
+                continue;
+            }
+            throw error;
+        }
+    }
+    throw new Error(`Could not lease a port for replica ${replica} of deployment ${deploymentId}: too many concurrent allocations.`);
+}
+
+/**
+ * Releases the port of one of a deployment's replicas. Releasing a port that is not leased is not an error.
+ * @param deploymentId The ID of the deployment.
+ * @param replica The replica whose port to release.
+ */
+export async function releasePort(deploymentId: number, replica: number): Promise<void> {
+    const { count } = await prisma.portLease.deleteMany({ where: { deploymentId, replica } });
+    if (count > 0) {
+        console.log(`[Port Registry] Released the port of replica ${replica} of deployment ${deploymentId}.`);
+    }
+}
+
+/**
+ * Releases every port a deployment holds. Call once nothing of the deployment runs any more.
+ * @param deploymentId The ID of the deployment.
+ */
+export async function releaseDeploymentPorts(deploymentId: number): Promise<void> {
+    const { count } = await prisma.portLease.deleteMany({ where: { deploymentId } });
+    if (count > 0) {
+        console.log(`[Port Registry] Released ${count} port(s) of deployment ${deploymentId}.`);
+    }
+}
+
+/**
+ * Reads which ports of the deployment range are listened on, from the kernel's socket tables.
+ * @returns The ports, or null if the tables cannot be read (e.g. not on Linux).
+ */
+async function getListeningPorts(): Promise<Set<number> | null> {
+    const ports = new Set<number>();
+    let readAny = false;
+    for (const table of ['/proc/net/tcp', '/proc/net/tcp6']) {
+        let content: string;
+        try {
+            content = await fs.readFile(table, 'utf-8');
+        } catch {
+            continue; // tcp6 is missing without IPv6
+        }
+        readAny = true;
+        // `sl local_address rem_address st ...`, where local_address is `<hex address>:<hex port>`
+        for (const line of content.split('\n').slice(1)) {
+            const [, localAddress, , state] = line.trim().split(/\s+/);
+            if (state !== TCP_LISTEN_STATE || !localAddress) continue;
+            const port = parseInt(localAddress.split(':')[1], 16);
+            if (isInPortRange(port)) {
+                ports.add(port);
+            }
+        }
+    }
+    return readAny ? ports : null;
+}
+
+/**
+ * Compares the port leases with the ports actually listened on and repairs what it can:
+ * - releases leases of failed and cancelled deployments, and leases a ready deployment no longer uses,
+ *   once nothing listens on them;
+ * - releases reservations of ports nothing listens on any more;
+ * - records leases for ports a ready deployment listens on without one (deployments from before leases were
+ *   recorded), and reserves ports anything else listens on;
+ * - reports ready deployments whose leased port nothing listens on (the health monitor restarts them).
+ * @returns What was changed or found.
+ */
+export async function reconcilePortLeases(): Promise<{ released: number[]; reserved: number[]; adopted: number[]; notListening: number[] }> {
+    const result = { released: [] as number[], reserved: [] as number[], adopted: [] as number[], notListening: [] as number[] };
+    const listening = await getListeningPorts();
+    if (!listening) {
+        console.warn('[Port Registry] Cannot read listening sockets on this system. Skipping reconciliation.');
+        return result;
+    }
+
+    const staleBefore = Date.now() - STALE_LEASE_GRACE_MS;
+    const leases = await prisma.portLease.findMany({
+        include: { deployment: { select: { status: true, internalPort: true, replicaPorts: true } } },
+    });
+    for (const lease of leases) {
+        const isListening = listening.has(lease.port);
+        if (!lease.deployment) {
+            if (!isListening) {
+                await prisma.portLease.deleteMany({ where: { port: lease.port, deploymentId: null } });
+                result.released.push(lease.port);
+            }
+            continue;
+        }
+
+        const { status, internalPort, replicaPorts } = lease.deployment;
+        const deploymentPorts = internalPort ? [internalPort, ...replicaPorts] : [];
+        const inUse = status === 'ready' && lease.replica !== null && deploymentPorts[lease.replica] === lease.port;
+        const finished = status === 'failed' || status === 'cancelled' || status === 'ready';
+        if (inUse) {
+            if (!isListening) {
+                result.notListening.push(lease.port);
+            }
+        } else if (finished && !isListening && lease.leasedAt.getTime() < staleBefore) {
+            await prisma.portLease.deleteMany({ where: { port: lease.port, deploymentId: lease.deploymentId } });
+            result.released.push(lease.port);
+        } else if (finished && isListening) {
+            console.warn(`[Port Registry] Port ${lease.port} is leased to ${status} deployment ${lease.deploymentId}, which no longer uses it, but something still listens on it.`);
+        }
+    }
+
+    const leasedPorts = new Set(leases.map((lease) => lease.port));
+    const unleased = [...listening].filter((port) => !leasedPorts.has(port));
+    if (unleased.length > 0) {
+        const owners = await prisma.deployment.findMany({
+            where: { status: 'ready', OR: [{ internalPort: { in: unleased } }, { replicaPorts: { hasSome: unleased } }] },
+            select: { id: true, internalPort: true, replicaPorts: true },
+        });
+        for (const port of unleased) {
+            const owner = owners.find((deployment) => deployment.internalPort === port || deployment.replicaPorts.includes(port));
+            const replica = owner ? [owner.internalPort, ...owner.replicaPorts].indexOf(port) : null;
+            try {
+                await prisma.portLease.create({ data: { port, deploymentId: owner?.id ?? null, replica } });
+                (owner ? result.adopted : result.reserved).push(port);
+            } catch (error: any) {
+                // Leased in the meantime, or the replica holds another port: leave it to the next run
+                if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+            }
+        }
+    }
+
+    if (result.released.length > 0) console.log(`[Port Registry] Released stale leases of port(s) ${result.released.join(', ')}.`);
+    if (result.adopted.length > 0) console.log(`[Port Registry] Recorded leases for port(s) ${result.adopted.join(', ')} of running deployments.`);
+    if (result.reserved.length > 0) console.warn(`[Port Registry] Reserved port(s) ${result.reserved.join(', ')}: something unregistered listens on them.`);
+    if (result.notListening.length > 0) console.warn(`[Port Registry] Nothing listens on leased port(s) ${result.notListening.join(', ')} of ready deployments.`);
+    return result;
+}
+
+/**
+ * Runs a reconciliation now and then periodically. Call once at API startup.
+ */
+export function startPortReconciliation(): void {
+    if (reconcileTimer) return;
+
+    const sweep = () =>
+        reconcilePortLeases().catch((error: any) => console.error('[Port Registry] Reconciliation failed:', error.message));
+    reconcileTimer = setInterval(sweep, RECONCILE_INTERVAL_MS);
+    setImmediate(sweep);
+}
+// --- End Port Registry ---
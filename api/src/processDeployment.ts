@@ -1,14 +1,21 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, DeploymentStageName } from '@prisma/client';
 import path from 'path';
 import fs from 'fs/promises';
-import os from 'os';
-import { cleanUpCloneDirectory, cloneRepository } from './gitService'; // Assuming these are in gitService.ts
-import { buildProjectImage, extractBuildArtifacts, DockerfileSource } from './buildService'; // buildService.ts
-import { startApplication } from './servingService'; // servingService.ts
-import { configureNginxForDeployment } from './proxyService'; // proxyService.ts
+import { cleanUpCloneDirectory, cloneRepository, getHeadCommit, getCloneDirectory } from './gitService'; // Assuming these are in gitService.ts
+import { buildProjectImage, extractBuildArtifacts, removeProjectImage, getBuildType, getBuildSliceName, getImageSize, DockerfileSource } from './buildService'; // buildService.ts
+import { getReadinessProbe, startApplication, stopApplication, waitForApplicationHealthy } from './servingService'; // servingService.ts
+import { DEFAULT_RUNTIME, getDeploymentRuntime, resolveProjectRuntime, RuntimeName } from './runtimeDriver';
+import { configureNginxForDeployment, removeNginxConfigForDeployment } from './proxyService'; // proxyService.ts
+import { releaseDeploymentPorts } from './portRegistry';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { sanitizeForSubdomain } from './utils';
+import { getProjectEnvironment } from './envService';
+import { promoteDeployment } from './releaseService';
+import { getBuildCacheOptions, recordBuildCacheUsage } from './buildCacheService';
+import { notifyDeploymentStatusChanged } from './deploymentEvents';
+import { appendDeploymentLog, DeploymentLogStage } from './deploymentLogs';
+import { getProjectLimits, recordDeploymentDiskUsage } from './quotaService';
+import { sanitizeForSubdomain, getDeploymentWorkingDir, getDeploymentImageName, getDirectorySize, IN_PROGRESS_DEPLOYMENT_STATUSES } from './utils';
 
 const execPromise = promisify(exec);
 
@@ -20,28 +27,156 @@ const prisma = new PrismaClient();
 // If it's not set, the script assumes a development environment.
 const yourPlatformUrl = process.env.YOUR_PLATFORM_URL || null;
 
+/**
+ * Everything a deployment does through the database, git, Docker, the runtime and Nginx.
+ * The worker runs deployments with `defaultDeploymentSteps`; tests pass fakes instead.
+ */
+interface DeploymentSteps {
+    prisma: PrismaClient;
+    changeOwner(dirPath: string): Promise<{ stdout: string; stderr: string }>; // Hands the build output to UID 1001
+    cloneRepository: typeof cloneRepository;
+    getHeadCommit: typeof getHeadCommit;
+    cleanUpCloneDirectory: typeof cleanUpCloneDirectory;
+    getProjectEnvironment: typeof getProjectEnvironment;
+    getBuildCacheOptions: typeof getBuildCacheOptions;
+    recordBuildCacheUsage: typeof recordBuildCacheUsage;
+    buildProjectImage: typeof buildProjectImage;
+    extractBuildArtifacts: typeof extractBuildArtifacts;
+    getImageSize: typeof getImageSize;
+    recordDeploymentDiskUsage: typeof recordDeploymentDiskUsage;
+    removeProjectImage: typeof removeProjectImage;
+    startApplication: typeof startApplication;
+    waitForApplicationHealthy: typeof waitForApplicationHealthy;
+    stopApplication: typeof stopApplication;
+    configureNginxForDeployment: typeof configureNginxForDeployment;
+    removeNginxConfigForDeployment: typeof removeNginxConfigForDeployment;
+    promoteDeployment: typeof promoteDeployment;
+    releaseDeploymentPorts: typeof releaseDeploymentPorts;
+    notifyDeploymentStatusChanged: typeof notifyDeploymentStatusChanged;
+}
+
+const defaultDeploymentSteps: DeploymentSteps = {
+    prisma,
+    changeOwner: (dirPath) => execPromise(`sudo chown -R 1001:1001 ${dirPath}`),
+    cloneRepository,
+    getHeadCommit,
+    cleanUpCloneDirectory,
+    getProjectEnvironment,
+    getBuildCacheOptions,
+    recordBuildCacheUsage,
+    buildProjectImage,
+    extractBuildArtifacts,
+    getImageSize,
+    recordDeploymentDiskUsage,
+    removeProjectImage,
+    startApplication,
+    waitForApplicationHealthy,
+    stopApplication,
+    configureNginxForDeployment,
+    removeNginxConfigForDeployment,
+    promoteDeployment,
+    releaseDeploymentPorts,
+    notifyDeploymentStatusChanged,
+};
+
+/**
+ * Moves a deployment into its next stage: ends the stage that was running, records the start
+ * of the new one in "DeploymentStage" and sets the deployment's status to the stage's name.
+ * @param deploymentId The ID of the deployment.
+ * @param stage The stage that starts now.
+ * @param steps The deployment's database and notifications.
+ */
+async function startStage(deploymentId: number, stage: DeploymentStageName, steps: DeploymentSteps): Promise<void> {
+    const { prisma } = steps;
+    const now = new Date();
+    await prisma.$transaction([
+        prisma.deploymentStage.updateMany({ where: { deploymentId, finishedAt: null }, data: { finishedAt: now } }),
+        prisma.deploymentStage.upsert({
+            where: { deploymentId_name: { deploymentId, name: stage } },
+            create: { deploymentId, name: stage, startedAt: now },
+            update: { startedAt: now, finishedAt: null, error: null },
+        }),
+        prisma.deployment.update({ where: { id: deploymentId }, data: { status: stage } }),
+    ]);
+    console.log(`[Deployment ${deploymentId}] Stage '${stage}' started.`);
+    await steps.notifyDeploymentStatusChanged(deploymentId);
+}
+
+/**
+ * Records the end of whichever stage of a deployment is still running.
+ * Never throws: a missing end time only affects the timeline, not the deployment.
+ * @param deploymentId The ID of the deployment.
+ * @param error Why the stage ended early, if it failed or was cancelled.
+ * @param client The database client (the module's own by default).
+ */
+async function finishOpenStages(deploymentId: number, error: string | null = null, client: PrismaClient = prisma): Promise<void> {
+    try {
+        await client.deploymentStage.updateMany({
+            where: { deploymentId, finishedAt: null },
+            data: { finishedAt: new Date(), error },
+        });
+    } catch (dbError: any) {
+        console.error(`[Deployment ${deploymentId}] Failed to record the end of its running stage:`, dbError.message);
+    }
+}
+
+/**
+ * Records that a deployment run ended without going live: ends its running stage, sets its final status
+ * and notifies subscribers. Its disk usage is cleared, since the caller removes its image and build output,
+ * so a failed and a cancelled run leave the owner's quota usage alike.
+ * Never throws: the run is over either way.
+ * @param deploymentId The ID of the deployment.
+ * @param status 'failed' or 'cancelled'.
+ * @param errorMessage Why the run ended.
+ * @param data Other fields to record, e.g. the Dockerfile that was used.
+ * @param steps The deployment's database and notifications.
+ */
+async function discardDeploymentRun(
+    deploymentId: number,
+    status: 'failed' | 'cancelled',
+    errorMessage: string | null,
+    data: Prisma.DeploymentUpdateInput,
+    steps: DeploymentSteps
+): Promise<void> {
+    await finishOpenStages(deploymentId, errorMessage, steps.prisma);
+    try {
+        await steps.prisma.deployment.update({
+            where: { id: deploymentId },
+            data: { ...data, status, errorMessage, diskUsageBytes: null },
+        });
+        console.log(`[Deployment ${deploymentId}] Database record updated to '${status}'.`);
+        await steps.notifyDeploymentStatusChanged(deploymentId);
+    } catch (dbError: any) {
+        console.error(`[Deployment ${deploymentId}] FATAL: Failed to update database status to '${status}':`, dbError.message);
+    }
+}
+
 /**
  * Asynchronously processes a deployment task.
  * This function contains the core logic for cloning, building, extracting,
  * starting the application, configuring the proxy (if in production),
  * and updating the database status.
  * @param params Parameters for the deployment process.
+ * @param params.signal Aborting it cancels the deployment: running git/docker processes are stopped,
+ *                      everything created so far is removed and the deployment is marked 'cancelled'.
+ * @param steps What the deployment runs each step with (see `DeploymentSteps`).
  */
 async function processDeployment(params: {
     deploymentId: any;
     projectId: number;
     userId: number;
     gitRepoUrl: string;
-    // buildArgs?: { [key: string]: string }; // Optional: Pass build arguments if needed
-}) {
-    const { deploymentId, projectId, userId, gitRepoUrl /*, buildArgs = {} */ } = params;
+    gitRef?: string | null; // Branch or tag to deploy; repository default branch if empty
+    commitSha?: string | null; // Exact commit to deploy, if pinned
+    signal?: AbortSignal;
+}, steps: DeploymentSteps = defaultDeploymentSteps) {
+    const { deploymentId, projectId, userId, gitRepoUrl, gitRef, commitSha, signal } = params;
 
     console.log(`[Deployment ${deploymentId}] Starting background processing...`);
     console.log(`[Deployment ${deploymentId}] YOUR_PLATFORM_URL: '${yourPlatformUrl}' (Production mode if set)`);
 
     // Define working paths
-    const baseDeploymentDir = path.join(__dirname, '..', 'deployments'); // Base path for all deployments
-    const deploymentWorkingDir = path.join(baseDeploymentDir, deploymentId.toString()); // Specific dir for this deployment
+    const deploymentWorkingDir = getDeploymentWorkingDir(deploymentId); // Specific dir for this deployment
     const buildOutputPath = path.join(deploymentWorkingDir, 'build-output'); // Extracted artifacts go here
 
     const logFileName = `deployment-${deploymentId}.log`;
@@ -49,24 +184,27 @@ async function processDeployment(params: {
     console.log(`[Deployment ${deploymentId}] Log file will be at: ${logFilePath}`);
 
     // Define the base directory for the temporary repository clone
-    const wsl2CloneBaseDir = path.join(os.homedir(), `.code-catalyst-clones`, `deployment-${deploymentId}-repo`);
+    const wsl2CloneBaseDir = getCloneDirectory(deploymentId);
     let clonedRepoPath = ''; // Path where repo is actually cloned
 
     let dockerfileUsedResult: DockerfileSource = 'unknown';
+    let runtime: RuntimeName = DEFAULT_RUNTIME; // The project's choice, read before the application is started
     let deploymentErrorMessage: string | null = null;
     let finalDeploymentUrl = ''; // URL to be stored, either production or local
     let internalPort: number | null = null; // Port the application runs on internally
+    let replicaPorts: number[] = []; // Ports of its other replicas
+    let currentStage: DeploymentLogStage = 'clone'; // Stage the failure message is logged under
 
     try {
-        // Update status to 'deploying' in the database
-        console.log(`[Deployment ${deploymentId}] Updating status to 'deploying'.`);
-        await prisma.deployment.update({
+        await steps.prisma.deployment.update({
             where: { id: deploymentId },
             data: {
-                status: 'deploying',
                 logFilePath: logFilePath, // Store log file path
             }
         });
+        // A retried job starts its timeline over
+        await steps.prisma.deploymentStage.deleteMany({ where: { deploymentId } });
+        await startStage(deploymentId, 'cloning', steps);
 
         // Prepare deployment workspace (create directories, set permissions)
         try {
@@ -78,7 +216,7 @@ async function processDeployment(params: {
             // Change ownership of the build-output directory.
             // This is important if the user inside the Docker container or PM2 process needs specific permissions.
             console.log(`[Deployment ${deploymentId}] Attempting to change ownership of ${buildOutputPath} to UID 1001.`);
-            const { stdout, stderr } = await execPromise(`sudo chown -R 1001:1001 ${buildOutputPath}`);
+            const { stdout, stderr } = await steps.changeOwner(buildOutputPath);
             if (stdout) console.log(`[Deployment ${deploymentId}] chown stdout: ${stdout}`);
             if (stderr) console.warn(`[Deployment ${deploymentId}] chown stderr: ${stderr}`); // Log warning, but don't fail
             console.log(`[Deployment ${deploymentId}] Ownership change command executed.`);
@@ -88,38 +226,97 @@ async function processDeployment(params: {
         }
 
         // 1. Clone Repository
-        console.log(`[Deployment ${deploymentId}] Cloning ${gitRepoUrl} into ${wsl2CloneBaseDir}.`);
-        clonedRepoPath = await cloneRepository(gitRepoUrl, deploymentId, userId, logFilePath);
+        console.log(`[Deployment ${deploymentId}] Cloning ${gitRepoUrl} (ref: ${gitRef || 'default'}${commitSha ? `, commit: ${commitSha}` : ''}) into ${wsl2CloneBaseDir}.`);
+        clonedRepoPath = await steps.cloneRepository(gitRepoUrl, deploymentId, userId, logFilePath, { ref: gitRef, commitSha, signal });
         console.log(`[Deployment ${deploymentId}] Repository cloned successfully to ${clonedRepoPath}.`);
 
+        // Record which commit is being deployed
+        try {
+            const headCommit = await steps.getHeadCommit(clonedRepoPath);
+            await steps.prisma.deployment.update({
+                where: { id: deploymentId },
+                data: {
+                    version: headCommit.sha,
+                    commitSha: headCommit.sha,
+                    commitMessage: headCommit.message,
+                    commitAuthor: headCommit.author,
+                    commitTimestamp: headCommit.timestamp,
+                },
+            });
+            console.log(`[Deployment ${deploymentId}] Deploying commit ${headCommit.sha} by ${headCommit.author}: ${headCommit.message}`);
+            await steps.notifyDeploymentStatusChanged(deploymentId);
+        } catch (commitError: any) {
+            // Not fatal: the build can proceed without commit metadata
+            console.warn(`[Deployment ${deploymentId}] Could not read HEAD commit: ${commitError.message}`);
+        }
+
         // 2. Build Docker Image
-        const imageName = `project-${projectId}-${deploymentId}`;
+        currentStage = 'build';
+        await startStage(deploymentId, 'building', steps);
+        const imageName = getDeploymentImageName(projectId, deploymentId);
         console.log(`[Deployment ${deploymentId}] Building image: ${imageName} from ${clonedRepoPath}.`);
-        // Pass any necessary build arguments if they are part of `params` or fetched elsewhere
-        const projectBuildArgs = { /* EXAMPLE_VAR: 'example_value' */ };
-        const buildResult = await buildProjectImage(clonedRepoPath, imageName, logFilePath, projectBuildArgs);
+        // Project variables scoped to 'build' or 'both' are passed as --build-arg
+        const projectBuildArgs = await steps.getProjectEnvironment(projectId, 'build');
+        // Deployments of a project share cache mounts and reuse its last successful image's layers
+        const buildCache = await steps.getBuildCacheOptions(projectId, deploymentId);
+        // The project's limits as they are now apply to the build and to the application
+        const limits = getProjectLimits((await steps.prisma.project.findUnique({ where: { id: projectId } })) ?? {});
+        const buildLimits = { ...limits.build, slice: getBuildSliceName(projectId) };
+        const buildResult = await steps.buildProjectImage(clonedRepoPath, imageName, logFilePath, projectBuildArgs, signal, buildCache, buildLimits);
         dockerfileUsedResult = buildResult.dockerfileUsed;
+        await steps.recordBuildCacheUsage(projectId, buildCache, buildResult.cacheSizeBytes);
+        await steps.prisma.deployment.update({ where: { id: deploymentId }, data: { packageManager: buildResult.packageManager } });
         console.log(`[Deployment ${deploymentId}] Image ${imageName} built successfully (Dockerfile source: ${dockerfileUsedResult}).`);
 
         // 3. Artifact Extraction
+        currentStage = 'extract';
+        await startStage(deploymentId, 'extracting', steps);
         console.log(`[Deployment ${deploymentId}] Starting artifact extraction from image ${imageName} to ${buildOutputPath}.`);
-        await extractBuildArtifacts(imageName, buildOutputPath, logFilePath);
+        await steps.extractBuildArtifacts(imageName, buildOutputPath, logFilePath, signal);
         console.log(`[Deployment ${deploymentId}] Artifacts extracted successfully to ${buildOutputPath}.`);
+        // Counts against the project's disk limit and the owner's plan until the deployment is deleted
+        const diskUsageBytes = (await steps.getImageSize(imageName)) + (await getDirectorySize(buildOutputPath));
+        await appendDeploymentLog(logFilePath, 'extract', `Image and build output take ${Math.ceil(diskUsageBytes / 1024 / 1024)}MB of disk space (limit ${limits.diskMb}MB).`);
+        await steps.recordDeploymentDiskUsage(deploymentId, diskUsageBytes);
 
         // Cleanup temporary clone directory
         console.log(`[Deployment ${deploymentId}] Cleaning up temporary clone directory: ${wsl2CloneBaseDir}`);
-        await cleanUpCloneDirectory(wsl2CloneBaseDir, logFilePath);
+        await steps.cleanUpCloneDirectory(wsl2CloneBaseDir, logFilePath);
         console.log(`[Deployment ${deploymentId}] Temporary clone directory cleaned up.`);
 
-        // 4. Start Application (PM2)
+        // 4. Start Application (PM2 or container)
+        currentStage = 'serve';
+        signal?.throwIfAborted();
+        await startStage(deploymentId, 'starting', steps);
         console.log(`[Deployment ${deploymentId}] Determining build type for application start.`);
-        const buildType = (dockerfileUsedResult === 'default_classic' || dockerfileUsedResult === 'user_classic_assumed') ? 'classic' : 'standalone';
+        const buildType = getBuildType(dockerfileUsedResult);
         console.log(`[Deployment ${deploymentId}] Starting application from ${buildOutputPath} (Build type: ${buildType}).`);
-        const appStartResult = await startApplication(buildOutputPath, deploymentId, { buildType: buildType });
+        const project = await steps.prisma.project.findUnique({ where: {id: projectId}, include: { user: {select: {username: true }} }});
+        runtime = resolveProjectRuntime(project);
+        // Recorded before anything runs, so a cancelled or interrupted deployment is stopped in the right runtime
+        await steps.prisma.deployment.update({ where: { id: deploymentId }, data: { runtime } });
+        const runtimeEnv = await steps.getProjectEnvironment(projectId, 'runtime');
+        const appStartResult = await steps.startApplication(
+            { deploymentId, buildOutputPath, imageName, buildType, env: runtimeEnv, limits: { ...limits.runtime, diskMb: limits.diskMb } },
+            runtime,
+            project?.replicas ?? 1
+        );
         internalPort = appStartResult.internalPort; // Capture the internal port
-        console.log(`[Deployment ${deploymentId}] Application started successfully on internal port ${internalPort}.`);
-
-        const project = await prisma.project.findUnique({ where: {id: projectId}, include: { user: {select: {username: true }} }});
+        replicaPorts = appStartResult.replicaPorts;
+        const internalPorts = [internalPort, ...replicaPorts];
+        console.log(`[Deployment ${deploymentId}] Application started successfully on internal port(s) ${internalPorts.join(', ')}.`);
+        await appendDeploymentLog(
+            logFilePath,
+            'serve',
+            `Application started with the ${runtime} runtime on internal port${internalPorts.length > 1 ? `s ${internalPorts.join(', ')} (${internalPorts.length} replicas)` : ` ${internalPort}`} (build type: ${buildType}).`
+        );
+
+        // Every replica must pass the project's readiness probe before anything routes traffic to it.
+        // If one does not, the deployment fails and its processes are stopped below.
+        for (const port of internalPorts) {
+            console.log(`[Deployment ${deploymentId}] Running readiness probe on port ${port}.`);
+            await steps.waitForApplicationHealthy(port, deploymentId, { probe: getReadinessProbe(project ?? {}), logFilePath });
+        }
         const user = project?.user || 'user';
         const projectName = project?.name ?? `project-${projectId}`; // Fallback to project ID if name is not available
         // const username = user?.git || 'unknown'; 
@@ -143,10 +340,10 @@ async function processDeployment(params: {
                 const potentialOperationalUrl = `https://${generatedHostname}`;
 
                 // Check if this URL already exists for an active deployment
-                const existingDeployment = await prisma.deployment.findFirst({
+                const existingDeployment = await steps.prisma.deployment.findFirst({
                     where: {
                         deploymentUrl: potentialOperationalUrl,
-                        status: { in: ['success', 'deploying'] }, // Check active ones
+                        status: { in: ['ready', ...IN_PROGRESS_DEPLOYMENT_STATUSES] }, // Check active ones
                         // NOT: { id: deploymentId } // Not needed here, as we are generating for the current new deploymentId
                     }
                 });
@@ -168,8 +365,8 @@ async function processDeployment(params: {
                 finalDeploymentUrl = `https://${generatedHostname}`;
 
                 // Final check for the fallback (should almost never collide)
-                const fallbackCollision = await prisma.deployment.findFirst({
-                    where: { deploymentUrl: finalDeploymentUrl, status: { in: ['success', 'deploying'] } }
+                const fallbackCollision = await steps.prisma.deployment.findFirst({
+                    where: { deploymentUrl: finalDeploymentUrl, status: { in: ['ready', ...IN_PROGRESS_DEPLOYMENT_STATUSES] } }
                 });
                 if (fallbackCollision) {
                     console.error(`[Deployment ${deploymentId}] FATAL: Fallback URL ${finalDeploymentUrl} also collided. This should not happen.`);
@@ -196,60 +393,134 @@ async function processDeployment(params: {
             throw new Error("Internal port not available after application start.");
         }
 
-        await prisma.deployment.update({ where: { id: deploymentId }, data: { deploymentUrl: finalDeploymentUrl} });
+        await steps.prisma.deployment.update({ where: { id: deploymentId }, data: { deploymentUrl: finalDeploymentUrl} });
+        // Routing traffic to it: the deployment's own site, then the project's production URL
+        await startStage(deploymentId, 'configuring_proxy', steps);
         if (isProduction) {
-        await configureNginxForDeployment(finalDeploymentUrl, internalPort, deploymentId, buildOutputPath, logFilePath); 
+        currentStage = 'proxy';
+        await steps.configureNginxForDeployment(finalDeploymentUrl, internalPorts, deploymentId, buildOutputPath, logFilePath); 
         }
 
+        // 5. Promote to the project's stable URL once the new deployment is healthy.
+        // The previous deployment keeps serving that URL until this point.
+        currentStage = 'serve';
+        signal?.throwIfAborted(); // Last point a cancellation is honoured; after this the deployment goes live
+        console.log(`[Deployment ${deploymentId}] Promoting deployment.`);
+        const productionUrl = await steps.promoteDeployment({ projectId, deploymentId, internalPorts, buildOutputPath, logFilePath, healthChecked: true });
+        if (productionUrl) {
+            console.log(`[Deployment ${deploymentId}] Promoted to ${productionUrl}.`);
+        }
+        await appendDeploymentLog(logFilePath, 'serve', `Deployment is live${productionUrl ? ` at ${productionUrl}` : ` at ${finalDeploymentUrl}`}.`);
+
         // Update Deployment Record on Success
         console.log(`[Deployment ${deploymentId}] Processing successful. Updating database record.`);
-        await prisma.deployment.update({
+        await finishOpenStages(deploymentId, null, steps.prisma);
+        await steps.prisma.deployment.update({
             where: { id: deploymentId },
             data: {
-                status: 'success',
+                status: 'ready',
                 buildOutputPath: buildOutputPath,
                 deploymentUrl: finalDeploymentUrl, // Store the final URL
                 internalPort: internalPort,
+                replicaPorts,
                 dockerfileUsed: dockerfileUsedResult,
+                runtime,
             },
         });
-        console.log(`[Deployment ${deploymentId}] Database record updated to 'success'. Deployment URL: ${finalDeploymentUrl}`);
+        console.log(`[Deployment ${deploymentId}] Database record updated to 'ready'. Deployment URL: ${finalDeploymentUrl}`);
+        await steps.notifyDeploymentStatusChanged(deploymentId);
 
     } catch (error: any) {
+        if (signal?.aborted) {
+            // Cancelled through cancelDeployment: nothing of this run is kept
+            const reason = signal.reason instanceof Error ? signal.reason.message : 'Deployment was cancelled.';
+            console.log(`[Deployment ${deploymentId}] Cancelled during ${currentStage}.`);
+            await discardDeploymentRun(deploymentId, 'cancelled', reason, { dockerfileUsed: dockerfileUsedResult }, steps);
+
+            console.log(`[Deployment ${deploymentId}] Removing everything created before the cancellation.`);
+            await cleanUpDeploymentResources({ id: deploymentId, projectId, runtime }, steps)
+                .catch((cleanErr: any) => console.error(`[Deployment ${deploymentId}] Cleanup after cancellation failed:`, cleanErr.message));
+            await fs.rm(wsl2CloneBaseDir, { recursive: true, force: true })
+                .catch((cleanErr: any) => console.error(`[Deployment ${deploymentId}] Cleanup of clone directory after cancellation failed:`, cleanErr.message));
+            return;
+        }
         console.error(`[Deployment ${deploymentId}] Processing failed:`, error.message, error.stack);
         deploymentErrorMessage = error.message; // Capture the error message
+        await appendDeploymentLog(logFilePath, currentStage, `Deployment failed: ${deploymentErrorMessage}`, 'stderr');
 
         // Update Deployment Record on Failure
-        try {
-            await prisma.deployment.update({
-                where: { id: deploymentId },
-                data: {
-                    status: 'failed',
-                    dockerfileUsed: dockerfileUsedResult, // Store which Dockerfile was attempted
-                    errorMessage: deploymentErrorMessage,
-                    deploymentUrl: finalDeploymentUrl || undefined, // Store URL if available
-                    internalPort: internalPort || undefined,
-                },
-            });
-            console.log(`[Deployment ${deploymentId}] Database record updated to 'failed' with error.`);
-        } catch (dbError: any) {
-            console.error(`[Deployment ${deploymentId}] FATAL: Failed to update database status to 'failed':`, dbError.message);
-        }
+        await discardDeploymentRun(deploymentId, 'failed', deploymentErrorMessage, {
+            dockerfileUsed: dockerfileUsedResult, // Store which Dockerfile was attempted
+            deploymentUrl: finalDeploymentUrl || undefined, // Store URL if available
+            internalPort: internalPort || undefined,
+        }, steps);
 
         // Cleanup on Failure
         console.log(`[Deployment ${deploymentId}] Initiating cleanup due to failure.`);
-        if (deploymentWorkingDir) {
-            fs.rm(deploymentWorkingDir, { recursive: true, force: true })
-              .then(() => console.log(`[Deployment ${deploymentId}] Cleaned up deployment working directory: ${deploymentWorkingDir}`))
-              .catch(cleanErr => console.error(`[Deployment ${deploymentId}] Cleanup of deployment working directory failed:`, cleanErr));
+        if (internalPort) {
+            // The application was started (e.g. it failed its readiness probe): do not leave it running
+            await steps.stopApplication(deploymentId, runtime)
+              .then(() => appendDeploymentLog(logFilePath, currentStage, 'Stopped the application after the failure.'))
+              .catch(stopErr => console.error(`[Deployment ${deploymentId}] Stopping application after failure failed:`, stopErr));
+            steps.removeNginxConfigForDeployment(deploymentId)
+              .catch(nginxErr => console.error(`[Deployment ${deploymentId}] Removing Nginx config after failure failed:`, nginxErr));
         }
+        // A failed deployment never starts again, so its ports can go to other deployments
+        steps.releaseDeploymentPorts(deploymentId)
+          .catch(releaseErr => console.error(`[Deployment ${deploymentId}] Releasing ports after failure failed:`, releaseErr));
+        // The working directory itself is kept: its log (e.g. the readiness probe's output) and the
+        // application's runtime output explain the failure. Deleting the deployment removes it.
+        fs.rm(buildOutputPath, { recursive: true, force: true })
+          .then(() => console.log(`[Deployment ${deploymentId}] Cleaned up build output: ${buildOutputPath}`))
+          .catch(cleanErr => console.error(`[Deployment ${deploymentId}] Cleanup of build output failed:`, cleanErr));
         if (wsl2CloneBaseDir && clonedRepoPath) { // clonedRepoPath implies wsl2CloneBaseDir was used
             console.log(`[Deployment ${deploymentId}] Cleaning up temporary clone directory: ${wsl2CloneBaseDir}`);
-            cleanUpCloneDirectory(wsl2CloneBaseDir, logFilePath)
+            steps.cleanUpCloneDirectory(wsl2CloneBaseDir, logFilePath)
               .catch(cleanErr => console.error(`[Deployment ${deploymentId}] Cleanup of WSL2 clone directory failed:`, cleanErr));
         }
-        // TODO: Consider cleanup for Docker images (`docker rmi ...`) and PM2 processes (`pm2 delete ...`) on failure.
+        // A failed deployment is never promoted or rolled back to, so its image is of no further use
+        steps.removeProjectImage(getDeploymentImageName(projectId, deploymentId))
+          .catch(rmiErr => console.error(`[Deployment ${deploymentId}] Removing Docker image after failure failed:`, rmiErr));
+    }
+}
+
+/**
+ * Removes everything a deployment owns outside the database:
+ * its PM2 processes or containers and their ports, Docker image, Nginx site config and working directory.
+ * Every step is attempted even if an earlier one fails, so a partial teardown can be retried.
+ * @param deployment The deployment to tear down, with the runtime it was started with.
+ * @param steps What the teardown runs each step with (see `DeploymentSteps`).
+ * @throws Error listing every step that failed.
+ */
+async function cleanUpDeploymentResources(
+    deployment: { id: number; projectId: number; runtime: string | null },
+    steps: DeploymentSteps = defaultDeploymentSteps
+): Promise<void> {
+    const { id: deploymentId, projectId } = deployment;
+    const failures: string[] = [];
+
+    const teardown: Array<[string, () => Promise<void>]> = [
+        ['stop application', () => steps.stopApplication(deploymentId, getDeploymentRuntime(deployment.runtime))],
+        ['release ports', () => steps.releaseDeploymentPorts(deploymentId)],
+        ['remove Docker image', () => steps.removeProjectImage(getDeploymentImageName(projectId, deploymentId))],
+        ['remove Nginx config', () => steps.removeNginxConfigForDeployment(deploymentId)],
+        ['remove working directory', () => fs.rm(getDeploymentWorkingDir(deploymentId), { recursive: true, force: true })],
+    ];
+
+    for (const [description, step] of teardown) {
+        try {
+            await step();
+        } catch (error: any) {
+            console.error(`[Deployment ${deploymentId}] Cleanup step '${description}' failed:`, error.message);
+            failures.push(`${description}: ${error.message}`);
+        }
+    }
+
+    if (failures.length > 0) {
+        throw new Error(`Failed to clean up deployment ${deploymentId}: ${failures.join('; ')}`);
     }
+    console.log(`[Deployment ${deploymentId}] All deployment resources cleaned up.`);
 }
 
-export { processDeployment };
+export { processDeployment, cleanUpDeploymentResources, finishOpenStages, defaultDeploymentSteps };
+export type { DeploymentSteps };
@@ -4,37 +4,39 @@ import { spawn } from 'child_process';
 import path from 'path';
 import fs from 'fs/promises'; // Use promises version for async file operations
 import { URL } from 'url'; // Import URL class
-import { createWriteStream, WriteStream } from 'fs'; // Import for file streaming
+import { ACME_CHALLENGE_DIR } from './utils';
+import { createDeploymentLogWriter, DeploymentLogWriter } from './deploymentLogs';
 
 // --- Configuration Constants ---
 // IMPORTANT: Adjust these paths and commands based on your VPS environment!
 const NGINX_SITES_AVAILABLE_DIR = '/etc/nginx/sites-available'; // Standard Nginx directory
 const NGINX_SITES_ENABLED_DIR = '/etc/nginx/sites-enabled'; // Standard Nginx directory
 const NGINX_RELOAD_COMMAND = 'sudo nginx -s reload'; // Command to reload Nginx config
+// Certificate for hostnames under YOUR_PLATFORM_URL (typically a wildcard certificate)
+const PLATFORM_SSL_CERTIFICATE_PATH = process.env.PLATFORM_SSL_CERTIFICATE_PATH || '/etc/letsencrypt/live/nextlive.fun/fullchain.pem';
+const PLATFORM_SSL_CERTIFICATE_KEY_PATH = process.env.PLATFORM_SSL_CERTIFICATE_KEY_PATH || '/etc/letsencrypt/live/nextlive.fun/privkey.pem';
 // --- End Configuration Constants ---
 
 /**
- * Generates the Nginx server block configuration content for a deployment.
- * @param deploymentUrl The public URL (e.g., subdomain) for the deployment (including protocol).
- * @param internalPort The internal port the application is listening on.
- * @param buildOutputPath The path to the extracted build artifacts on the VPS filesystem (used for static assets).
- * @param useHttps Boolean indicating whether to generate HTTPS configuration.
- * @returns The Nginx configuration string.
+ * A custom domain served next to a site's main hostname. Domains without certificate paths
+ * are served over plain HTTP until a certificate has been issued for them.
  */
-function generateNginxConfig(
-    deploymentUrl: string,
-    internalPort: number,
-    buildOutputPath: string,
-    useHttps: boolean // <-- NEW PARAMETER
-): string {
-    const url = new URL(deploymentUrl);
-    const hostname = url.hostname; // url.hostname already gives just the hostname, no protocol needed to remove
+export interface CustomDomainSite {
+    domainName: string;
+    certificatePath?: string;
+    keyPath?: string;
+}
 
-    // Conditional SSL configuration parts - Corrected Nginx comment syntax from // to #
-    const sslConfig = useHttps ? `
+/**
+ * Generates the SSL directives for a server block.
+ * @param certificatePath Path to the full certificate chain.
+ * @param keyPath Path to the private key.
+ */
+function generateSslConfig(certificatePath: string, keyPath: string): string {
+    return `
     # --- SSL Configuration ---
-    ssl_certificate /etc/letsencrypt/live/nextlive.fun/fullchain.pem; # Your actual cert path
-    ssl_certificate_key /etc/letsencrypt/live/nextlive.fun/privkey.pem; # Your actual key path
+    ssl_certificate ${certificatePath};
+    ssl_certificate_key ${keyPath};
     ssl_protocols TLSv1.2 TLSv1.3;
     ssl_ciphers 'ECDHE-ECDSA-AES128-GCM-SHA256:ECDHE-RSA-AES128-GCM-SHA256:ECDHE-ECDSA-AES256-GCM-SHA384:ECDHE-RSA-AES256-GCM-SHA384:DHE-RSA-AES128-GCM-SHA256:DHE-RSA-AES256-GCM-SHA384';
     ssl_prefer_server_ciphers on;
@@ -45,30 +47,47 @@ function generateNginxConfig(
     # resolver 8.8.8.8 8.8.4.4 valid=300s; # Google Public DNS, adjust if needed
     # resolver_timeout 5s;
     # --- End SSL Configuration ---
-    ` : '';
-
-    const httpRedirect = useHttps ? `
-server {
-    listen 80;
-    listen [::]:80;
-    server_name ${hostname};
-
-    # Redirect HTTP to HTTPS
-    return 301 https://$host$request_uri;
+    `;
 }
-` : '';
 
-    return `
-${httpRedirect}
-server {
-    listen ${useHttps ? '443 ssl http2' : '80'};
-    listen [::]:${useHttps ? '443 ssl http2' : '80'};
-    server_name ${hostname};
+/**
+ * Generates the Nginx server block configuration content for a deployment.
+ * @param deploymentUrl The public URL (e.g., subdomain) for the deployment (including protocol).
+ * @param upstreamName Name of the upstream block listing the application's replicas (unique across all sites).
+ * @param internalPorts The internal ports the application's replicas are listening on.
+ * @param buildOutputPath The path to the extracted build artifacts on the VPS filesystem (used for static assets).
+ * @param useHttps Boolean indicating whether to generate HTTPS configuration.
+ * @param customDomains Other domains served by the same application (e.g. a project's verified custom domains).
+ * @returns The Nginx configuration string.
+ */
+function generateNginxConfig(
+    deploymentUrl: string,
+    upstreamName: string,
+    internalPorts: number[],
+    buildOutputPath: string,
+    useHttps: boolean, // <-- NEW PARAMETER
+    customDomains: CustomDomainSite[] = []
+): string {
+    const url = new URL(deploymentUrl);
+    const hostname = url.hostname; // url.hostname already gives just the hostname, no protocol needed to remove
 
-    ${sslConfig}
+    // Lets ACME HTTP-01 challenges for any served hostname be answered over plain HTTP
+    const acmeChallengeLocation = `
+    location /.well-known/acme-challenge/ {
+        root ${ACME_CHALLENGE_DIR};
+        default_type text/plain;
+    }`;
+
+    // Nginx spreads requests over the replicas and skips one that refuses connections
+    const upstreamBlock = `
+upstream ${upstreamName} {
+${internalPorts.map((port) => `    server 127.0.0.1:${port};`).join('\n')}
+}
+`;
 
+    const proxyLocations = `
     location / {
-        proxy_pass http://127.0.0.1:${internalPort};
+        proxy_pass http://${upstreamName};
         proxy_http_version 1.1;
         proxy_set_header Upgrade $http_upgrade;
         proxy_set_header Connection 'upgrade';
@@ -88,20 +107,77 @@ server {
         alias ${buildOutputPath}/public/;
         expires 1y;
         access_log off;
+    }`;
+
+    // Redirects a hostname to HTTPS and serves it there with the given certificate
+    const httpsServerBlocks = (serverName: string, certificatePath: string, keyPath: string) => `
+server {
+    listen 80;
+    listen [::]:80;
+    server_name ${serverName};
+${acmeChallengeLocation}
+
+    # Redirect HTTP to HTTPS
+    location / {
+        return 301 https://$host$request_uri;
     }
 }
+
+server {
+    listen 443 ssl http2;
+    listen [::]:443 ssl http2;
+    server_name ${serverName};
+
+    ${generateSslConfig(certificatePath, keyPath)}
+${proxyLocations}
+}
+`;
+
+    // Conditional SSL configuration parts: the main hostname uses the platform certificate
+    const mainServerBlocks = useHttps
+        ? httpsServerBlocks(hostname, PLATFORM_SSL_CERTIFICATE_PATH, PLATFORM_SSL_CERTIFICATE_KEY_PATH)
+        : `
+server {
+    listen 80;
+    listen [::]:80;
+    server_name ${hostname};
+${acmeChallengeLocation}
+${proxyLocations}
+}
 `;
+
+    // Custom domains with an issued certificate get their own HTTPS server
+    const securedDomainBlocks = customDomains
+        .filter((domain) => useHttps && domain.certificatePath && domain.keyPath)
+        .map((domain) => httpsServerBlocks(domain.domainName, domain.certificatePath!, domain.keyPath!))
+        .join('');
+
+    // The rest are served over HTTP, which is also how their first certificate gets issued
+    const plainDomainNames = customDomains
+        .filter((domain) => !(useHttps && domain.certificatePath && domain.keyPath))
+        .map((domain) => domain.domainName);
+    const plainDomainBlock = plainDomainNames.length > 0 ? `
+server {
+    listen 80;
+    listen [::]:80;
+    server_name ${plainDomainNames.join(' ')};
+${acmeChallengeLocation}
+${proxyLocations}
+}
+` : '';
+
+    return `${upstreamBlock}${mainServerBlocks}${securedDomainBlocks}${plainDomainBlock}`;
 }
 
 /**
  * Executes a shell command that may require sudo, capturing stdout and stderr.
- * Can optionally pipe live output to a WriteStream.
+ * Can optionally pipe live output to a deployment log.
  * @param command The full command string to execute (e.g., 'sudo your_command').
- * @param logStream Optional WriteStream to pipe live output to.
+ * @param logStream Optional deployment log writer to pipe live output to.
  * @returns A promise that resolves if the command exits with code 0.
  * @throws Error if the command fails or the process exits with a non-zero code.
  */
-async function executeShellCommand(command: string, logStream: WriteStream | null = null): Promise<void> {
+async function executeShellCommand(command: string, logStream: DeploymentLogWriter | null = null): Promise<void> {
     console.log(`Executing command: ${command}`);
     if (logStream) logStream.write(`Executing command: ${command}\n`);
 
@@ -126,7 +202,7 @@ async function executeShellCommand(command: string, logStream: WriteStream | nul
         if (logStream) {
              // Use { end: false } when piping to avoid closing the main log stream prematurely
              process.stdout.pipe(logStream, { end: false });
-             process.stderr.pipe(logStream, { end: false });
+             process.stderr.pipe(logStream.stderr, { end: false });
         } else {
              // Fallback to console if no log stream
              // Corrected: pipe child process streams (Readable) to global process streams (Writable)
@@ -169,11 +245,11 @@ async function executeShellCommand(command: string, logStream: WriteStream | nul
  * Executes the Nginx reload command to apply new configuration.
  * Requires the user running the Node.js process to have NOPASSWD sudo permission
  * for the 'nginx -s reload' command.
- * @param logStream Optional WriteStream to pipe live output to.
+ * @param logStream Optional deployment log writer to pipe live output to.
  * @returns A promise that resolves if the reload is successful.
  * @throws Error if the reload command fails.
  */
-async function reloadNginx(logStream: WriteStream | null = null): Promise<void> {
+async function reloadNginx(logStream: DeploymentLogWriter | null = null): Promise<void> {
     console.log('Attempting to reload Nginx configuration...');
     if (logStream) logStream.write('Attempting to reload Nginx configuration...\n');
     // This function already uses executeShellCommand internally with the sudo command
@@ -189,7 +265,7 @@ async function reloadNginx(logStream: WriteStream | null = null): Promise<void>
  * Requires the user running the Node.js process to have NOPASSWD sudo permissions
  * for the necessary commands (tee, ln, nginx).
  * @param deploymentUrl The public URL for the deployment (including protocol).
- * @param internalPort The internal port the application is listening on.
+ * @param internalPorts The internal ports the deployment's replicas are listening on.
  * @param deploymentId The ID of the deployment.
  * @param buildOutputPath The path to the extracted build artifacts on the VPS filesystem.
  * @param logFilePath Path to log file
@@ -198,24 +274,73 @@ async function reloadNginx(logStream: WriteStream | null = null): Promise<void>
  */
 async function configureNginxForDeployment(
     deploymentUrl: string,
-    internalPort: number,
+    internalPorts: number[],
     deploymentId: number,
     buildOutputPath: string,
     logFilePath: string // Accept log file path
 ): Promise<void> {
-    console.log(`[Proxy Service] Configuring Nginx for deployment ${deploymentId}: ${deploymentUrl} -> 127.0.0.1:${internalPort}`);
+    await configureNginxSite(`deploy-${deploymentId}.conf`, `deployment ${deploymentId}`, deploymentUrl, internalPorts, buildOutputPath, logFilePath);
+}
+
+/**
+ * Points a project's stable production URL at one of its deployments.
+ * The project has its own site file, so the switch only touches the alias: the previous
+ * deployment keeps serving until Nginx is reloaded, and the reload swaps over gracefully.
+ * @param productionUrl The project's stable URL (including protocol).
+ * @param internalPorts The internal ports of the replicas of the deployment being promoted.
+ * @param projectId The ID of the project.
+ * @param buildOutputPath The build artifacts of the deployment being promoted (used for static assets).
+ * @param logFilePath Path to the promoted deployment's log file.
+ * @param customDomains The project's verified custom domains (with their certificates, once issued), served alongside the production URL.
+ * @returns A promise that resolves when configuration and reload are complete.
+ * @throws Error if any step fails.
+ */
+async function configureNginxForProject(
+    productionUrl: string,
+    internalPorts: number[],
+    projectId: number,
+    buildOutputPath: string,
+    logFilePath: string,
+    customDomains: CustomDomainSite[] = []
+): Promise<void> {
+    await configureNginxSite(`project-${projectId}.conf`, `project ${projectId}`, productionUrl, internalPorts, buildOutputPath, logFilePath, customDomains);
+}
+
+/**
+ * Writes an Nginx site file to sites-available, enables it and reloads Nginx.
+ * @param configFileName The name of the site file (e.g. `deploy-12.conf`).
+ * @param siteLabel Human-readable owner of the site, used in logs.
+ * @param deploymentUrl The public URL to serve (including protocol).
+ * @param internalPorts The internal ports to proxy to, one per replica.
+ * @param buildOutputPath The path to the extracted build artifacts (used for static assets).
+ * @param logFilePath Path to log file
+ * @param customDomains Custom domains to serve next to the main hostname.
+ * @throws Error if any step fails.
+ */
+async function configureNginxSite(
+    configFileName: string,
+    siteLabel: string,
+    deploymentUrl: string,
+    internalPorts: number[],
+    buildOutputPath: string,
+    logFilePath: string,
+    customDomains: CustomDomainSite[] = []
+): Promise<void> {
+    if (internalPorts.length === 0) {
+        throw new Error(`Cannot configure Nginx for ${siteLabel}: no internal ports to proxy to.`);
+    }
+    const upstreamName = configFileName.replace(/\.conf$/, '').replace(/[^a-zA-Z0-9]/g, '_'); // e.g. deploy_12
+    console.log(`[Proxy Service] Configuring Nginx for ${siteLabel}: ${deploymentUrl} -> 127.0.0.1:${internalPorts.join(', ')}`);
 
     // Define and initialize log stream
-    let logStream: WriteStream | null = null;
+    let logStream: DeploymentLogWriter | null = null;
     try {
-        // Ensure the directory for the log file exists
-        await fs.mkdir(path.dirname(logFilePath), { recursive: true });
-        // Create a writable stream in append mode
-        logStream = createWriteStream(logFilePath, { flags: 'a' });
+        // Creates the log directory if needed and appends lines tagged with the proxy stage
+        logStream = await createDeploymentLogWriter(logFilePath, 'proxy');
         logStream.write(
             `--- Nginx Configuration Started: ${new Date().toISOString()} ---\n`
         );
-         logStream.write(`Deployment ID: ${deploymentId}, URL: ${deploymentUrl}, Internal Port: ${internalPort}\n`);
+         logStream.write(`Site: ${siteLabel}, URL: ${deploymentUrl}, Internal Ports: ${internalPorts.join(', ')}\n`);
          // Optional: Add error handling for the log stream itself
          logStream.on('error', (err) => {
              console.error(`[Proxy Service] Error writing to log file stream ${logFilePath}: ${err.message}`);
@@ -231,7 +356,6 @@ async function configureNginxForDeployment(
     }
 
 
-    const configFileName = `deploy-${deploymentId}.conf`;
     const sitesAvailablePath = path.join(
         NGINX_SITES_AVAILABLE_DIR,
         configFileName
@@ -247,9 +371,11 @@ async function configureNginxForDeployment(
         const shouldUseHttps = true; // Changed from IS_PRODUCTION for clarity and consistent behavior
         const nginxConfigContent = generateNginxConfig( // Call the updated generateNginxConfig
             deploymentUrl,
-            internalPort,
+            upstreamName,
+            internalPorts,
             buildOutputPath,
-            shouldUseHttps // Pass the new parameter
+            shouldUseHttps, // Pass the new parameter
+            customDomains
         );
 
 
@@ -272,7 +398,7 @@ async function configureNginxForDeployment(
             if (logStream) {
                  // Use { end: false } when piping to avoid closing the main log stream prematurely
                  teeProcess.stdout.pipe(logStream, { end: false });
-                 teeProcess.stderr.pipe(logStream, { end: false });
+                 teeProcess.stderr.pipe(logStream.stderr, { end: false });
             } else {
                  // Corrected: pipe tee process streams (Readable) to global process streams (Writable)
                  teeProcess.stdout.pipe(global.process.stdout);
@@ -334,9 +460,9 @@ async function configureNginxForDeployment(
         await reloadNginx(logStream); // Pass logStream
 
 
-        console.log(`Nginx configured successfully for deployment ${deploymentId}.`);
+        console.log(`Nginx configured successfully for ${siteLabel}.`);
         if (logStream) {
-            logStream.write(`Nginx configured successfully for deployment ${deploymentId}.\n`);
+            logStream.write(`Nginx configured successfully for ${siteLabel}.\n`);
             logStream.write(`--- Nginx Configuration Finished: ${new Date().toISOString()} ---\n`);
             logStream.end(); // Explicitly close stream on success
         }
@@ -345,15 +471,40 @@ async function configureNginxForDeployment(
         console.error(`[Proxy Service] Failed to configure Nginx: ${error.message}`);
         if (logStream) {
             logStream.write(`\n--- Nginx Configuration Failed: ${new Date().toISOString()} ---\n`);
-            logStream.write(`Error: ${error.message}\n`);
+            logStream.stderr.write(`Error: ${error.message}\n`);
             logStream.end(); // Explicitly close stream on error
         }
         throw error; // Re-throw the error
     }
 }
 
+/**
+ * Removes the Nginx site configuration written by `configureNginxForDeployment` and reloads Nginx.
+ * Does nothing if the deployment never had a configuration (e.g. development mode or an early failure).
+ * Requires NOPASSWD sudo permissions for rm and nginx.
+ * @param deploymentId The ID of the deployment.
+ * @returns A promise that resolves when the configuration is gone and Nginx has been reloaded.
+ * @throws Error if removing the files or reloading Nginx fails.
+ */
+async function removeNginxConfigForDeployment(deploymentId: number): Promise<void> {
+    const configFileName = `deploy-${deploymentId}.conf`;
+    const sitesAvailablePath = path.join(NGINX_SITES_AVAILABLE_DIR, configFileName);
+    const sitesEnabledPath = path.join(NGINX_SITES_ENABLED_DIR, configFileName);
+
+    try {
+        await fs.access(sitesAvailablePath);
+    } catch {
+        console.log(`[Proxy Service] No Nginx config found for deployment ${deploymentId} at ${sitesAvailablePath}. Skipping removal.`);
+        return;
+    }
+
+    console.log(`[Proxy Service] Removing Nginx config for deployment ${deploymentId}.`);
+    await executeShellCommand(`sudo rm -f ${sitesEnabledPath} ${sitesAvailablePath}`);
+    await reloadNginx();
+    console.log(`[Proxy Service] Nginx config for deployment ${deploymentId} removed.`);
+}
+
 // Future functions:
-// async function removeNginxConfigForDeployment(deploymentId: number, logFilePath: string): Promise<void> { ... } // For stopping/deleting deployments
 // async function updateNginxConfigForDeployment(deploymentId: number, newInternalPort: number, logFilePath: string): Promise<void> { ... } // If port changes
 
-export { configureNginxForDeployment };
+export { configureNginxForDeployment, configureNginxForProject, removeNginxConfigForDeployment };
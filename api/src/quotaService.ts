@@ -0,0 +1,230 @@
+// src/quotaService.ts
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ApolloError } from 'apollo-server';
+import { IN_PROGRESS_DEPLOYMENT_STATUSES } from './utils';
+
+const prisma = new PrismaClient();
+
+// --- Resource Limits and Quotas ---
+// Each project limits the CPUs and memory of its builds and of its application, and the disk space
+// of each deployment (image plus build output, and the writable space of its container). Values a
+// project has not set come from the environment.
+// Each user's plan caps what the user's projects may set and what the account uses at once: deployments
+// queued or building, ready deployments and disk space. Users without a plan get the default plan,
+// also from the environment. Exceeding a quota raises a QuotaExceededError, which GraphQL clients
+// receive with the code QUOTA_EXCEEDED and the quota, its limit and the current usage.
+
+const DEFAULT_BUILD_CPUS = parseFloat(process.env.BUILD_CPU_LIMIT || '') || 2;
+const DEFAULT_BUILD_MEMORY_MB = parseInt(process.env.BUILD_MEMORY_LIMIT_MB || '', 10) || 2048;
+const DEFAULT_RUNTIME_CPUS = parseFloat(process.env.CONTAINER_CPU_LIMIT || '') || 1;
+const DEFAULT_RUNTIME_MEMORY_MB = parseInt(process.env.CONTAINER_MEMORY_LIMIT_MB || '', 10) || 512;
+const DEFAULT_DISK_MB = parseInt(process.env.DEPLOYMENT_DISK_LIMIT_MB || '', 10) || 2048;
+
+export interface ResourceLimits {
+    cpus: number;
+    memoryMb: number;
+}
+
+export interface ProjectLimits {
+    build: ResourceLimits;
+    runtime: ResourceLimits;
+    diskMb: number;
+}
+
+export interface PlanQuotas {
+    name: string;
+    maxConcurrentBuilds: number;
+    maxLiveDeployments: number;
+    maxDiskMb: number;
+    maxCpus: number;
+    maxMemoryMb: number;
+}
+
+export const DEFAULT_PLAN: PlanQuotas = {
+    name: 'default',
+    maxConcurrentBuilds: parseInt(process.env.PLAN_MAX_CONCURRENT_BUILDS || '', 10) || 2,
+    maxLiveDeployments: parseInt(process.env.PLAN_MAX_LIVE_DEPLOYMENTS || '', 10) || 10,
+    maxDiskMb: parseInt(process.env.PLAN_MAX_DISK_MB || '', 10) || 20 * 1024,
+    maxCpus: parseFloat(process.env.PLAN_MAX_CPUS || '') || 2,
+    maxMemoryMb: parseInt(process.env.PLAN_MAX_MEMORY_MB || '', 10) || 4096,
+};
+
+export type QuotaName = 'concurrentBuilds' | 'liveDeployments' | 'disk' | 'cpus' | 'memory';
+
+/**
+ * A request that would take an account, or a project's limits, over its plan.
+ */
+export class QuotaExceededError extends ApolloError {
+    constructor(message: string, quota: QuotaName, limit: number, usage: number) {
+        super(message, 'QUOTA_EXCEEDED', { quota, limit, usage });
+        Object.defineProperty(this, 'name', { value: 'QuotaExceededError' });
+    }
+}
+
+/**
+ * Works out a project's resource limits, filling in defaults for those not set.
+ * @param project The project's limit settings.
+ */
+export function getProjectLimits(project: {
+    buildCpus?: number | null;
+    buildMemoryMb?: number | null;
+    runtimeCpus?: number | null;
+    runtimeMemoryMb?: number | null;
+    diskMb?: number | null;
+}): ProjectLimits {
+    return {
+        build: { cpus: project.buildCpus ?? DEFAULT_BUILD_CPUS, memoryMb: project.buildMemoryMb ?? DEFAULT_BUILD_MEMORY_MB },
+        runtime: { cpus: project.runtimeCpus ?? DEFAULT_RUNTIME_CPUS, memoryMb: project.runtimeMemoryMb ?? DEFAULT_RUNTIME_MEMORY_MB },
+        diskMb: project.diskMb ?? DEFAULT_DISK_MB,
+    };
+}
+
+/**
+ * Looks up the quotas of a user's plan.
+ * @param userId The ID of the user.
+ */
+export async function getUserPlan(userId: number, client: Prisma.TransactionClient = prisma): Promise<PlanQuotas> {
+    const user = await client.user.findUnique({ where: { id: userId }, select: { plan: true } });
+    return user?.plan ?? DEFAULT_PLAN;
+}
+
+/**
+ * Checks a project's limits before they are saved, or its replicas before they change: limits must be
+ * positive, and a build, or an application's replicas together, must stay within the owner's plan.
+ * @param limits The limits the project would have.
+ * @param plan The owner's plan.
+ * @param replicas How many replicas the application would run, each with the runtime limits.
+ * @throws Error if a limit is not positive.
+ * @throws QuotaExceededError if a CPU or memory limit, times the replicas for the application, is higher than the plan allows.
+ */
+export function validateProjectLimits(limits: ProjectLimits, plan: PlanQuotas, replicas: number = 1): void {
+    const values = [limits.build.cpus, limits.build.memoryMb, limits.runtime.cpus, limits.runtime.memoryMb, limits.diskMb];
+    if (values.some((value) => !Number.isFinite(value) || value <= 0)) {
+        throw new Error('Resource limits must be positive numbers.');
+    }
+    const cpus = Math.max(limits.build.cpus, limits.runtime.cpus * replicas);
+    if (cpus > plan.maxCpus) {
+        throw new QuotaExceededError(
+            `Your plan allows at most ${plan.maxCpus} CPUs per build or application (all replicas together).`,
+            'cpus', plan.maxCpus, cpus
+        );
+    }
+    const memoryMb = Math.max(limits.build.memoryMb, limits.runtime.memoryMb * replicas);
+    if (memoryMb > plan.maxMemoryMb) {
+        throw new QuotaExceededError(
+            `Your plan allows at most ${plan.maxMemoryMb}MB of memory per build or application (all replicas together).`,
+            'memory', plan.maxMemoryMb, memoryMb
+        );
+    }
+}
+
+/**
+ * Measures what a user's account uses of its plan.
+ * @param userId The ID of the user.
+ * @returns Deployments queued or in progress, ready deployments, and disk space in bytes.
+ */
+export async function getQuotaUsage(
+    userId: number,
+    client: Prisma.TransactionClient = prisma
+): Promise<{ concurrentBuilds: number; liveDeployments: number; diskBytes: number }> {
+    const [concurrentBuilds, liveDeployments, deploymentDisk, cacheDisk] = await Promise.all([
+        client.deployment.count({ where: { project: { userId }, status: { in: IN_PROGRESS_DEPLOYMENT_STATUSES } } }),
+        client.deployment.count({ where: { project: { userId }, status: 'ready' } }),
+        // Failed and cancelled deployments' images are removed; earlier ones may still have a size recorded
+        client.deployment.aggregate({ where: { project: { userId }, status: { notIn: ['failed', 'cancelled'] } }, _sum: { diskUsageBytes: true } }),
+        client.project.aggregate({ where: { userId }, _sum: { buildCacheSizeBytes: true } }),
+    ]);
+    return {
+        concurrentBuilds,
+        liveDeployments,
+        diskBytes: Number(deploymentDisk._sum.diskUsageBytes ?? 0) + Number(cacheDisk._sum.buildCacheSizeBytes ?? 0),
+    };
+}
+
+/**
+ * Checks that the owner of a project may start another deployment. Call in the transaction that creates it:
+ * the owner's row is locked until that transaction ends, so concurrent checks for the same user wait for
+ * the deployment to be created instead of counting without it.
+ * @param projectId The ID of the project to deploy.
+ * @param tx The transaction that creates the deployment.
+ * @throws QuotaExceededError if the owner has as many deployments building, or ready, as the plan allows,
+ *         or uses all of the plan's disk space.
+ */
+export async function assertDeploymentQuota(projectId: number, tx: Prisma.TransactionClient): Promise<void> {
+    const project = await tx.project.findUnique({ where: { id: projectId }, select: { userId: true } });
+    if (!project) return; // The caller reports the missing project
+
+    await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${project.userId} FOR UPDATE`;
+    const plan = await getUserPlan(project.userId, tx);
+    const usage = await getQuotaUsage(project.userId, tx);
+    if (usage.concurrentBuilds >= plan.maxConcurrentBuilds) {
+        throw new QuotaExceededError(
+            `Your plan allows ${plan.maxConcurrentBuilds} deployments queued or building at once. Wait for one to finish or cancel it.`,
+            'concurrentBuilds', plan.maxConcurrentBuilds, usage.concurrentBuilds
+        );
+    }
+    if (usage.liveDeployments >= plan.maxLiveDeployments) {
+        throw new QuotaExceededError(
+            `Your plan allows ${plan.maxLiveDeployments} ready deployments. Delete deployments you no longer need.`,
+            'liveDeployments', plan.maxLiveDeployments, usage.liveDeployments
+        );
+    }
+    const maxDiskBytes = plan.maxDiskMb * 1024 * 1024;
+    if (usage.diskBytes >= maxDiskBytes) {
+        throw new QuotaExceededError(
+            `Your deployments and build caches use all ${plan.maxDiskMb}MB of disk space your plan allows. Delete deployments or clear build caches.`,
+            'disk', maxDiskBytes, usage.diskBytes
+        );
+    }
+}
+
+/**
+ * Records the disk space a built deployment takes and checks it against its project's limit and the owner's plan.
+ * The size is recorded either way, so a deployment that fails the check still counts until it is cleaned up.
+ * @param deploymentId The ID of the deployment.
+ * @param sizeBytes Size of its image plus its extracted build output.
+ * @throws Error if the deployment is larger than its project allows.
+ * @throws QuotaExceededError if it takes the owner's account over the plan's disk space.
+ */
+export async function recordDeploymentDiskUsage(deploymentId: number, sizeBytes: number): Promise<void> {
+    const deployment = await prisma.deployment.update({
+        where: { id: deploymentId },
+        data: { diskUsageBytes: sizeBytes },
+        select: { project: true },
+    });
+    const { diskMb } = getProjectLimits(deployment.project);
+    if (sizeBytes > diskMb * 1024 * 1024) {
+        throw new Error(`The deployment takes ${Math.ceil(sizeBytes / 1024 / 1024)}MB of disk space, more than the project's limit of ${diskMb}MB.`);
+    }
+
+    const plan = await getUserPlan(deployment.project.userId);
+    const usage = await getQuotaUsage(deployment.project.userId);
+    const maxDiskBytes = plan.maxDiskMb * 1024 * 1024;
+    if (usage.diskBytes > maxDiskBytes) {
+        throw new QuotaExceededError(
+            `This deployment takes your account over the ${plan.maxDiskMb}MB of disk space your plan allows. Delete deployments or clear build caches.`,
+            'disk', maxDiskBytes, usage.diskBytes
+        );
+    }
+}
+
+/**
+ * Describes a user's plan and usage for the API.
+ * @param userId The ID of the user.
+ */
+export async function getUserQuota(userId: number) {
+    const [plan, usage] = await Promise.all([getUserPlan(userId), getQuotaUsage(userId)]);
+    return {
+        plan: plan.name,
+        maxConcurrentBuilds: plan.maxConcurrentBuilds,
+        concurrentBuilds: usage.concurrentBuilds,
+        maxLiveDeployments: plan.maxLiveDeployments,
+        liveDeployments: usage.liveDeployments,
+        maxDiskBytes: plan.maxDiskMb * 1024 * 1024,
+        diskUsageBytes: usage.diskBytes,
+        maxCpus: plan.maxCpus,
+        maxMemoryMb: plan.maxMemoryMb,
+    };
+}
+// --- End Resource Limits and Quotas ---
@@ -0,0 +1,378 @@
+// src/releaseService.ts
+
+import { PrismaClient, Prisma, Deployment } from '@prisma/client';
+import path from 'path';
+import fs from 'fs/promises';
+import { getBuildType } from './buildService';
+import {
+    ensureApplicationRunning,
+    getDeploymentPorts,
+    getReadinessProbe,
+    startReplicas,
+    stopReplica,
+    validateReplicas,
+    waitForApplicationHealthy,
+} from './servingService';
+import { ApplicationSpec, getDeploymentRuntime } from './runtimeDriver';
+import { configureNginxForDeployment, configureNginxForProject, CustomDomainSite } from './proxyService';
+import { getProjectEnvironment } from './envService';
+import { getProjectLimits, getUserPlan, validateProjectLimits } from './quotaService';
+import { getCertificateFilePaths, getDeploymentImageName, getDeploymentWorkingDir, sanitizeForSubdomain } from './utils';
+
+const prisma = new PrismaClient();
+
+// Same switch as processDeployment: Nginx is only managed in production
+const yourPlatformUrl = process.env.YOUR_PLATFORM_URL || null;
+// A scaling claim older than this is left over from an API instance that stopped mid-way, and is taken over
+const STALE_SCALING_CLAIM_MS = 15 * 60 * 1000;
+
+/**
+ * Reserves the project's stable production URL the first time one of its deployments is promoted.
+ * Uses `<project>.<YOUR_PLATFORM_URL>`, or `<project>-<id>.<YOUR_PLATFORM_URL>` if another project already has that name.
+ * @param project The project to reserve a URL for.
+ * @returns The project's production URL (including protocol).
+ */
+async function reserveProductionUrl(project: { id: number; name: string; productionUrl: string | null }): Promise<string> {
+    if (project.productionUrl) {
+        return project.productionUrl;
+    }
+
+    const baseSubdomain = sanitizeForSubdomain(project.name) || 'project';
+    const candidates = [`${baseSubdomain}.${yourPlatformUrl}`, `${baseSubdomain}-${project.id}.${yourPlatformUrl}`];
+    for (const hostname of candidates) {
+        const productionUrl = `https://${hostname}`;
+        try {
+            await prisma.project.update({ where: { id: project.id }, data: { productionUrl } });
+            console.log(`[Release Service] Reserved ${productionUrl} for project ${project.id}.`);
+            return productionUrl;
+        } catch (error: any) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                continue; // Unique constraint on productionUrl: taken by another project
+            }
+            throw error;
+        }
+    }
+    throw new Error(`Could not reserve a production URL for project ${project.id}.`);
+}
+
+/**
+ * Lists the custom domains a project's production site serves.
+ * @param projectId The ID of the project.
+ * @returns The project's verified domains, with certificate paths for those whose certificate is on disk.
+ */
+async function getCustomDomainSites(projectId: number): Promise<CustomDomainSite[]> {
+    const domains = await prisma.domain.findMany({
+        where: { projectId, verifiedAt: { not: null } },
+        orderBy: { domainName: 'asc' },
+    });
+
+    const sites: CustomDomainSite[] = [];
+    for (const domain of domains) {
+        const { certificatePath, keyPath } = getCertificateFilePaths(domain.domainName);
+        // Nginx refuses to start with a missing certificate, so only reference files that exist
+        const hasCertificate = domain.sslCertificateId !== null && (await fs.access(certificatePath).then(() => true, () => false));
+        sites.push(hasCertificate ? { domainName: domain.domainName, certificatePath, keyPath } : { domainName: domain.domainName });
+    }
+    return sites;
+}
+
+/**
+ * Makes a running deployment the one its project serves.
+ * Each of its replicas must pass the project's readiness probe first; until then the previous live deployment
+ * keeps serving the project's production URL. In production the project's Nginx alias is then rewritten
+ * and Nginx reloaded, which switches traffic over without dropping requests.
+ * @param params.projectId The ID of the project.
+ * @param params.deploymentId The ID of the deployment to promote.
+ * @param params.internalPorts The internal ports the deployment's replicas listen on.
+ * @param params.buildOutputPath The deployment's build artifacts (used for static assets).
+ * @param params.logFilePath The deployment's log file.
+ * @param params.healthChecked Skip the readiness probe because the caller just ran it.
+ * @returns The project's production URL, or null in development mode.
+ * @throws Error if the readiness probe fails or the proxy cannot be reconfigured. The live deployment is unchanged in that case.
+ */
+export async function promoteDeployment(params: {
+    projectId: number;
+    deploymentId: number;
+    internalPorts: number[];
+    buildOutputPath: string;
+    logFilePath: string;
+    healthChecked?: boolean;
+}): Promise<string | null> {
+    const { projectId, deploymentId, internalPorts, buildOutputPath, logFilePath, healthChecked } = params;
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project) {
+        throw new Error(`Project ${projectId} not found.`);
+    }
+
+    if (!healthChecked) {
+        for (const port of internalPorts) {
+            await waitForApplicationHealthy(port, deploymentId, { probe: getReadinessProbe(project), logFilePath });
+        }
+    }
+
+    let productionUrl: string | null = null;
+    if (yourPlatformUrl) {
+        productionUrl = await reserveProductionUrl(project);
+        console.log(`[Release Service] Switching ${productionUrl} from deployment ${project.liveDeploymentId ?? 'none'} to ${deploymentId} (port(s) ${internalPorts.join(', ')}).`);
+        const customDomains = await getCustomDomainSites(projectId);
+        await configureNginxForProject(productionUrl, internalPorts, projectId, buildOutputPath, logFilePath, customDomains);
+    }
+
+    await prisma.project.update({ where: { id: projectId }, data: { liveDeploymentId: deploymentId } });
+    console.log(`[Release Service] Project ${projectId} is now serving deployment ${deploymentId}.`);
+    return productionUrl;
+}
+
+/**
+ * Rewrites a project's production site for its current live deployment, e.g. after its custom domains changed.
+ * Does nothing in development mode or before the project's first promotion; the site is written then.
+ * @param projectId The ID of the project.
+ * @throws Error if the proxy cannot be reconfigured.
+ */
+export async function refreshProjectProxy(projectId: number): Promise<void> {
+    if (!yourPlatformUrl) return;
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project?.productionUrl || !project.liveDeploymentId) {
+        console.log(`[Release Service] Project ${projectId} has no live production site yet. Skipping proxy refresh.`);
+        return;
+    }
+    const liveDeployment = await prisma.deployment.findUnique({ where: { id: project.liveDeploymentId } });
+    if (!liveDeployment?.internalPort || !liveDeployment.buildOutputPath) {
+        console.warn(`[Release Service] Live deployment ${project.liveDeploymentId} of project ${projectId} has no port or build output. Skipping proxy refresh.`);
+        return;
+    }
+
+    const logFilePath = liveDeployment.logFilePath || path.join(getDeploymentWorkingDir(liveDeployment.id), `deployment-${liveDeployment.id}.log`);
+    const customDomains = await getCustomDomainSites(projectId);
+    await configureNginxForProject(
+        project.productionUrl,
+        getDeploymentPorts(liveDeployment),
+        projectId,
+        liveDeployment.buildOutputPath,
+        logFilePath,
+        customDomains
+    );
+}
+
+/**
+ * Describes a successful deployment's application for its runtime. Runtime variables and limits are the project's current ones.
+ * @param deployment The deployment. Must have kept its build output.
+ * @throws Error if the deployment has no build output.
+ */
+export async function getDeploymentApplication(deployment: Deployment): Promise<ApplicationSpec> {
+    const { id: deploymentId, projectId } = deployment;
+    if (!deployment.buildOutputPath) {
+        throw new Error(`Deployment ${deploymentId} has no build output to serve.`);
+    }
+    const limits = getProjectLimits((await prisma.project.findUnique({ where: { id: projectId } })) ?? {});
+    return {
+        deploymentId,
+        buildOutputPath: deployment.buildOutputPath,
+        imageName: getDeploymentImageName(projectId, deploymentId),
+        buildType: getBuildType(deployment.dockerfileUsed),
+        env: await getProjectEnvironment(projectId, 'runtime'),
+        limits: { ...limits.runtime, diskMb: limits.diskMb },
+    };
+}
+
+/**
+ * Rewrites the Nginx sites routing to a deployment after its ports changed: its own site, and its
+ * project's production site if it is the live deployment. The deployment record must already hold the new ports.
+ * Does nothing in development mode, where nothing is proxied.
+ * @param deployment The deployment, as it was before its ports changed.
+ * @param internalPorts The ports its replicas listen on now.
+ * @param buildOutputPath Its build artifacts (used for static assets).
+ * @throws Error if the proxy cannot be reconfigured.
+ */
+async function refreshDeploymentProxies(deployment: Deployment, internalPorts: number[], buildOutputPath: string): Promise<void> {
+    if (!yourPlatformUrl) return;
+
+    const { id: deploymentId, projectId } = deployment;
+    if (deployment.deploymentUrl) {
+        // Keep the deployment's own URL working as well
+        const logFilePath = deployment.logFilePath || path.join(getDeploymentWorkingDir(deploymentId), `deployment-${deploymentId}.log`);
+        await configureNginxForDeployment(deployment.deploymentUrl, internalPorts, deploymentId, buildOutputPath, logFilePath);
+    }
+    const project = await prisma.project.findUnique({ where: { id: projectId }, select: { liveDeploymentId: true } });
+    if (project?.liveDeploymentId === deploymentId) {
+        await refreshProjectProxy(projectId);
+    }
+}
+
+/**
+ * Makes sure a successful deployment's application is running, restarting each of its replicas with its runtime
+ * from its kept build output (or image) if it is no longer online. Runtime variables are the project's current ones.
+ * If a replica comes back on another port, the deployment record and its own Nginx site are
+ * updated, and the project's production site too if this is its live deployment.
+ * @param deployment The deployment to serve. Must have kept its build output.
+ * @returns The internal ports the replicas listen on (the first replica's as `internalPort`), and whether any had to be restarted.
+ * @throws Error if the build output is gone or the application cannot be started.
+ */
+export async function ensureDeploymentServing(
+    deployment: Deployment
+): Promise<{ internalPort: number; replicaPorts: number[]; restarted: boolean }> {
+    const { id: deploymentId } = deployment;
+    const application = await getDeploymentApplication(deployment);
+    const previousPorts = getDeploymentPorts(deployment);
+    const { ports, restarted } = await ensureApplicationRunning(application, getDeploymentRuntime(deployment.runtime), previousPorts);
+    const [internalPort, ...replicaPorts] = ports;
+
+    if (ports.join(',') !== previousPorts.join(',')) {
+        console.log(`[Release Service] Deployment ${deploymentId} now listens on port(s) ${ports.join(', ')} (was ${previousPorts.join(', ') || 'none'}).`);
+        await prisma.deployment.update({
+            where: { id: deploymentId },
+            data: {
+                internalPort,
+                replicaPorts,
+                // In development the URL is the port itself
+                ...(yourPlatformUrl ? {} : { deploymentUrl: `http://localhost:${internalPort}` }),
+            },
+        });
+        await refreshDeploymentProxies(deployment, ports, application.buildOutputPath);
+    }
+    return { internalPort, replicaPorts, restarted };
+}
+
+/**
+ * Changes how many replicas a ready deployment runs, without dropping requests.
+ * New replicas start on ports of their own and must pass the project's readiness probe before Nginx
+ * sends them traffic; surplus replicas are stopped only after Nginx was reloaded without them.
+ * Scaling the live deployment also sets the project's replicas, so its next deployments start with as many.
+ * In development mode nothing is proxied, so only the first replica is reachable.
+ * @param deploymentId The ID of the deployment.
+ * @param replicas How many replicas it should run.
+ * @returns The updated deployment.
+ * @throws Error if the number is out of range, the deployment is not running or is being scaled by another
+ *         request, or a new replica does not pass the readiness probe (the new replicas are stopped again and nothing changes).
+ * @throws QuotaExceededError if the replicas together would use more CPUs or memory than the owner's plan allows.
+ */
+export async function scaleDeployment(deploymentId: number, replicas: number): Promise<Deployment> {
+    validateReplicas(replicas);
+    const existing = await prisma.deployment.findUnique({ where: { id: deploymentId }, include: { project: true } });
+    if (!existing) {
+        throw new Error(`Deployment ${deploymentId} not found.`);
+    }
+    validateProjectLimits(getProjectLimits(existing.project), await getUserPlan(existing.project.userId), replicas);
+
+    // Claim the deployment, so concurrent requests (on any API instance) do not both start from the same ports
+    const { count: claimed } = await prisma.deployment.updateMany({
+        where: {
+            id: deploymentId,
+            OR: [{ scalingStartedAt: null }, { scalingStartedAt: { lt: new Date(Date.now() - STALE_SCALING_CLAIM_MS) } }],
+        },
+        data: { scalingStartedAt: new Date() },
+    });
+    if (claimed === 0) {
+        throw new Error(`Deployment ${deploymentId} is already being scaled. Try again once that has finished.`);
+    }
+    try {
+        return await scaleClaimedDeployment(deploymentId, replicas);
+    } finally {
+        await prisma.deployment.update({ where: { id: deploymentId }, data: { scalingStartedAt: null } })
+            .catch((error: any) => console.error(`[Release Service] Could not release the scaling claim of deployment ${deploymentId}:`, error.message));
+    }
+}
+
+/**
+ * Scales a deployment the caller has claimed (see `scaleDeployment`), reading its ports only now that no one else changes them.
+ */
+async function scaleClaimedDeployment(deploymentId: number, replicas: number): Promise<Deployment> {
+    const deployment = await prisma.deployment.findUniqueOrThrow({ where: { id: deploymentId }, include: { project: true } });
+    const currentPorts = getDeploymentPorts(deployment);
+    if (deployment.status !== 'ready' || currentPorts.length === 0) {
+        throw new Error(`Deployment ${deploymentId} is not running and cannot be scaled.`);
+    }
+    const runtime = getDeploymentRuntime(deployment.runtime);
+    const application = await getDeploymentApplication(deployment);
+    const logFilePath = deployment.logFilePath || path.join(getDeploymentWorkingDir(deploymentId), `deployment-${deploymentId}.log`);
+    console.log(`[Release Service] Scaling deployment ${deploymentId} from ${currentPorts.length} to ${replicas} replicas.`);
+
+    // 1. Start the new replicas and wait until they are ready
+    let ports = currentPorts.slice(0, replicas);
+    if (replicas > currentPorts.length) {
+        const newPorts = await startReplicas(application, runtime, currentPorts.length, replicas - currentPorts.length);
+        try {
+            for (const port of newPorts) {
+                await waitForApplicationHealthy(port, deploymentId, { probe: getReadinessProbe(deployment.project), logFilePath });
+            }
+        } catch (error) {
+            for (let replica = currentPorts.length; replica < replicas; replica++) {
+                await stopReplica(deploymentId, runtime, replica);
+            }
+            throw error;
+        }
+        ports = [...currentPorts, ...newPorts];
+    }
+
+    // 2. Point Nginx at exactly the replicas that should run; the reload lets in-flight requests finish
+    const [internalPort, ...replicaPorts] = ports;
+    await prisma.deployment.update({ where: { id: deploymentId }, data: { internalPort, replicaPorts } });
+    await refreshDeploymentProxies(deployment, ports, application.buildOutputPath);
+
+    // 3. Stop the replicas Nginx no longer sends requests to
+    for (let replica = replicas; replica < currentPorts.length; replica++) {
+        await stopReplica(deploymentId, runtime, replica);
+    }
+
+    if (deployment.project.liveDeploymentId === deploymentId) {
+        await prisma.project.update({ where: { id: deployment.projectId }, data: { replicas } });
+    }
+    console.log(`[Release Service] Deployment ${deploymentId} runs ${replicas} replicas on port(s) ${ports.join(', ')}.`);
+    return prisma.deployment.findUniqueOrThrow({ where: { id: deploymentId } });
+}
+
+/**
+ * Points a project back at one of its earlier successful deployments without rebuilding it.
+ * The deployment's replicas are restarted from its kept build output if they are no longer online,
+ * promoted to the project's production URL, and the rollback is recorded as a project event.
+ * @param params.projectId The ID of the project.
+ * @param params.deploymentId The ID of the deployment to roll back to.
+ * @param params.userId The user performing the rollback, recorded on the event.
+ * @returns The deployment that is now live.
+ * @throws Error if the deployment cannot be served again (not successful, build output gone, or unhealthy).
+ */
+export async function rollbackProject(params: { projectId: number; deploymentId: number; userId?: number | null }) {
+    const { projectId, deploymentId, userId } = params;
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project) {
+        throw new Error(`Project ${projectId} not found.`);
+    }
+    const target = await prisma.deployment.findFirst({ where: { id: deploymentId, projectId } });
+    if (!target) {
+        throw new Error(`Deployment ${deploymentId} does not belong to project ${projectId}.`);
+    }
+    if (target.status !== 'ready' || !target.buildOutputPath) {
+        throw new Error(`Deployment ${deploymentId} did not finish successfully and cannot be rolled back to.`);
+    }
+
+    console.log(`[Release Service] Rolling project ${projectId} back to deployment ${deploymentId} (live: ${project.liveDeploymentId ?? 'none'}).`);
+
+    // 1. Make sure the old build is being served
+    const { internalPort, replicaPorts } = await ensureDeploymentServing(target);
+    const logFilePath = target.logFilePath || path.join(getDeploymentWorkingDir(deploymentId), `deployment-${deploymentId}.log`);
+
+    // 2. Switch the project's production URL to the old build
+    await promoteDeployment({
+        projectId,
+        deploymentId,
+        internalPorts: [internalPort, ...replicaPorts],
+        buildOutputPath: target.buildOutputPath,
+        logFilePath,
+    });
+
+    // 3. Record the switch
+    await prisma.projectEvent.create({
+        data: {
+            projectId,
+            type: 'rollback',
+            deploymentId,
+            previousDeploymentId: project.liveDeploymentId,
+            userId: userId ?? null,
+        },
+    });
+
+    return prisma.deployment.findUniqueOrThrow({ where: { id: deploymentId } });
+}
@@ -1,16 +1,50 @@
-import { PrismaClient } from '@prisma/client';
-import { enqueueDeployment } from './deploymentQueue'; 
-import { processDeployment } from './processDeployment';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { createDeployment, cancelDeployment, setMaxConcurrentDeployments } from './deploymentQueue';
+import { cleanUpDeploymentResources } from './processDeployment';
+import { rollbackProject, refreshProjectProxy, scaleDeployment } from './releaseService';
+import {
+  generateVerificationToken,
+  getDomainVerification,
+  normalizeDomainName,
+  verifyDomainOwnership,
+} from './domainService';
+import { issueCertificate, removeCertificate } from './certificateService';
+import {
+  notifyDeploymentStatusChanged,
+  subscribeToDeploymentStatus,
+  tailDeploymentLog,
+} from './deploymentEvents';
+import { readDeploymentLogLines, DeploymentLogStage } from './deploymentLogs';
+import { readRuntimeLogs, followRuntimeLogs } from './runtimeLogService';
+import { getDeploymentHealth } from './healthMonitor';
+import { clearBuildCache, getBuildCacheInfo } from './buildCacheService';
+import { getDeploymentPorts, getReadinessProbe, validateReadinessProbe, validateReplicas } from './servingService';
+import { parseRuntimeName, SELECTABLE_RUNTIMES } from './runtimeDriver';
+import { getProjectLimits, getUserPlan, getUserQuota, QuotaExceededError, validateProjectLimits } from './quotaService';
+import {
+  encryptValue,
+  toPublicEnvironmentVariable,
+  validateEnvironmentVariableKey,
+} from './envService';
+import { isValidGitRef, isValidCommitSha } from './gitService';
+import { generateWebhookSecret } from './webhookService';
 import jwt from 'jsonwebtoken';
 import { URL } from 'url';
 import axios from 'axios';
-import fs from 'fs/promises'
+import path from 'path';
+import { getDeploymentWorkingDir, IN_PROGRESS_DEPLOYMENT_STATUSES } from './utils';
 
 const prisma = new PrismaClient();
 const JWT_SECRET = process.env.JWT_SECRET || 'your_secret_key';
 const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID;
 const GITHUB_CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET;
 
+// Comma-separated user IDs allowed to change platform-wide settings such as queue concurrency
+const ADMIN_USER_IDS = (process.env.ADMIN_USER_IDS || '')
+  .split(',')
+  .map((id) => parseInt(id.trim(), 10))
+  .filter((id) => !Number.isNaN(id));
+
 const resolvers = {
   Query: {
     projects: async (_: any, __: any, { userId }: { userId: number }) => {
@@ -34,8 +68,8 @@ const resolvers = {
             throw new Error('Not authenticated.');
         }
 
-      const project = await prisma.project.findUnique({
-         where: { id: id },
+      const project = await prisma.project.findFirst({
+         where: { id: id, userId: userId },
             include: {
             deployments: true, 
             },
@@ -129,10 +163,18 @@ const resolvers = {
           deploymentUrl: true,
           buildOutputPath: true,
           internalPort: true,
+          replicaPorts: true,
           dockerfileUsed: true,
+          packageManager: true,
+          runtime: true,
           errorMessage: true,
           logFilePath: true,
           createdAt: true,
+          gitRef: true,
+          commitSha: true,
+          commitMessage: true,
+          commitAuthor: true,
+          commitTimestamp: true,
         },
       });
 
@@ -143,34 +185,99 @@ const resolvers = {
       return deployment;
     },
 
-    deploymentLogs : async (_:any, {id}:{id:string}, {userId, prisma}:any) => {
-      if (!userId){
-        throw new Error('Not Authenticated')
+    deploymentLogs: async (
+      _: any,
+      {
+        id,
+        after,
+        limit,
+        stage,
+        search,
+      }: { id: number; after?: number | null; limit?: number | null; stage?: DeploymentLogStage | null; search?: string | null },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
       }
-
-
       const deployment = await prisma.deployment.findFirst({
-        where: {
-          id:id,
-          // userId:userId
-        },
-        select : {logFilePath: true}
-      })
-      
-      if (!deployment || !deployment.logFilePath) {
-        console.log(`Deployment not found or no logs available for deployment: ${id}`)
-        throw new Error('Deployment not found or no logs available.');
-      } 
-      const logFilePath = deployment.logFilePath;
-    
+        where: { id: id, project: { userId: userId } },
+        select: { logFilePath: true },
+      });
+      if (!deployment) {
+        throw new Error('Deployment not found.');
+      }
+      // The log path is only recorded once processing starts; it is always derived from the ID
+      const logFilePath =
+        deployment.logFilePath ||
+        path.join(getDeploymentWorkingDir(id), `deployment-${id}.log`);
+
       try {
-        const logsContent = await fs.readFile(logFilePath, 'utf8');
-        return logsContent;
-      }catch (error: any) {
+        return await readDeploymentLogLines(logFilePath, { after, limit, stage, search });
+      } catch (error: any) {
         console.error(`Failed to read file ${logFilePath} for deployment ${id}:`, error.message);
         throw new Error(`Failed to read log file: ${error.message}`);
       }
-    }
+    },
+
+    runtimeLogs: async (
+      _: any,
+      { deploymentId, since, tail }: { deploymentId: number; since?: string | null; tail?: number | null },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const deployment = await prisma.deployment.findFirst({
+        where: { id: deploymentId, project: { userId: userId } },
+        select: { id: true },
+      });
+      if (!deployment) {
+        throw new Error('Deployment not found.');
+      }
+      return readRuntimeLogs(deploymentId, { since, tail });
+    },
+
+    environmentVariables: async (
+      _: any,
+      { projectId }: { projectId: number },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: userId },
+        include: { environmentVariables: { orderBy: { key: 'asc' } } },
+      });
+      if (!project) {
+        throw new Error('Project not found or access denied.');
+      }
+      return project.environmentVariables.map(toPublicEnvironmentVariable);
+    },
+
+    deploymentHealth: async (
+      _: any,
+      { id, limit }: { id: number; limit?: number | null },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const deployment = await prisma.deployment.findFirst({
+        where: { id: id, project: { userId: userId } },
+        select: { id: true },
+      });
+      if (!deployment) {
+        throw new Error('Deployment not found or access denied.');
+      }
+      return getDeploymentHealth(id, { limit });
+    },
+    quota: async (_: any, __: any, { userId }: any) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      return getUserQuota(userId);
+    },
 
 
   },
@@ -288,12 +395,19 @@ const resolvers = {
 
     createProject: async (
       _: any,
-      { name, gitRepoUrl }: { name: string; gitRepoUrl: string },
+      {
+        name,
+        gitRepoUrl,
+        productionBranch,
+      }: { name: string; gitRepoUrl: string; productionBranch?: string | null },
       { prisma, userId }: any
     ) => {
       if (!userId) {
         throw new Error('Authentication required to create a project.');
       }
+      if (productionBranch && !isValidGitRef(productionBranch)) {
+        throw new Error(`Invalid production branch name: ${productionBranch}`);
+      }
       console.log(
         `Attempting to create project "${name}" from ${gitRepoUrl} for user ${userId}`
       );
@@ -315,7 +429,9 @@ const resolvers = {
         data: {
           name,
           gitRepoUrl,
+          productionBranch: productionBranch || null,
           userId: userId,
+          webhookSecret: generateWebhookSecret(),
         },
       });
 
@@ -334,14 +450,246 @@ const resolvers = {
       return project;
     },
 
+    updateProject: async (
+      _: any,
+      {
+        id,
+        name,
+        productionBranch,
+      }: { id: number; name?: string | null; productionBranch?: string | null },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const project = await prisma.project.findFirst({
+        where: { id: id, userId: userId },
+      });
+      if (!project) {
+        throw new Error('Project not found or access denied.');
+      }
+      if (productionBranch && !isValidGitRef(productionBranch)) {
+        throw new Error(`Invalid production branch name: ${productionBranch}`);
+      }
+
+      return prisma.project.update({
+        where: { id: id },
+        data: {
+          ...(name ? { name } : {}),
+          // An empty string resets the project to the repository default branch
+          ...(productionBranch !== undefined && productionBranch !== null
+            ? { productionBranch: productionBranch || null }
+            : {}),
+        },
+        include: { deployments: true },
+      });
+    },
+
+    updateHealthCheck: async (
+      _: any,
+      {
+        projectId,
+        path,
+        expectedStatus,
+        timeoutMs,
+        retries,
+      }: {
+        projectId: number;
+        path?: string | null;
+        expectedStatus?: number | null;
+        timeoutMs?: number | null;
+        retries?: number | null;
+      },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: userId },
+      });
+      if (!project) {
+        throw new Error('Project not found or access denied.');
+      }
+
+      const current = getReadinessProbe(project);
+      const probe = {
+        path: path ?? current.path,
+        // 0 resets to accepting any status below 500
+        expectedStatus: expectedStatus === 0 ? null : expectedStatus ?? current.expectedStatus,
+        timeoutMs: timeoutMs ?? current.timeoutMs,
+        retries: retries ?? current.retries,
+      };
+      validateReadinessProbe(probe);
+
+      console.log(`Updating health check of project ${projectId} for user ${userId}`);
+      return prisma.project.update({
+        where: { id: projectId },
+        data: {
+          healthCheckPath: probe.path,
+          healthCheckExpectedStatus: probe.expectedStatus,
+          healthCheckTimeoutMs: probe.timeoutMs,
+          healthCheckRetries: probe.retries,
+        },
+        include: { deployments: true },
+      });
+    },
+
+    clearBuildCache: async (_: any, { projectId }: { projectId: number }, { prisma, userId }: any) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: userId },
+        select: { id: true },
+      });
+      if (!project) {
+        throw new Error('Project not found or access denied.');
+      }
+
+      console.log(`Clearing build cache of project ${projectId} for user ${userId}`);
+      await clearBuildCache(projectId);
+      return prisma.project.findUnique({ where: { id: projectId }, include: { deployments: true } });
+    },
+    updateProjectLimits: async (
+      _: any,
+      {
+        projectId,
+        buildCpus,
+        buildMemoryMb,
+        runtimeCpus,
+        runtimeMemoryMb,
+        diskMb,
+      }: {
+        projectId: number;
+        buildCpus?: number | null;
+        buildMemoryMb?: number | null;
+        runtimeCpus?: number | null;
+        runtimeMemoryMb?: number | null;
+        diskMb?: number | null;
+      },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: userId },
+      });
+      if (!project) {
+        throw new Error('Project not found or access denied.');
+      }
+
+      // 0 resets a limit to the platform default
+      const setting = (value: number | null | undefined, current: number | null) => (value === 0 ? null : value ?? current);
+      const settings = {
+        buildCpus: setting(buildCpus, project.buildCpus),
+        buildMemoryMb: setting(buildMemoryMb, project.buildMemoryMb),
+        runtimeCpus: setting(runtimeCpus, project.runtimeCpus),
+        runtimeMemoryMb: setting(runtimeMemoryMb, project.runtimeMemoryMb),
+        diskMb: setting(diskMb, project.diskMb),
+      };
+      validateProjectLimits(getProjectLimits(settings), await getUserPlan(userId), project.replicas);
+
+      console.log(`Updating resource limits of project ${projectId} for user ${userId}`);
+      return prisma.project.update({
+        where: { id: projectId },
+        data: settings,
+        include: { deployments: true },
+      });
+    },
+    updateProjectRuntime: async (
+      _: any,
+      { projectId, runtime }: { projectId: number; runtime?: string | null },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: userId },
+        select: { id: true },
+      });
+      if (!project) {
+        throw new Error('Project not found or access denied.');
+      }
+
+      const selected = runtime ? parseRuntimeName(runtime) : null;
+      if (runtime && (!selected || !SELECTABLE_RUNTIMES.includes(selected))) {
+        throw new Error(`Unknown runtime '${runtime}'. Choose one of: ${SELECTABLE_RUNTIMES.join(', ')}.`);
+      }
+
+      console.log(`Setting runtime of project ${projectId} to ${selected ?? 'the default'} for user ${userId}`);
+      return prisma.project.update({
+        where: { id: projectId },
+        data: { runtime: selected },
+        include: { deployments: true },
+      });
+    },
+
+    updateProjectReplicas: async (
+      _: any,
+      { projectId, replicas }: { projectId: number; replicas: number },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: userId },
+      });
+      if (!project) {
+        throw new Error('Project not found or access denied.');
+      }
+      validateReplicas(replicas);
+      validateProjectLimits(getProjectLimits(project), await getUserPlan(userId), replicas);
+
+      console.log(`Setting replicas of project ${projectId} to ${replicas} for user ${userId}`);
+      return prisma.project.update({
+        where: { id: projectId },
+        data: { replicas },
+        include: { deployments: true },
+      });
+    },
+    regenerateWebhookSecret: async (_: any, { projectId }: { projectId: number }, { prisma, userId }: any) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: userId },
+        select: { id: true },
+      });
+      if (!project) {
+        throw new Error('Project not found or access denied.');
+      }
+
+      // Deliveries signed with the old secret are rejected from now on
+      console.log(`Regenerating the webhook secret of project ${projectId} for user ${userId}`);
+      return prisma.project.update({
+        where: { id: projectId },
+        data: { webhookSecret: generateWebhookSecret() },
+        include: { deployments: true },
+      });
+    },
+
     deployProject: async (
       _: any,
-      { projectId }: { projectId: number },
+      {
+        projectId,
+        ref,
+        commitSha,
+      }: { projectId: number; ref?: string | null; commitSha?: string | null },
       { prisma, userId }: any
     ) => {
       if (!userId) {
         throw new Error('Not authenticated.');
       }
+      if (ref && !isValidGitRef(ref)) {
+        throw new Error(`Invalid Git ref: ${ref}`);
+      }
+      if (commitSha && !isValidCommitSha(commitSha)) {
+        throw new Error(`Invalid commit SHA: ${commitSha}`);
+      }
       console.log(
         `Attempting deployment for project ${projectId} by user ${userId}`
       );
@@ -357,74 +705,23 @@ const resolvers = {
           throw new Error('Project not found or access denied.');
         }
 
-        // 2. Create Deployment Record (pending status)
-        deployment = await prisma.deployment.create({
-          // Assign to declared variable
-          data: {
-            projectId: projectId,
-            status: 'pending',
-            version: 'TBD',
-            deploymentUrl: '',
-            // buildOutputPath and internalPort will be added/updated later
-          },
+        // 2. Create Deployment Record (queued status) and its queue job
+        deployment = await createDeployment(project.id, {
+          gitRef: ref || project.productionBranch,
+          commitSha: commitSha,
         });
         const deploymentId = deployment.id;
         console.log(
           `Created deployment record ${deploymentId} for project ${projectId}`
         );
-        console.log(
-          `Triggering asynchronous deployment process for deployment ${deploymentId}.`
-        );
-
-        // Enqueue the deployment task using the enqueueDeployment function
-        // We wrap the call to processDeployment in an anonymous async function
-        // so it's executed by the worker when concurrency allows.
-        enqueueDeployment(async () => {
-          try {
-            // Call the processDeployment function with necessary parameters
-            await processDeployment({
-              deploymentId: deployment.id,
-              projectId: project.id,
-              userId: userId, // Pass userId for URL generation in async process
-              // projectName: project.name,
-              gitRepoUrl: project.gitRepoUrl,
-              // Pass any other necessary data here
-            });
-          } catch (error) {
-            // This catch block is a fallback in case processDeployment
-            // throws an unhandled error after its own internal catch.
-            // processDeployment should ideally handle all its errors and update DB status.
-            console.error(
-              `[Deployment ${deploymentId}] Unhandled error from processDeployment:`,
-              error
-            );
-            // Optionally update status to failed here if not already done by processDeployment
-            await prisma.deployment
-              .update({
-                where: { id: deploymentId },
-                data: {
-                  status: 'failed',
-                  errorMessage: `Unhandled processing error: ${
-                    error instanceof Error ? error.message : String(error)
-                  }`,
-                },
-              })
-              .catch((dbError: any) =>
-                console.error(
-                  `[Deployment ${deploymentId}] Failed to update status to failed after unhandled error:`,
-                  dbError
-                )
-              );
-          }
-        });
 
         console.log(
           `Asynchronous deployment process triggered for deployment ${deploymentId}.`
         );
 
-        // 3. Immediately return the pending deployment record
+        // 3. Immediately return the queued deployment record
         console.log(
-          `Returning pending deployment record ${deploymentId} to client.`
+          `Returning queued deployment record ${deploymentId} to client.`
         );
         return deployment;
       } catch (error: any) {
@@ -434,7 +731,7 @@ const resolvers = {
         );
 
         // If an error occurred *after* creating the deployment record but before
-        // successfully enqueuing (e.g., enqueueDeployment threw an error),
+        // successfully returning it to the client,
         // update the deployment record status to 'failed'.
         // Check if the `deployment` variable was successfully assigned (meaning the record was created).
         if (typeof deployment !== 'undefined' && deployment !== null) {
@@ -452,13 +749,531 @@ const resolvers = {
                 dbError
               )
             );
+          await notifyDeploymentStatusChanged(deployment.id);
         }
 
         // Re-throw the error so the GraphQL client receives it
+        if (error instanceof QuotaExceededError) {
+          throw error; // Keeps its QUOTA_EXCEEDED code and details
+        }
         throw new Error(`Deployment initiation failed: ${error.message}`);
       }
     },
+
+    redeploy: async (
+      _: any,
+      { deploymentId }: { deploymentId: number },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+
+      const previousDeployment = await prisma.deployment.findFirst({
+        where: { id: deploymentId, project: { userId: userId } },
+        include: { project: true },
+      });
+      if (!previousDeployment) {
+        throw new Error('Deployment not found or access denied.');
+      }
+
+      const project = previousDeployment.project;
+      // Rebuild exactly the same commit when it is known
+      const deployment = await createDeployment(project.id, {
+        gitRef: previousDeployment.gitRef,
+        commitSha: previousDeployment.commitSha,
+      });
+      console.log(
+        `Created deployment record ${deployment.id} as a redeploy of deployment ${deploymentId}`
+      );
+
+      return deployment;
+    },
+
+    deleteDeployment: async (
+      _: any,
+      { deploymentId }: { deploymentId: number },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+
+      const deployment = await prisma.deployment.findFirst({
+        where: { id: deploymentId, project: { userId: userId } },
+        include: { project: true },
+      });
+      if (!deployment) {
+        throw new Error('Deployment not found or access denied.');
+      }
+      if (IN_PROGRESS_DEPLOYMENT_STATUSES.includes(deployment.status)) {
+        throw new Error(
+          `Deployment ${deploymentId} is still ${deployment.status} and cannot be deleted yet.`
+        );
+      }
+      if (deployment.project.liveDeploymentId === deploymentId) {
+        throw new Error(
+          `Deployment ${deploymentId} is live. Roll back to another deployment before deleting it.`
+        );
+      }
+
+      console.log(`Deleting deployment ${deploymentId} for user ${userId}`);
+      await cleanUpDeploymentResources(deployment);
+      await prisma.deployment.delete({ where: { id: deploymentId } });
+      console.log(`Deployment ${deploymentId} deleted.`);
+
+      return deployment;
+    },
+
+    cancelDeployment: async (_: any, { id }: { id: number }, { prisma, userId }: any) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const deployment = await prisma.deployment.findFirst({
+        where: { id: id, project: { userId: userId } },
+        select: { id: true },
+      });
+      if (!deployment) {
+        throw new Error('Deployment not found or access denied.');
+      }
+
+      console.log(`Cancelling deployment ${id} for user ${userId}`);
+      return cancelDeployment(id);
+    },
+
+    rollbackProject: async (
+      _: any,
+      { projectId, deploymentId }: { projectId: number; deploymentId: number },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+
+      const deployment = await prisma.deployment.findFirst({
+        where: { id: deploymentId, projectId: projectId, project: { userId: userId } },
+      });
+      if (!deployment) {
+        throw new Error('Deployment not found or access denied.');
+      }
+      if (deployment.status !== 'ready') {
+        throw new Error(
+          `Deployment ${deploymentId} is ${deployment.status}. Only successful deployments can be rolled back to.`
+        );
+      }
+
+      console.log(`Rolling back project ${projectId} to deployment ${deploymentId} for user ${userId}`);
+      return rollbackProject({ projectId, deploymentId, userId });
+    },
+
+    scaleDeployment: async (
+      _: any,
+      { id, replicas }: { id: number; replicas: number },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const deployment = await prisma.deployment.findFirst({
+        where: { id: id, project: { userId: userId } },
+        select: { id: true, status: true },
+      });
+      if (!deployment) {
+        throw new Error('Deployment not found or access denied.');
+      }
+      if (deployment.status !== 'ready') {
+        throw new Error(`Deployment ${id} is ${deployment.status}. Only successful deployments can be scaled.`);
+      }
+
+      console.log(`Scaling deployment ${id} to ${replicas} replicas for user ${userId}`);
+      return scaleDeployment(id, replicas);
+    },
+
+    addDomain: async (
+      _: any,
+      { projectId, domainName }: { projectId: number; domainName: string },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: userId },
+      });
+      if (!project) {
+        throw new Error('Project not found or access denied.');
+      }
+      const normalizedName = normalizeDomainName(domainName);
+      // Unverified claims do not block others, so a domain cannot be squatted by adding it without proving ownership
+      const verifiedElsewhere = await prisma.domain.findFirst({
+        where: { domainName: normalizedName, verifiedAt: { not: null }, projectId: { not: projectId } },
+        select: { id: true },
+      });
+      if (verifiedElsewhere) {
+        throw new Error(`Domain ${normalizedName} is already in use.`);
+      }
+
+      try {
+        const domain = await prisma.domain.create({
+          data: {
+            projectId,
+            domainName: normalizedName,
+            verificationToken: generateVerificationToken(),
+          },
+        });
+        console.log(`Added domain ${normalizedName} to project ${projectId}`);
+        return domain;
+      } catch (error: any) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw new Error(`Domain ${normalizedName} has already been added to this project.`);
+        }
+        throw error;
+      }
+    },
+
+    verifyDomain: async (
+      _: any,
+      { domainId }: { domainId: number },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const domain = await prisma.domain.findFirst({
+        where: { id: domainId, project: { userId: userId } },
+        include: { project: true },
+      });
+      if (!domain) {
+        throw new Error('Domain not found or access denied.');
+      }
+      if (domain.verifiedAt) {
+        return domain;
+      }
+
+      const cnameTarget = domain.project.productionUrl ? new URL(domain.project.productionUrl).hostname : null;
+      const result = await verifyDomainOwnership(domain, cnameTarget);
+      if (!result.verified) {
+        throw new Error(`Could not verify ${domain.domainName}: ${result.reason}`);
+      }
+
+      let verifiedDomain;
+      try {
+        verifiedDomain = await prisma.domain.update({
+          where: { id: domainId },
+          data: { verifiedAt: new Date() },
+        });
+      } catch (error: any) {
+        // Another project's claim of the same name was verified first (partial unique index on verified domains)
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw new Error(`Domain ${domain.domainName} is already in use by another project.`);
+        }
+        throw error;
+      }
+      console.log(`Verified domain ${domain.domainName} for project ${domain.projectId} (${result.method})`);
+      await refreshProjectProxy(domain.projectId);
+      if (process.env.YOUR_PLATFORM_URL) {
+        // The domain is now served over HTTP, so the ACME challenge can be answered.
+        // Failures are retried by the periodic renewal sweep.
+        issueCertificate(domainId).catch((error: any) =>
+          console.error(`Certificate issuance for ${domain.domainName} failed:`, error.message)
+        );
+      }
+      return verifiedDomain;
+    },
+
+    removeDomain: async (
+      _: any,
+      { domainId }: { domainId: number },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const domain = await prisma.domain.findFirst({
+        where: { id: domainId, project: { userId: userId } },
+      });
+      if (!domain) {
+        throw new Error('Domain not found or access denied.');
+      }
+
+      await prisma.domain.delete({ where: { id: domainId } });
+      console.log(`Removed domain ${domain.domainName} from project ${domain.projectId}`);
+      if (domain.verifiedAt) {
+        await refreshProjectProxy(domain.projectId);
+      }
+      await removeCertificate(domain);
+      return domain;
+    },
+
+    setMaxConcurrentDeployments: async (
+      _: any,
+      { limit }: { limit: number },
+      { userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      if (!ADMIN_USER_IDS.includes(userId)) {
+        throw new Error('Only platform administrators can change deployment concurrency.');
+      }
+      setMaxConcurrentDeployments(limit);
+      return limit;
+    },
+
+    setUserPlan: async (
+      _: any,
+      { userId: targetUserId, plan }: { userId: number; plan?: string | null },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      if (!ADMIN_USER_IDS.includes(userId)) {
+        throw new Error('Only platform administrators can change plans.');
+      }
+      const planRecord = plan ? await prisma.plan.findUnique({ where: { name: plan } }) : null;
+      if (plan && !planRecord) {
+        throw new Error(`Plan '${plan}' does not exist.`);
+      }
+      const user = await prisma.user.findUnique({ where: { id: targetUserId }, select: { id: true } });
+      if (!user) {
+        throw new Error(`User ${targetUserId} not found.`);
+      }
+
+      console.log(`Moving user ${targetUserId} to plan ${plan ?? 'default'} (by user ${userId})`);
+      await prisma.user.update({ where: { id: targetUserId }, data: { planId: planRecord?.id ?? null } });
+      return getUserQuota(targetUserId);
+    },
+
+    createEnvironmentVariable: async (
+      _: any,
+      {
+        projectId,
+        key,
+        value,
+        scope,
+        secret,
+      }: { projectId: number; key: string; value: string; scope?: string; secret?: boolean },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: userId },
+      });
+      if (!project) {
+        throw new Error('Project not found or access denied.');
+      }
+      validateEnvironmentVariableKey(key);
+
+      const existing = await prisma.environmentVariable.findUnique({
+        where: { projectId_key: { projectId, key } },
+      });
+      if (existing) {
+        throw new Error(`Environment variable "${key}" already exists for this project.`);
+      }
+
+      const variable = await prisma.environmentVariable.create({
+        data: {
+          projectId,
+          key,
+          encryptedValue: encryptValue(value),
+          scope: scope ?? 'both',
+          secret: secret ?? true,
+        },
+      });
+      console.log(`Created environment variable ${key} for project ${projectId}`);
+      return toPublicEnvironmentVariable(variable);
+    },
+
+    updateEnvironmentVariable: async (
+      _: any,
+      {
+        id,
+        value,
+        scope,
+        secret,
+      }: { id: number; value?: string | null; scope?: string | null; secret?: boolean | null },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const variable = await prisma.environmentVariable.findFirst({
+        where: { id, project: { userId: userId } },
+      });
+      if (!variable) {
+        throw new Error('Environment variable not found or access denied.');
+      }
+      // Turning a secret into a plain variable would reveal its stored value
+      if (variable.secret && secret === false && (value === undefined || value === null)) {
+        throw new Error('Provide a new value when making a secret variable non-secret.');
+      }
+
+      const updated = await prisma.environmentVariable.update({
+        where: { id },
+        data: {
+          ...(value !== undefined && value !== null ? { encryptedValue: encryptValue(value) } : {}),
+          ...(scope ? { scope } : {}),
+          ...(secret !== undefined && secret !== null ? { secret } : {}),
+        },
+      });
+      console.log(`Updated environment variable ${updated.key} for project ${updated.projectId}`);
+      return toPublicEnvironmentVariable(updated);
+    },
+
+    deleteEnvironmentVariable: async (
+      _: any,
+      { id }: { id: number },
+      { prisma, userId }: any
+    ) => {
+      if (!userId) {
+        throw new Error('Not authenticated.');
+      }
+      const variable = await prisma.environmentVariable.findFirst({
+        where: { id, project: { userId: userId } },
+      });
+      if (!variable) {
+        throw new Error('Environment variable not found or access denied.');
+      }
+      await prisma.environmentVariable.delete({ where: { id } });
+      console.log(`Deleted environment variable ${variable.key} from project ${variable.projectId}`);
+      return toPublicEnvironmentVariable(variable);
+    },
+  },
+  Subscription: {
+    deploymentStatusChanged: {
+      subscribe: async (
+        _: any,
+        { id }: { id: number },
+        { prisma, userId }: any
+      ) => {
+        if (!userId) {
+          throw new Error('Not authenticated.');
+        }
+        const deployment = await prisma.deployment.findFirst({
+          where: { id: id, project: { userId: userId } },
+          select: { id: true },
+        });
+        if (!deployment) {
+          throw new Error('Deployment not found.');
+        }
+        return subscribeToDeploymentStatus(id);
+      },
+      resolve: (deployment: any) => deployment,
+    },
+    deploymentLogAppended: {
+      subscribe: async (
+        _: any,
+        { id, offset }: { id: number; offset?: number | null },
+        { prisma, userId }: any
+      ) => {
+        if (!userId) {
+          throw new Error('Not authenticated.');
+        }
+        const deployment = await prisma.deployment.findFirst({
+          where: { id: id, project: { userId: userId } },
+          select: { id: true, logFilePath: true },
+        });
+        if (!deployment) {
+          throw new Error('Deployment not found.');
+        }
+        // The log path is only recorded once processing starts; it is always derived from the ID
+        const logFilePath =
+          deployment.logFilePath ||
+          path.join(getDeploymentWorkingDir(id), `deployment-${id}.log`);
+        return tailDeploymentLog(id, logFilePath, offset ?? 0);
+      },
+      resolve: (chunk: any) => chunk,
+    },
+    runtimeLogAppended: {
+      subscribe: async (
+        _: any,
+        { deploymentId }: { deploymentId: number },
+        { prisma, userId }: any
+      ) => {
+        if (!userId) {
+          throw new Error('Not authenticated.');
+        }
+        const deployment = await prisma.deployment.findFirst({
+          where: { id: deploymentId, project: { userId: userId } },
+          select: { id: true },
+        });
+        if (!deployment) {
+          throw new Error('Deployment not found.');
+        }
+        return followRuntimeLogs(deploymentId);
+      },
+      resolve: (lines: any) => lines,
+    },
+  },
+  Project: {
+    environmentVariables: async (parent: { id: number; environmentVariables?: any[] }) => {
+      const variables =
+        parent.environmentVariables ??
+        (await prisma.environmentVariable.findMany({
+          where: { projectId: parent.id },
+          orderBy: { key: 'asc' },
+        }));
+      return variables.map(toPublicEnvironmentVariable);
+    },
+    domains: async (parent: { id: number; domains?: any[] }) => {
+      return (
+        parent.domains ??
+        prisma.domain.findMany({
+          where: { projectId: parent.id },
+          orderBy: { createdAt: 'asc' },
+        })
+      );
+    },
+    healthCheck: (parent: any) => getReadinessProbe(parent),
+    buildCache: (parent: any) => getBuildCacheInfo(parent),
+    limits: (parent: any) => {
+      const limits = getProjectLimits(parent);
+      return {
+        buildCpus: limits.build.cpus,
+        buildMemoryMb: limits.build.memoryMb,
+        runtimeCpus: limits.runtime.cpus,
+        runtimeMemoryMb: limits.runtime.memoryMb,
+        diskMb: limits.diskMb,
+      };
+    },
+    events: async (parent: { id: number; events?: any[] }) => {
+      return (
+        parent.events ??
+        prisma.projectEvent.findMany({
+          where: { projectId: parent.id },
+          orderBy: { createdAt: 'desc' },
+        })
+      );
+    },
+  },
+  Deployment: {
+    replicas: (parent: { internalPort: number | null; replicaPorts?: number[] }) =>
+      getDeploymentPorts({ internalPort: parent.internalPort, replicaPorts: parent.replicaPorts ?? [] }).length,
+    replicaPorts: (parent: { replicaPorts?: number[] }) => parent.replicaPorts ?? [],
+    stages: async (parent: { id: number; stages?: any[] }) => {
+      const stages =
+        parent.stages ??
+        (await prisma.deploymentStage.findMany({
+          where: { deploymentId: parent.id },
+          orderBy: { startedAt: 'asc' },
+        }));
+      return stages.map((stage) => ({
+        ...stage,
+        durationMs: stage.finishedAt ? stage.finishedAt.getTime() - stage.startedAt.getTime() : null,
+      }));
+    },
+  },
+  Domain: {
+    verified: (parent: { verifiedAt: Date | null }) => !!parent.verifiedAt,
+    verification: async (parent: { projectId: number; domainName: string; verificationToken: string }) => {
+      const project = await prisma.project.findUnique({ where: { id: parent.projectId } });
+      const cnameTarget = project?.productionUrl ? new URL(project.productionUrl).hostname : null;
+      return getDomainVerification(parent, cnameTarget);
+    },
   },
 };
 
-export default resolvers;
+export default resolvers;
\ No newline at end of file
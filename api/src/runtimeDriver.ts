@@ -0,0 +1,118 @@
+// src/runtimeDriver.ts
+
+import { BuildType } from './buildPresets';
+import { pm2Driver } from './pm2Runtime';
+import { dockerDriver } from './containerRuntime';
+import { fakeDriver } from './fakeRuntime';
+
+// --- Runtime Drivers ---
+// A runtime driver runs deployed applications: 'pm2' runs the extracted build output with the host's
+// Node.js (see pm2Runtime.ts), 'docker' runs the deployment's image as an isolated container
+// (see containerRuntime.ts) and 'fake' answers requests from inside the API process without running
+// anything (see fakeRuntime.ts), so deployments can be processed in tests without PM2 or Docker.
+// A project can choose PM2 or Docker; projects that have not chosen use APP_RUNTIME (PM2 by default).
+// Each deployment records the runtime it was started with, so changing the setting only affects new deployments.
+// A deployment can run several replicas, each its own process or container on its own port (see getInstanceName);
+// logs and metrics without a replica number are those of the whole deployment or of its first replica.
+
+export type RuntimeName = 'pm2' | 'docker' | 'fake';
+
+export const RUNTIME_NAMES: RuntimeName[] = ['pm2', 'docker', 'fake'];
+
+// Runtimes users can choose for their projects
+export const SELECTABLE_RUNTIMES: RuntimeName[] = ['pm2', 'docker'];
+
+// What a deployment needs to be started by any runtime
+export interface ApplicationSpec {
+    deploymentId: number;
+    buildOutputPath: string; // Extracted build artifacts (run by PM2)
+    imageName: string; // The deployment's image (run as a container)
+    buildType: BuildType;
+    env?: { [key: string]: string }; // Project runtime environment variables
+    limits: { cpus: number; memoryMb: number; diskMb: number }; // The project's runtime limits (see getProjectLimits)
+}
+
+export interface RuntimeLogLine {
+    timestamp: string | null;
+    stream: 'stdout' | 'stderr';
+    text: string;
+}
+
+export interface RuntimeMetrics {
+    cpuPercent: number; // Share of one CPU core
+    memoryBytes: number;
+    memoryLimitBytes: number | null; // null if the runtime does not limit memory
+    restarts: number; // Restarts by the runtime itself since the application was started
+    uptimeMs: number | null; // null if the application is not running
+}
+
+export interface RuntimeDriver {
+    name: RuntimeName;
+    start(app: ApplicationSpec, port: number, replica: number): Promise<void>; // Replaces a process or container the replica already has
+    stop(deploymentId: number, replica?: number): Promise<void>; // Every replica without one. A missing process or container is not an error
+    restart(app: ApplicationSpec, port: number, replica: number): Promise<void>;
+    status(deploymentId: number, replica?: number): Promise<string | null>; // 'online' when serving, null if there is nothing to run
+    logs(deploymentId: number, tail: number): Promise<RuntimeLogLine[]>; // Most recent lines of all replicas, oldest first
+    followLogs(deploymentId: number, signal: AbortSignal): AsyncGenerator<RuntimeLogLine[]>; // Batches of new lines of all replicas, from now on, until aborted
+    metrics(deploymentId: number, replica?: number): Promise<RuntimeMetrics | null>; // null if there is nothing running
+}
+
+/**
+ * Names the process or container of one of a deployment's replicas: `deploy-<id>` for the first,
+ * so deployments started before replicas keep their name, and `deploy-<id>-<replica>` for the others.
+ * @param deploymentId The ID of the deployment.
+ * @param replica The replica's number, from 0.
+ */
+export const getInstanceName = (deploymentId: number, replica: number = 0): string =>
+    replica === 0 ? `deploy-${deploymentId}` : `deploy-${deploymentId}-${replica}`;
+
+const runtimeDrivers = new Map<RuntimeName, RuntimeDriver>([
+    ['pm2', pm2Driver],
+    ['docker', dockerDriver],
+    ['fake', fakeDriver],
+]);
+
+/**
+ * Reads a runtime name from configuration or user input.
+ * @returns The runtime, or null if the value does not name one.
+ */
+export const parseRuntimeName = (value: string | null | undefined): RuntimeName | null =>
+    RUNTIME_NAMES.find((name) => name === value) ?? null;
+
+// Runtime of projects that have not chosen one
+export const DEFAULT_RUNTIME: RuntimeName = parseRuntimeName(process.env.APP_RUNTIME) ?? 'pm2';
+
+/**
+ * Replaces the driver of a runtime, e.g. with a test double.
+ * @param driver The driver; its `name` is the runtime it serves.
+ */
+export function registerRuntimeDriver(driver: RuntimeDriver): void {
+    runtimeDrivers.set(driver.name, driver);
+}
+
+/**
+ * Looks up the driver of a runtime.
+ * @throws Error if no driver is registered for it.
+ */
+export function getRuntimeDriver(runtime: RuntimeName): RuntimeDriver {
+    const driver = runtimeDrivers.get(runtime);
+    if (!driver) {
+        throw new Error(`No driver registered for runtime '${runtime}'.`);
+    }
+    return driver;
+}
+
+/**
+ * Works out which runtime starts a project's new deployments.
+ * @param project The project's `runtime` setting (null to use the default).
+ */
+export const resolveProjectRuntime = (project: { runtime?: string | null } | null): RuntimeName =>
+    parseRuntimeName(project?.runtime) ?? DEFAULT_RUNTIME;
+
+/**
+ * Reads which runtime a deployment was started with.
+ * @param recorded The deployment's `runtime` column (null for deployments from before runtimes were recorded, all PM2).
+ */
+export const getDeploymentRuntime = (recorded: string | null | undefined): RuntimeName =>
+    parseRuntimeName(recorded) ?? 'pm2';
+// --- End Runtime Drivers ---
@@ -0,0 +1,140 @@
+// src/runtimeLogService.ts
+
+import { PrismaClient } from '@prisma/client';
+import fs from 'fs/promises';
+import { getDeploymentRuntime, getRuntimeDriver, RuntimeLogLine } from './runtimeDriver';
+import { reopenApplicationLogs } from './pm2Runtime';
+import { getRuntimeLogPaths } from './utils';
+
+const prisma = new PrismaClient();
+
+// --- Runtime Logs ---
+// Each deployment's runtime driver reads its output: PM2 writes stdout and stderr to files of its own
+// (see getRuntimeLogPaths), Docker keeps and rotates the output of containers itself.
+// PM2's files are rotated here by size: `runtime-out.log` -> `runtime-out.log.1` -> ... .
+
+const RUNTIME_LOG_MAX_BYTES = parseInt(process.env.RUNTIME_LOG_MAX_BYTES || '', 10) || 10 * 1024 * 1024;
+const RUNTIME_LOG_RETAINED_FILES = parseInt(process.env.RUNTIME_LOG_RETAINED_FILES || '', 10) || 3;
+const ROTATION_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_TAIL_LINES = 200;
+const MAX_TAIL_LINES = 5000;
+
+let rotationTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Looks up the driver of the runtime a deployment was started with.
+ */
+async function getDeploymentDriver(deploymentId: number) {
+    const deployment = await prisma.deployment.findUnique({ where: { id: deploymentId }, select: { runtime: true } });
+    return getRuntimeDriver(getDeploymentRuntime(deployment?.runtime));
+}
+
+/**
+ * Reads a deployment's recent runtime output, stdout and stderr merged in time order.
+ * @param deploymentId The ID of the deployment.
+ * @param options.since Only return lines written at or after this time (ISO 8601).
+ * @param options.tail Return at most this many of the most recent lines (default 200, at most 5000).
+ * @returns The lines, oldest first. Empty if the deployment has not produced any output.
+ * @throws Error if `since` is not a valid date.
+ */
+export async function readRuntimeLogs(
+    deploymentId: number,
+    options: { since?: string | null; tail?: number | null } = {}
+): Promise<RuntimeLogLine[]> {
+    const tail = Math.min(Math.max(1, options.tail ?? DEFAULT_TAIL_LINES), MAX_TAIL_LINES);
+    const since = options.since ? new Date(options.since) : null;
+    if (since && Number.isNaN(since.getTime())) {
+        throw new Error(`Invalid date for since: ${options.since}`);
+    }
+
+    const lines = await (await getDeploymentDriver(deploymentId)).logs(deploymentId, tail);
+    const sinceIso = since?.toISOString();
+    const filtered = sinceIso ? lines.filter((line) => line.timestamp !== null && line.timestamp >= sinceIso) : lines;
+    return filtered.slice(-tail);
+}
+
+/**
+ * Streams a deployment's runtime output as it is written, starting from now.
+ * Yields batches of lines until the subscriber goes away. A generator's return() waits for its next
+ * yield, which may never come for an idle application, so return() here first aborts the driver's wait.
+ * @param deploymentId The ID of the deployment.
+ */
+export function followRuntimeLogs(deploymentId: number): AsyncIterableIterator<RuntimeLogLine[]> {
+    const abortController = new AbortController();
+    const lines = (async function* () {
+        yield* (await getDeploymentDriver(deploymentId)).followLogs(deploymentId, abortController.signal);
+    })();
+
+    return {
+        next: () => lines.next(),
+        return: async () => {
+            abortController.abort();
+            return lines.return(undefined);
+        },
+        [Symbol.asyncIterator]() {
+            return this;
+        },
+    };
+}
+
+/**
+ * Renames a log file that has grown past the size limit, shifting older rotations up
+ * and dropping the oldest. PM2 must reopen its files afterwards.
+ * @returns True if the file was rotated.
+ */
+async function rotateLogFile(filePath: string): Promise<boolean> {
+    const size = await fs.stat(filePath).then((stats) => stats.size, () => 0);
+    if (size < RUNTIME_LOG_MAX_BYTES) {
+        return false;
+    }
+
+    await fs.rm(`${filePath}.${RUNTIME_LOG_RETAINED_FILES}`, { force: true });
+    for (let index = RUNTIME_LOG_RETAINED_FILES - 1; index >= 1; index--) {
+        await fs.rename(`${filePath}.${index}`, `${filePath}.${index + 1}`).catch(() => undefined);
+    }
+    await fs.rename(filePath, `${filePath}.1`);
+    return true;
+}
+
+/**
+ * Rotates the log files of all PM2 deployments that may still be running, then has PM2 reopen them.
+ * A failure for one deployment is logged and retried on the next sweep.
+ */
+export async function rotateRuntimeLogs(): Promise<void> {
+    const deployments = await prisma.deployment.findMany({
+        where: { status: 'ready', OR: [{ runtime: 'pm2' }, { runtime: null }] },
+        select: { id: true },
+    });
+
+    let rotated = false;
+    for (const deployment of deployments) {
+        const { outputPath, errorPath } = getRuntimeLogPaths(deployment.id);
+        for (const filePath of [outputPath, errorPath]) {
+            try {
+                if (await rotateLogFile(filePath)) {
+                    console.log(`[Runtime Logs] Rotated ${filePath}.`);
+                    rotated = true;
+                }
+            } catch (error: any) {
+                console.error(`[Runtime Logs] Could not rotate ${filePath}:`, error.message);
+            }
+        }
+    }
+
+    if (rotated) {
+        await reopenApplicationLogs();
+    }
+}
+
+/**
+ * Runs a rotation sweep now and then periodically. Call once at API startup.
+ */
+export function startRuntimeLogRotation(): void {
+    if (rotationTimer) return;
+
+    const sweep = () =>
+        rotateRuntimeLogs().catch((error: any) => console.error('[Runtime Logs] Rotation sweep failed:', error.message));
+    rotationTimer = setInterval(sweep, ROTATION_INTERVAL_MS);
+    setImmediate(sweep);
+}
+// --- End Runtime Logs ---
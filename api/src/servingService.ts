@@ -1,204 +1,108 @@
-import * as net from 'net';
-import path from 'path';
-import pm2 from 'pm2';
 import fs from 'fs/promises'; // Using fs/promises for async file checks
+import axios from 'axios';
+import { appendDeploymentLog } from './deploymentLogs';
+import { ApplicationSpec, getRuntimeDriver, RUNTIME_NAMES, RuntimeName } from './runtimeDriver';
+import { leasePort, releasePort } from './portRegistry';
 
-// Define a port range for deployments
-const DEPLOYMENT_PORT_RANGE_START = 4001;
-const DEPLOYMENT_PORT_RANGE_END = 4999;
+// Most replicas one deployment can run, each on its own port
+export const MAX_REPLICAS = parseInt(process.env.MAX_REPLICAS || '', 10) || 10;
+
+// Readiness probe a deployment must pass before it is promoted to its project's production URL.
+// Projects can override everything but the interval (see ReadinessProbe).
+const HEALTH_CHECK_ATTEMPTS = 15;
+const HEALTH_CHECK_INTERVAL_MS = 2000;
+const HEALTH_CHECK_REQUEST_TIMEOUT_MS = 5000;
+// How much of a failing response's body is written to the deployment log
+const HEALTH_CHECK_BODY_EXCERPT_LENGTH = 500;
+
+export interface ReadinessProbe {
+    path: string; // Request path, e.g. '/' or '/api/health'
+    expectedStatus: number | null; // Status code the application must answer with; null accepts anything below 500
+    timeoutMs: number; // Timeout of each request
+    retries: number; // Attempts before the application is considered unhealthy
+}
+
+export const DEFAULT_READINESS_PROBE: ReadinessProbe = {
+    path: '/',
+    expectedStatus: null,
+    timeoutMs: HEALTH_CHECK_REQUEST_TIMEOUT_MS,
+    retries: HEALTH_CHECK_ATTEMPTS,
+};
 
 /**
- * Finds an available port within the defined range by attempting to listen on it.
- * @param startPort The starting port to check.
- * @param endPort The ending port to check.
- * @returns A promise that resolves with a free port number.
- * @throws Error if no free ports are found in the range.
+ * Lists the ports of a deployment's replicas, the first replica's first.
+ * @param deployment The deployment's `internalPort` (first replica) and `replicaPorts` (the others).
+ * @returns The ports, or an empty list if the deployment has not been started.
  */
-async function findFreePort(startPort: number, endPort: number): Promise<number> {
-    console.log(`[Serving Service] Finding free port between ${startPort} and ${endPort}`);
-    for (let port = startPort; port <= endPort; port++) {
-        const isPortFree = await new Promise<boolean>((resolve) => {
-            const server = net.createServer();
-            server.once('error', (err: any) => {
-                server.close(); // Ensure server is closed on error
-                if (err.code === 'EADDRINUSE' || err.code === 'EACCES') {
-                    resolve(false); // Port is in use or not accessible
-                } else {
-                    // Log unexpected errors but treat port as not free
-                    console.warn(`[Serving Service] Unexpected error checking port ${port}: ${err.message}`);
-                    resolve(false);
-                }
-            });
-            server.once('listening', () => {
-                server.close(() => resolve(true)); // Port is free, close server then resolve
-            });
-
-            // Timeout for the port check
-            const timeout = setTimeout(() => {
-                server.close(); // Close the server if it takes too long
-                console.warn(`[Serving Service] Timeout checking port ${port}`);
-                resolve(false); // Consider the port not free on timeout
-            }, 250); // Increased timeout slightly
-
-            server.once('close', () => {
-                clearTimeout(timeout); // Clear the timeout if the server closes
-            });
-
-            server.listen({ port: port, host: '127.0.0.1' }); // Listen only on localhost for the check
-        });
+export const getDeploymentPorts = (deployment: { internalPort: number | null; replicaPorts: number[] }): number[] =>
+    deployment.internalPort ? [deployment.internalPort, ...deployment.replicaPorts] : [];
 
-        if (isPortFree) {
-            console.log(`[Serving Service] Found free port: ${port}`);
-            return port; // Return the first free port found
-        }
+/**
+ * Checks a number of replicas.
+ * @throws Error if it is not a whole number between 1 and MAX_REPLICAS.
+ */
+export function validateReplicas(replicas: number): void {
+    if (!Number.isInteger(replicas) || replicas < 1 || replicas > MAX_REPLICAS) {
+        throw new Error(`Replicas must be between 1 and ${MAX_REPLICAS}: ${replicas}`);
     }
-    // If the loop completes without finding a free port, throw an error
-    throw new Error(`[Serving Service] No free ports found in range ${startPort}-${endPort}`);
 }
 
 /**
- * Starts the Next.js application process using PM2.
- * Adapts the start command based on the Next.js build type ('standalone' or 'classic').
- * @param buildOutputPath The path to the extracted build artifacts.
- * @param port The internal port the application should listen on.
- * @param deploymentId The ID of the deployment for naming the PM2 process.
- * @param buildType Indicates if it's a 'standalone' or 'classic' Next.js build.
- * @returns A promise that resolves when PM2 has successfully started the process.
- * @throws Error if PM2 fails to start the process or prerequisites are missing.
+ * Starts replicas of a deployment, each on a port leased from the port registry.
+ * If one fails to start, it and those this call already started are stopped again and their ports released.
+ * @param app The deployment to start.
+ * @param runtime The runtime to start it with.
+ * @param firstReplica Number of the first replica to start; the replicas before it are left alone.
+ * @param count How many replicas to start.
+ * @returns The ports of the started replicas, in order.
+ * @throws Error if leasing a port or starting a replica fails.
  */
-async function startApplicationWithPm2(
-    buildOutputPath: string,
-    port: number,
-    deploymentId: number,
-    buildType: 'standalone' | 'classic'
-): Promise<void> {
-    const processName = `deploy-${deploymentId}`; // PM2 process name
-    let scriptToRun: string; // The command or script PM2 will execute
-    let pm2Args: string[] | undefined; // Arguments for the script, if any
-
-    console.log(`[Serving Service] Preparing to start application for deployment ${deploymentId} (type: ${buildType}) using PM2.`);
-
-    if (buildType === 'standalone') {
-        scriptToRun = path.join(buildOutputPath, 'server.js'); // Standard entry for Next.js standalone
-        try {
-            await fs.access(scriptToRun, fs.constants.F_OK); // Check if server.js exists
-            console.log(`[Serving Service] Standalone entry point '${scriptToRun}' found.`);
-        } catch (error) {
-            console.error(`[Serving Service] Standalone entry point 'server.js' not found at: ${scriptToRun}`);
-            throw new Error(`Application entry point 'server.js' not found at expected path for standalone build: ${scriptToRun}`);
+export async function startReplicas(app: ApplicationSpec, runtime: RuntimeName, firstReplica: number, count: number): Promise<number[]> {
+    const { deploymentId } = app;
+    const driver = getRuntimeDriver(runtime);
+    const ports: number[] = [];
+    try {
+        for (let replica = firstReplica; replica < firstReplica + count; replica++) {
+            const port = await leasePort(deploymentId, replica);
+            console.log(`[Serving Service] Assigned internal port ${port} to replica ${replica} of deployment ${deploymentId}.`);
+            await driver.start(app, port, replica);
+            ports.push(port);
         }
-    } else { // 'classic' build type
-        // For classic 'next start', PM2 executes 'next' (or a path to it) with 'start' as an argument.
-        // Prerequisites: package.json and .next folder must exist in buildOutputPath.
-        scriptToRun = 'node_modules/.bin/next'; // Path to 'next' executable within node_modules
-        pm2Args = ['start'];                  // Argument for the 'next' command
-
-        const packageJsonPath = path.join(buildOutputPath, 'package.json');
-        const dotNextPath = path.join(buildOutputPath, '.next');
-        try {
-            await fs.access(packageJsonPath, fs.constants.F_OK); // Check for package.json
-            await fs.access(dotNextPath, fs.constants.F_OK);     // Check for .next directory
-            console.log(`[Serving Service] Prerequisites for 'next start' (package.json, .next folder) found in '${buildOutputPath}'.`);
-            console.log(`[Serving Service] PM2 will run: script='${scriptToRun}', args='${pm2Args.join(' ')}'`);
-        } catch (error: any) {
-            console.error(`[Serving Service] Required files for 'next start' (package.json or .next folder) not found in '${buildOutputPath}': ${error.message}`);
-            throw new Error(`Classic Next.js build output is incomplete in '${buildOutputPath}'. Cannot find package.json or .next folder.`);
+        return ports;
+    } catch (error) {
+        // The started replicas, and the one that failed
+        for (let replica = firstReplica; replica < firstReplica + Math.min(count, ports.length + 1); replica++) {
+            await driver.stop(deploymentId, replica)
+                .then(() => releasePort(deploymentId, replica))
+                .catch((stopError: any) =>
+                    console.error(`[Serving Service] Could not stop replica ${replica} of deployment ${deploymentId}:`, stopError.message)
+                );
         }
+        throw error;
     }
-
-    // Configuration for PM2 start
-    const pm2Config: pm2.StartOptions = {
-        script: scriptToRun,
-        args: pm2Args, // Arguments for the script (e.g., 'start' for 'next')
-        name: processName,
-        cwd: buildOutputPath, // Set working directory for the PM2 process
-        env: {
-            PORT: port.toString(), // Pass the assigned port as an environment variable
-            NODE_ENV: 'production', // Ensure production environment for Next.js
-            // Add other necessary runtime environment variables here if needed
-        },
-        watch: false, // Do not watch files for changes in production deployments
-        instances: 1, // Run a single instance of the application
-        exec_mode: 'fork', // Suitable for both 'node server.js' and 'next start'
-        // Optional: Log file configuration for PM2 managed logs (can be useful for debugging PM2 itself)
-        // output: path.join(buildOutputPath, `../pm2-out-${deploymentId}.log`), // Log outside buildOutput
-        // error: path.join(buildOutputPath, `../pm2-error-${deploymentId}.log`),
-        // merge_logs: true,
-        // pid: path.join(buildOutputPath, `../pm2-pid-${deploymentId}.pid`),
-    };
-
-    console.log(`[Serving Service] Connecting to PM2 daemon to start process '${processName}' on port ${port}...`);
-    console.log(`[Serving Service] PM2 start configuration:`, JSON.stringify(pm2Config, null, 2));
-
-    return new Promise<void>((resolve, reject) => {
-        pm2.connect((connectErr) => {
-            if (connectErr) {
-                console.error('[Serving Service] Error connecting to PM2 daemon:', connectErr);
-                return reject(new Error(`Failed to connect to PM2 daemon: ${connectErr.message}`));
-            }
-            console.log('[Serving Service] Successfully connected to PM2 daemon.');
-
-            // It's good practice to delete any existing process with the same name before starting
-            pm2.delete(processName, (deleteErr) => {
-                if (deleteErr && !deleteErr.message.toLowerCase().includes("doesn't exist") && !deleteErr.message.toLowerCase().includes("not found")) {
-                    // Log error if it's not "process not found"
-                    console.warn(`[Serving Service] PM2 delete warning for '${processName}': ${deleteErr.message}. Proceeding with start...`);
-                } else if (deleteErr) {
-                    console.log(`[Serving Service] PM2 process '${processName}' not found or already deleted. Proceeding with start...`);
-                } else {
-                    console.log(`[Serving Service] Successfully deleted existing PM2 process '${processName}' (if any).`);
-                }
-
-                // Start the new process
-                pm2.start(pm2Config, (startErr, apps) => {
-                    pm2.disconnect(); // Disconnect from PM2 after the start attempt
-                    if (startErr) {
-                        console.error(`[Serving Service] Failed to start PM2 process '${processName}':`, startErr);
-                        return reject(new Error(`Failed to start application process '${processName}' with PM2: ${startErr.message}`));
-                    }
-                    // @ts-ignore
-                    if (!apps || apps.length === 0 || !apps[0]?.pm2_env?.status || apps[0].pm2_env.status !== 'online') {
-                      // @ts-ignore
-                        const appStatus = apps && apps[0]?.pm2_env?.status ? apps[0].pm2_env.status : 'unknown';
-                        console.error(`[Serving Service] PM2 started process '${processName}', but it's not 'online' (status: ${appStatus}). Check PM2 logs for details.`);
-                        // You might want to check `pm2 logs ${processName}` for application errors.
-                        return reject(new Error(`PM2 process '${processName}' started but is not online (status: ${appStatus}). Check PM2 logs.`));
-                    }
-                    // @ts-ignore
-                    console.log(`[Serving Service] PM2 process '${processName}' (PM2 ID: ${apps[0]?.pm_id}) started successfully and is online.`);
-                    resolve();
-                });
-            });
-        });
-    });
 }
 
 /**
- * Orchestrates finding a free port and starting the application process using PM2.
+ * Orchestrates leasing ports and starting the application's replicas with the given runtime.
  * This is the main function to be called by the deployment orchestrator.
- * @param buildOutputPath The path to the extracted build artifacts on the host.
- * @param deploymentId The ID of the deployment.
- * @param options Options including the `buildType` ('standalone' | 'classic').
- * @returns A promise resolving with an object containing the assigned `internalPort`.
- * @throws Error if finding a port or starting the PM2 process fails.
+ * @param app The deployment to start.
+ * @param runtime The runtime to start it with.
+ * @param replicas How many replicas to run (default 1).
+ * @returns A promise resolving with the `internalPort` of the first replica and the `replicaPorts` of the others.
+ * @throws Error if leasing a port or starting the application fails.
  */
 export async function startApplication(
-    buildOutputPath: string,
-    deploymentId: number,
-    options: { buildType: 'standalone' | 'classic' }
-): Promise<{ internalPort: number }> {
+    app: ApplicationSpec,
+    runtime: RuntimeName,
+    replicas: number = 1
+): Promise<{ internalPort: number; replicaPorts: number[] }> {
+    const { deploymentId } = app;
     try {
-        console.log(`[Serving Service] Starting application serving logic for deployment ${deploymentId} (type: ${options.buildType})...`);
-        // 1. Find a free port for this application instance
-        const port = await findFreePort(DEPLOYMENT_PORT_RANGE_START, DEPLOYMENT_PORT_RANGE_END);
-        console.log(`[Serving Service] Assigned internal port ${port} for deployment ${deploymentId}.`);
-
-        // 2. Start the application process using PM2, passing the buildType
-        await startApplicationWithPm2(buildOutputPath, port, deploymentId, options.buildType);
-        console.log(`[Serving Service] Application process for deployment ${deploymentId} (type: ${options.buildType}) started successfully via PM2 on port ${port}.`);
+        console.log(`[Serving Service] Starting application serving logic for deployment ${deploymentId} (type: ${app.buildType}, runtime: ${runtime}, replicas: ${replicas})...`);
+        const [internalPort, ...replicaPorts] = await startReplicas(app, runtime, 0, replicas);
+        console.log(`[Serving Service] Application for deployment ${deploymentId} (type: ${app.buildType}) started successfully via ${runtime} on port(s) ${[internalPort, ...replicaPorts].join(', ')}.`);
 
-        // Return the assigned internal port
-        return { internalPort: port };
+        return { internalPort, replicaPorts };
 
     } catch (error: any) {
         console.error(`[Serving Service] Error during application serving setup for deployment ${deploymentId}:`, error.message, error.stack);
@@ -206,3 +110,213 @@ export async function startApplication(
         throw new Error(`Failed during application serving setup for deployment ${deploymentId}: ${error.message}`);
     }
 }
+
+/**
+ * Stops and removes a deployment's application.
+ * A missing process or container is not treated as an error, so this is safe to call during cleanup.
+ * @param deploymentId The ID of the deployment whose application should be removed.
+ * @param runtime The runtime it was started with. Without it, it is removed from every runtime.
+ * @returns A promise that resolves once nothing of the application runs any more.
+ * @throws Error if a runtime cannot be reached or the removal fails for another reason.
+ */
+export async function stopApplication(deploymentId: number, runtime?: RuntimeName): Promise<void> {
+    for (const name of runtime ? [runtime] : RUNTIME_NAMES) {
+        await getRuntimeDriver(name).stop(deploymentId);
+    }
+}
+
+/**
+ * Stops and removes one of a deployment's replicas and releases its port. A missing process or container is not an error.
+ * @param deploymentId The ID of the deployment.
+ * @param runtime The runtime it was started with.
+ * @param replica The replica to remove.
+ * @throws Error if the runtime cannot be reached or the removal fails for another reason.
+ */
+export async function stopReplica(deploymentId: number, runtime: RuntimeName, replica: number): Promise<void> {
+    console.log(`[Serving Service] Stopping replica ${replica} of deployment ${deploymentId} (${runtime}).`);
+    await getRuntimeDriver(runtime).stop(deploymentId, replica);
+    await releasePort(deploymentId, replica);
+}
+
+/**
+ * Restarts one of a deployment's replicas on the port it runs on, e.g. when it is online but no longer answers.
+ * @param app The deployment to restart.
+ * @param runtime The runtime it was started with.
+ * @param port The port the replica listens on.
+ * @param replica The replica to restart (the first by default).
+ * @throws Error if the runtime cannot be reached or the replica does not start again.
+ */
+export async function restartApplication(app: ApplicationSpec, runtime: RuntimeName, port: number, replica: number = 0): Promise<void> {
+    console.log(`[Serving Service] Restarting replica ${replica} of deployment ${app.deploymentId} with ${runtime} on port ${port}.`);
+    await getRuntimeDriver(runtime).restart(app, port, replica);
+}
+
+/**
+ * Reads the status of one of a deployment's replicas.
+ * @param deploymentId The ID of the deployment.
+ * @param runtime The runtime it was started with.
+ * @param replica The replica to read (the first by default).
+ * @returns 'online' if it is serving, otherwise the runtime's status (e.g. PM2's 'errored', Docker's 'exited'),
+ *          or null if the runtime has no process or container for it.
+ * @throws Error if the runtime cannot be reached.
+ */
+export async function getApplicationStatus(deploymentId: number, runtime: RuntimeName, replica: number = 0): Promise<string | null> {
+    return getRuntimeDriver(runtime).status(deploymentId, replica);
+}
+
+/**
+ * Makes sure a previously built deployment is being served, restarting each replica from its build output
+ * (or image) whose process or container is gone or not online. Used for rollbacks, so it never rebuilds.
+ * @param app The deployment to serve.
+ * @param runtime The runtime it was started with.
+ * @param preferredPorts The ports the deployment's replicas last used (see getDeploymentPorts). Empty to run one replica.
+ *        A replica whose port is leased gets that port back; one without a lease (started before leases were recorded)
+ *        leases its old port if no one else has.
+ * @returns The internal ports the replicas are listening on, in order, and whether any had to be restarted.
+ * @throws Error if the build output is missing or a replica cannot be started.
+ */
+export async function ensureApplicationRunning(
+    app: ApplicationSpec,
+    runtime: RuntimeName,
+    preferredPorts: number[] = []
+): Promise<{ ports: number[]; restarted: boolean }> {
+    const { deploymentId, buildOutputPath } = app;
+    const ports: number[] = [];
+    let restarted = false;
+
+    for (let replica = 0; replica < Math.max(1, preferredPorts.length); replica++) {
+        const preferredPort = preferredPorts[replica];
+        const status = await getApplicationStatus(deploymentId, runtime, replica);
+        if (status === 'online' && preferredPort) {
+            ports.push(preferredPort);
+            continue;
+        }
+
+        console.log(`[Serving Service] Replica ${replica} of deployment ${deploymentId} is not online (status: ${status ?? 'not found'}). Restarting it with ${runtime}.`);
+        if (!restarted) {
+            try {
+                await fs.access(buildOutputPath);
+            } catch {
+                throw new Error(`Build output for deployment ${deploymentId} no longer exists at ${buildOutputPath}.`);
+            }
+        }
+
+        // The lease keeps the old port when possible, so existing proxy configuration stays valid
+        const port = await leasePort(deploymentId, replica, preferredPort);
+        await getRuntimeDriver(runtime).start(app, port, replica);
+        ports.push(port);
+        restarted = true;
+    }
+
+    if (!restarted) {
+        console.log(`[Serving Service] Deployment ${deploymentId} is already online on port(s) ${ports.join(', ')}.`);
+    }
+    return { ports, restarted };
+}
+
+/**
+ * Builds a project's readiness probe from its settings, filling in defaults for those not set.
+ * @param project The project's health check settings.
+ */
+export function getReadinessProbe(project: {
+    healthCheckPath?: string | null;
+    healthCheckExpectedStatus?: number | null;
+    healthCheckTimeoutMs?: number | null;
+    healthCheckRetries?: number | null;
+}): ReadinessProbe {
+    return {
+        path: project.healthCheckPath || DEFAULT_READINESS_PROBE.path,
+        expectedStatus: project.healthCheckExpectedStatus ?? DEFAULT_READINESS_PROBE.expectedStatus,
+        timeoutMs: project.healthCheckTimeoutMs ?? DEFAULT_READINESS_PROBE.timeoutMs,
+        retries: project.healthCheckRetries ?? DEFAULT_READINESS_PROBE.retries,
+    };
+}
+
+/**
+ * Checks that readiness probe settings are usable.
+ * @param probe The settings to check.
+ * @throws Error describing the first invalid setting.
+ */
+export function validateReadinessProbe(probe: ReadinessProbe): void {
+    if (!probe.path.startsWith('/') || /\s/.test(probe.path)) {
+        throw new Error(`Health check path must start with '/' and contain no spaces: ${probe.path}`);
+    }
+    if (probe.expectedStatus !== null && (!Number.isInteger(probe.expectedStatus) || probe.expectedStatus < 100 || probe.expectedStatus > 599)) {
+        throw new Error(`Expected health check status must be an HTTP status code (100-599): ${probe.expectedStatus}`);
+    }
+    if (!Number.isInteger(probe.timeoutMs) || probe.timeoutMs < 100 || probe.timeoutMs > 60_000) {
+        throw new Error(`Health check timeout must be between 100 and 60000 ms: ${probe.timeoutMs}`);
+    }
+    if (!Number.isInteger(probe.retries) || probe.retries < 1 || probe.retries > 100) {
+        throw new Error(`Health check retries must be between 1 and 100: ${probe.retries}`);
+    }
+}
+
+/**
+ * Sends one request of a readiness probe to an application.
+ * @param internalPort The port the application listens on.
+ * @param probe The probe to run.
+ * @returns `problem` is null if the application answered as expected, otherwise what went wrong
+ *          (status code and the start of the body, or the connection error).
+ */
+export async function probeApplication(internalPort: number, probe: ReadinessProbe): Promise<{ status: number | null; problem: string | null }> {
+    const url = `http://127.0.0.1:${internalPort}${probe.path}`;
+    try {
+        const response = await axios.get(url, {
+            timeout: probe.timeoutMs,
+            maxRedirects: 0,
+            responseType: 'text',
+            validateStatus: () => true, // Judge the status code ourselves
+        });
+        const ready = probe.expectedStatus !== null ? response.status === probe.expectedStatus : response.status < 500;
+        if (ready) {
+            return { status: response.status, problem: null };
+        }
+        const body = String(response.data ?? '').trim().slice(0, HEALTH_CHECK_BODY_EXCERPT_LENGTH);
+        return { status: response.status, problem: `HTTP ${response.status}${body ? `: ${body}` : ''}` };
+    } catch (error: any) {
+        return { status: null, problem: error.code || error.message };
+    }
+}
+
+/**
+ * Waits until an application passes its readiness probe on its internal port.
+ * Without an expected status any response below 500 counts as ready. Connection errors, timeouts
+ * and unexpected responses are retried until the probe's retries are used up.
+ * @param internalPort The port the application listens on.
+ * @param deploymentId The ID of the deployment (for logging).
+ * @param options.probe The probe to run (default: GET / answered below 500 within 15 attempts).
+ * @param options.logFilePath The deployment's log file. Every attempt, with the body of failing responses, is written to it.
+ * @returns A promise that resolves once the application passed the probe.
+ * @throws Error if the application is still not ready after all attempts.
+ */
+export async function waitForApplicationHealthy(
+    internalPort: number,
+    deploymentId: number,
+    options: { probe?: ReadinessProbe; logFilePath?: string | null } = {}
+): Promise<void> {
+    const probe = options.probe ?? DEFAULT_READINESS_PROBE;
+    const url = `http://127.0.0.1:${internalPort}${probe.path}`;
+    const expectation = probe.expectedStatus !== null ? `HTTP ${probe.expectedStatus}` : 'HTTP status below 500';
+    const log = (text: string, stream: 'stdout' | 'stderr' = 'stdout') =>
+        options.logFilePath ? appendDeploymentLog(options.logFilePath, 'serve', text, stream) : Promise.resolve();
+    let lastProblem = 'no response';
+
+    await log(`Readiness probe: GET ${url}, expecting ${expectation} within ${probe.timeoutMs}ms (${probe.retries} attempts).`);
+    for (let attempt = 1; attempt <= probe.retries; attempt++) {
+        const result = await probeApplication(internalPort, probe);
+        if (!result.problem) {
+            console.log(`[Serving Service] Deployment ${deploymentId} is healthy (HTTP ${result.status} from ${url}, attempt ${attempt}).`);
+            await log(`Attempt ${attempt}/${probe.retries}: HTTP ${result.status}. Application is ready.`);
+            return;
+        }
+        lastProblem = result.problem;
+        console.log(`[Serving Service] Health check ${attempt}/${probe.retries} for deployment ${deploymentId} failed: ${lastProblem}`);
+        await log(`Attempt ${attempt}/${probe.retries} failed: ${lastProblem}`, 'stderr');
+        if (attempt < probe.retries) {
+            await new Promise((resolve) => setTimeout(resolve, HEALTH_CHECK_INTERVAL_MS));
+        }
+    }
+
+    throw new Error(`Deployment ${deploymentId} failed its readiness probe (GET ${probe.path} on port ${internalPort}): ${lastProblem.split('\n')[0]}`);
+}
@@ -1,3 +1,7 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { DeploymentStatus } from '@prisma/client';
+
 export const sanitizeForSubdomain = (str: string, maxLength: number = 20): string => {
     if (!str) return '';
     return str
@@ -7,4 +11,54 @@ export const sanitizeForSubdomain = (str: string, maxLength: number = 20): strin
         .replace(/-+/g, '-')       // Replace multiple hyphens with single
         .replace(/^-+|-+$/g, '')   // Trim leading/trailing hyphens
         .substring(0, maxLength);
-};
\ No newline at end of file
+};
+
+// Base path for all deployment working directories (logs, extracted build output)
+export const DEPLOYMENTS_BASE_DIR = path.join(__dirname, '..', 'deployments');
+
+// Webroot for ACME HTTP-01 challenge files, served by Nginx under /.well-known/acme-challenge/
+export const ACME_CHALLENGE_DIR = process.env.ACME_CHALLENGE_DIR || path.join(__dirname, '..', 'acme-challenges');
+
+// Issued TLS certificates for custom domains, one directory per domain (readable by Nginx)
+export const CERTIFICATES_DIR = process.env.CERTIFICATES_DIR || path.join(__dirname, '..', 'certificates');
+
+export const getCertificateFilePaths = (domainName: string): { certificatePath: string; keyPath: string } => ({
+    certificatePath: path.join(CERTIFICATES_DIR, domainName, 'fullchain.pem'),
+    keyPath: path.join(CERTIFICATES_DIR, domainName, 'privkey.pem'),
+});
+
+export const getDeploymentWorkingDir = (deploymentId: number): string =>
+    path.join(DEPLOYMENTS_BASE_DIR, deploymentId.toString());
+
+// Where PM2 writes a deployment's runtime stdout/stderr (next to its build log, outside the build output)
+export const getRuntimeLogPaths = (deploymentId: number): { outputPath: string; errorPath: string } => ({
+    outputPath: path.join(getDeploymentWorkingDir(deploymentId), 'runtime-out.log'),
+    errorPath: path.join(getDeploymentWorkingDir(deploymentId), 'runtime-error.log'),
+});
+
+// Statuses of a deployment that has not finished yet: waiting in the queue or in one of its stages
+export const IN_PROGRESS_DEPLOYMENT_STATUSES: DeploymentStatus[] = ['queued', 'cloning', 'building', 'extracting', 'starting', 'configuring_proxy'];
+
+export const getDeploymentImageName = (projectId: number, deploymentId: number): string =>
+    `project-${projectId}-${deploymentId}`;
+
+// Total size of the files below a directory, in bytes (symbolic links are not followed)
+export const getDirectorySize = async (dirPath: string): Promise<number> => {
+    const entries = await fs.readdir(dirPath, { recursive: true, withFileTypes: true });
+    const sizes = await Promise.all(
+        entries
+            .filter((entry) => entry.isFile())
+            .map((entry) => fs.lstat(path.join(entry.parentPath, entry.name)).then((stats) => stats.size, () => 0))
+    );
+    return sizes.reduce((total, size) => total + size, 0);
+};
+
+// Reduces a Git URL to a comparable form: 'https://GitHub.com/Org/Repo.git/' -> 'github.com/org/repo'
+export const normalizeGitRepoUrl = (url: string): string =>
+    url
+        .trim()
+        .toLowerCase()
+        .replace(/^[a-z+]+:\/\//, '') // Strip protocol
+        .replace(/^[^@/]+@/, '')      // Strip credentials (e.g. oauth2:token@)
+        .replace(/\/+$/, '')
+        .replace(/\.git$/, '');
@@ -0,0 +1,159 @@
+// src/webhookService.ts
+
+import crypto from 'crypto';
+import { PrismaClient, Prisma, Project } from '@prisma/client';
+import { createDeployment } from './deploymentQueue';
+import { QuotaExceededError } from './quotaService';
+import { normalizeGitRepoUrl } from './utils';
+
+const prisma = new PrismaClient();
+
+// Every project has its own webhook secret (shown in its settings, set on the GitHub webhook under
+// Settings -> Webhooks -> Secret). A delivery only acts on projects of its repository whose secret signed it,
+// so knowing one project's secret does not allow triggering deployments of another user's project.
+
+/**
+ * Creates a secret for a project's GitHub webhook.
+ * @returns 64 random hex characters.
+ */
+export function generateWebhookSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Verifies the `X-Hub-Signature-256` header GitHub sends with every delivery.
+ * @param rawBody The exact request body bytes GitHub signed.
+ * @param signatureHeader The value of the `X-Hub-Signature-256` header (e.g. `sha256=abc...`).
+ * @param secret The webhook secret of the project the delivery is checked for.
+ * @returns True if the signature matches the body.
+ */
+export function verifyGitHubSignature(rawBody: Buffer, signatureHeader: string | undefined, secret: string): boolean {
+    if (!secret || !signatureHeader || !signatureHeader.startsWith('sha256=')) {
+        return false;
+    }
+    const expected = Buffer.from(
+        `sha256=${crypto.createHmac('sha256', secret).update(rawBody).digest('hex')}`
+    );
+    const received = Buffer.from(signatureHeader);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Records a delivery ID so that GitHub redeliveries of the same event are ignored.
+ * @param deliveryId The value of the `X-GitHub-Delivery` header.
+ * @param event The value of the `X-GitHub-Event` header.
+ * @returns True if this is the first time the delivery was seen, false for a duplicate.
+ */
+async function recordDelivery(deliveryId: string, event: string): Promise<boolean> {
+    try {
+        await prisma.webhookDelivery.create({ data: { provider: 'github', deliveryId, event } });
+        return true;
+    } catch (error: any) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return false; // Unique constraint on deliveryId: already handled
+        }
+        throw error;
+    }
+}
+
+/**
+ * Finds the projects of the repository a delivery is about whose webhook secret signed it.
+ * @param rawBody The exact request body bytes GitHub signed.
+ * @param signatureHeader The value of the `X-Hub-Signature-256` header.
+ * @param payload The parsed JSON payload.
+ * @returns The projects the delivery may act on; empty if it is not authentic for any project.
+ */
+export async function findSigningProjects(rawBody: Buffer, signatureHeader: string | undefined, payload: any): Promise<Project[]> {
+    const repository = payload?.repository ?? {};
+    const repoUrls = [repository.clone_url, repository.html_url]
+        .filter((url): url is string => typeof url === 'string')
+        .map(normalizeGitRepoUrl);
+    if (repoUrls.length === 0 || !signatureHeader) {
+        return [];
+    }
+
+    const candidates = await prisma.project.findMany({
+        where: { gitRepoUrl: { contains: repository.full_name ?? '', mode: 'insensitive' } },
+    });
+    return candidates.filter((project) =>
+        repoUrls.includes(normalizeGitRepoUrl(project.gitRepoUrl)) &&
+        verifyGitHubSignature(rawBody, signatureHeader, project.webhookSecret)
+    );
+}
+
+export type GitHubWebhookResult =
+    | { outcome: 'duplicate' }
+    | { outcome: 'ignored'; reason: string }
+    | { outcome: 'deployed'; deploymentIds: number[] };
+
+/**
+ * Handles a verified GitHub webhook delivery.
+ * Push events to a project's branch create a deployment through the same queue as `deployProject`.
+ * @param deliveryId The value of the `X-GitHub-Delivery` header.
+ * @param event The value of the `X-GitHub-Event` header.
+ * @param payload The parsed JSON payload.
+ * @param signingProjects The projects whose secret signed the delivery (see `findSigningProjects`).
+ * @returns What was done with the delivery.
+ */
+export async function handleGitHubWebhook(
+    deliveryId: string,
+    event: string,
+    payload: any,
+    signingProjects: Project[]
+): Promise<GitHubWebhookResult> {
+    if (!(await recordDelivery(deliveryId, event))) {
+        console.log(`[Webhook Service] Delivery ${deliveryId} already handled. Ignoring duplicate.`);
+        return { outcome: 'duplicate' };
+    }
+
+    try {
+        return await handleGitHubEvent(deliveryId, event, payload, signingProjects);
+    } catch (error) {
+        // Forget the delivery so that GitHub's redelivery can retry it
+        await prisma.webhookDelivery.delete({ where: { deliveryId } }).catch(() => undefined);
+        throw error;
+    }
+}
+
+async function handleGitHubEvent(deliveryId: string, event: string, payload: any, signingProjects: Project[]): Promise<GitHubWebhookResult> {
+    if (event !== 'push') {
+        return { outcome: 'ignored', reason: `Event '${event}' is not handled.` };
+    }
+
+    const ref: string = payload?.ref ?? '';
+    if (!ref.startsWith('refs/heads/')) {
+        return { outcome: 'ignored', reason: `Ref '${ref}' is not a branch.` };
+    }
+    if (payload.deleted) {
+        return { outcome: 'ignored', reason: `Branch '${ref}' was deleted.` };
+    }
+    const branch = ref.slice('refs/heads/'.length);
+
+    const repository = payload.repository ?? {};
+    // Only pushes to a project's production branch (or the repository default branch) trigger a deployment
+    const projects = signingProjects.filter((project) => branch === (project.productionBranch || repository.default_branch));
+    if (projects.length === 0) {
+        console.log(`[Webhook Service] No project matches ${repository.clone_url} on branch ${branch} (delivery ${deliveryId}).`);
+        return { outcome: 'ignored', reason: `No project deploys branch '${branch}' of this repository.` };
+    }
+
+    const commitSha: string | undefined = payload.after;
+    const deploymentIds: number[] = [];
+    const quotaErrors: string[] = [];
+    for (const project of projects) {
+        try {
+            const deployment = await createDeployment(project.id, { gitRef: branch, commitSha });
+            console.log(`[Webhook Service] Push to ${branch} (${commitSha}) queued deployment ${deployment.id} for project ${project.id}.`);
+            deploymentIds.push(deployment.id);
+        } catch (error: any) {
+            if (!(error instanceof QuotaExceededError)) throw error;
+            // The push is not retried: a quota is only freed by the user
+            console.warn(`[Webhook Service] Push to ${branch} not deployed for project ${project.id}: ${error.message}`);
+            quotaErrors.push(`Project ${project.id}: ${error.message}`);
+        }
+    }
+    if (deploymentIds.length === 0) {
+        return { outcome: 'ignored', reason: quotaErrors.join(' ') };
+    }
+    return { outcome: 'deployed', deploymentIds };
+}
@@ -0,0 +1,22 @@
+// test/certificateService.test.ts
+//
+// Runs against a Pebble test CA (https://github.com/letsencrypt/pebble), and is skipped without one.
+// Start Pebble from its repository with `PEBBLE_VA_ALWAYS_VALID=1 pebble -config test/config/pebble-config.json`, then:
+//   ACME_DIRECTORY_URL=https://localhost:14000/dir NODE_EXTRA_CA_CERTS=<pebble>/test/certs/pebble.minica.pem \
+//   ACME_SKIP_CHALLENGE_VERIFICATION=true CERTIFICATES_DIR=/tmp/certificates ACME_CHALLENGE_DIR=/tmp/acme-challenges npm test
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as acme from 'acme-client';
+import { requestCertificate } from '../src/certificateService';
+
+const pebbleDirectoryUrl = process.env.ACME_DIRECTORY_URL?.includes(':14000') ? process.env.ACME_DIRECTORY_URL : null;
+
+test('a certificate for the domain is issued by the ACME server', { skip: !pebbleDirectoryUrl && 'ACME_DIRECTORY_URL does not point at Pebble' }, async () => {
+    const { certificateData, privateKey } = await requestCertificate('app.example.com');
+
+    const info = acme.crypto.readCertificateInfo(certificateData);
+    assert.ok(info.domains.altNames.includes('app.example.com'));
+    assert.ok(info.notAfter > new Date());
+    assert.match(privateKey, /-----BEGIN (RSA )?PRIVATE KEY-----/);
+});
@@ -0,0 +1,58 @@
+// test/domainService.test.ts
+
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as dns } from 'dns';
+import { DnsResolver, getDomainVerification, setDnsResolver, verifyDomainOwnership } from '../src/domainService';
+
+const domain = { domainName: 'app.example.com', verificationToken: 'token123' };
+const { txtName, txtValue } = getDomainVerification(domain, null);
+
+/**
+ * A resolver answering from fixed records; names without records fail like a missing DNS entry.
+ */
+function createStubResolver(records: { txt?: Record<string, string[][]>; cname?: Record<string, string[]> }): DnsResolver {
+    const notFound = (hostname: string) => Object.assign(new Error(`queryTxt ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+    return {
+        resolveTxt: async (hostname) => {
+            if (!records.txt?.[hostname]) throw notFound(hostname);
+            return records.txt[hostname];
+        },
+        resolveCname: async (hostname) => {
+            if (!records.cname?.[hostname]) throw notFound(hostname);
+            return records.cname[hostname];
+        },
+    };
+}
+
+afterEach(() => {
+    setDnsResolver(dns);
+});
+
+test('a domain is verified by its TXT record, also when the record is split into several strings', async () => {
+    const half = Math.floor(txtValue.length / 2);
+    setDnsResolver(createStubResolver({ txt: { [txtName]: [['unrelated'], [txtValue.slice(0, half), txtValue.slice(half)]] } }));
+
+    assert.deepEqual(await verifyDomainOwnership(domain, null), { verified: true, method: 'txt' });
+});
+
+test('a domain is verified by a CNAME to the project, ignoring case and the trailing dot', async () => {
+    setDnsResolver(createStubResolver({ cname: { 'app.example.com': ['My-Project.nextlivenow.app.'] } }));
+
+    assert.deepEqual(await verifyDomainOwnership(domain, 'my-project.nextlivenow.app'), { verified: true, method: 'cname' });
+});
+
+test('a domain is not verified by a CNAME when the project has no production hostname', async () => {
+    setDnsResolver(createStubResolver({ cname: { 'app.example.com': ['my-project.nextlivenow.app'] } }));
+
+    const result = await verifyDomainOwnership(domain, null);
+    assert.equal(result.verified, false);
+});
+
+test('a failed verification explains what each record contained', async () => {
+    setDnsResolver(createStubResolver({ txt: { [txtName]: [['next-live-verification=other']] }, cname: { 'app.example.com': ['elsewhere.example.net'] } }));
+
+    const result = await verifyDomainOwnership(domain, 'my-project.nextlivenow.app');
+    assert.ok(!result.verified);
+    assert.match(result.reason, /TXT _next-live\.app\.example\.com does not contain .*; CNAME app\.example\.com points to elsewhere\.example\.net/);
+});
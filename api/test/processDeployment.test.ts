@@ -0,0 +1,184 @@
+// test/processDeployment.test.ts
+
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import { PrismaClient } from '@prisma/client';
+import { processDeployment, cleanUpDeploymentResources, defaultDeploymentSteps, DeploymentSteps } from '../src/processDeployment';
+import { getDeploymentWorkingDir } from '../src/utils';
+
+// IDs far above real deployments: their working directories are created under deployments/ and removed after each test
+const DEPLOYMENT_ID = 990001;
+const PROJECT_ID = 990;
+
+/**
+ * Builds a deployment's steps from fakes that record what was called, in order.
+ * @param overrides Steps to replace, e.g. one that fails.
+ */
+function createFakeSteps(overrides: Partial<DeploymentSteps> = {}) {
+    const calls: string[] = [];
+    const deploymentUpdates: Array<Record<string, unknown>> = [];
+    const project = { id: PROJECT_ID, name: 'Test Project', runtime: 'docker', replicas: 2, user: { username: 'tester' } };
+
+    const prisma = {
+        deployment: {
+            update: async ({ data }: { data: Record<string, unknown> }) => {
+                deploymentUpdates.push(data);
+                return { id: DEPLOYMENT_ID, ...data };
+            },
+            findFirst: async () => null,
+        },
+        deploymentStage: {
+            deleteMany: async () => ({ count: 0 }),
+            updateMany: async () => ({ count: 0 }),
+            upsert: async () => ({}),
+        },
+        project: { findUnique: async () => project },
+        $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+    } as unknown as PrismaClient;
+
+    // Records a call and returns what the step resolves to
+    const record = <T = void>(name: string, result?: T): T => {
+        calls.push(name);
+        return result as T;
+    };
+    const steps: DeploymentSteps = {
+        ...defaultDeploymentSteps,
+        prisma,
+        changeOwner: async () => record('changeOwner', { stdout: '', stderr: '' }),
+        cloneRepository: async () => record('cloneRepository', '/tmp/clone/repo'),
+        getHeadCommit: async () => record('getHeadCommit', { sha: 'abc123', message: 'Initial commit', author: 'Tester', timestamp: new Date() }),
+        cleanUpCloneDirectory: async () => record('cleanUpCloneDirectory'),
+        getProjectEnvironment: async () => ({}),
+        getBuildCacheOptions: async () => ({ id: `project-${PROJECT_ID}`, cacheFromImage: null, reset: false, clearRequestedAt: null }),
+        recordBuildCacheUsage: async () => undefined,
+        buildProjectImage: async () => record('buildProjectImage', { dockerfileUsed: 'default_standalone', cacheSizeBytes: null, packageManager: 'npm' }),
+        extractBuildArtifacts: async () => record('extractBuildArtifacts'),
+        getImageSize: async () => 1024,
+        recordDeploymentDiskUsage: async () => record('recordDeploymentDiskUsage'),
+        removeProjectImage: async () => record('removeProjectImage'),
+        startApplication: async (_app, runtime, replicas) => record(`startApplication:${runtime}:${replicas}`, { internalPort: 4001, replicaPorts: [4002] }),
+        waitForApplicationHealthy: async (port) => record(`waitForApplicationHealthy:${port}`),
+        stopApplication: async (_deploymentId, runtime) => record(`stopApplication:${runtime ?? 'all'}`),
+        configureNginxForDeployment: async () => record('configureNginxForDeployment'),
+        removeNginxConfigForDeployment: async () => record('removeNginxConfigForDeployment'),
+        promoteDeployment: async () => record('promoteDeployment', null),
+        releaseDeploymentPorts: async () => record('releaseDeploymentPorts'),
+        notifyDeploymentStatusChanged: async () => undefined,
+        ...overrides,
+    };
+    return { steps, calls, deploymentUpdates };
+}
+
+const deploymentParams = {
+    deploymentId: DEPLOYMENT_ID,
+    projectId: PROJECT_ID,
+    userId: 1,
+    gitRepoUrl: 'https://github.com/example/app.git',
+};
+
+// Failure cleanup runs in the background; wait for it to settle
+const flushBackgroundCleanup = () => new Promise((resolve) => setImmediate(resolve));
+
+afterEach(async () => {
+    await fs.rm(getDeploymentWorkingDir(DEPLOYMENT_ID), { recursive: true, force: true });
+});
+
+test('a deployment runs every stage and is marked ready with the ports of all replicas', async () => {
+    const { steps, calls, deploymentUpdates } = createFakeSteps();
+
+    await processDeployment(deploymentParams, steps);
+
+    assert.deepEqual(calls, [
+        'changeOwner',
+        'cloneRepository',
+        'getHeadCommit',
+        'buildProjectImage',
+        'extractBuildArtifacts',
+        'recordDeploymentDiskUsage',
+        'cleanUpCloneDirectory',
+        'startApplication:docker:2',
+        'waitForApplicationHealthy:4001',
+        'waitForApplicationHealthy:4002',
+        'promoteDeployment',
+    ]);
+    const final = deploymentUpdates.at(-1);
+    assert.equal(final?.status, 'ready');
+    assert.equal(final?.internalPort, 4001);
+    assert.deepEqual(final?.replicaPorts, [4002]);
+    assert.equal(final?.runtime, 'docker');
+    assert.equal(final?.deploymentUrl, 'http://localhost:4001');
+});
+
+test('a deployment that fails its readiness probe is stopped, and its image, ports and disk usage are released', async () => {
+    const { steps, calls, deploymentUpdates } = createFakeSteps({
+        waitForApplicationHealthy: async () => {
+            throw new Error('Readiness probe failed');
+        },
+    });
+
+    await processDeployment(deploymentParams, steps);
+    await flushBackgroundCleanup();
+
+    const final = deploymentUpdates.at(-1);
+    assert.equal(final?.status, 'failed');
+    assert.equal(final?.errorMessage, 'Readiness probe failed');
+    assert.equal(final?.diskUsageBytes, null);
+    assert.ok(calls.includes('stopApplication:docker'));
+    assert.ok(calls.includes('removeProjectImage'));
+    assert.ok(calls.includes('releaseDeploymentPorts'));
+    assert.ok(!calls.includes('promoteDeployment'));
+});
+
+test('a deployment cancelled during its build is marked cancelled and everything it created is removed', async () => {
+    const abortController = new AbortController();
+    const { steps, calls, deploymentUpdates } = createFakeSteps({
+        buildProjectImage: async () => {
+            abortController.abort(new Error('Deployment was cancelled by the user.'));
+            throw new Error('docker build was killed');
+        },
+    });
+
+    await processDeployment({ ...deploymentParams, signal: abortController.signal }, steps);
+
+    const final = deploymentUpdates.at(-1);
+    assert.equal(final?.status, 'cancelled');
+    assert.equal(final?.errorMessage, 'Deployment was cancelled by the user.');
+    assert.ok(calls.includes('removeProjectImage'));
+    assert.ok(calls.includes('releaseDeploymentPorts'));
+    assert.ok(!calls.some((call) => call.startsWith('startApplication')));
+});
+
+test('a deployment cancelled after its build output was extracted no longer counts against the disk quota', async () => {
+    const abortController = new AbortController();
+    const { steps, calls, deploymentUpdates } = createFakeSteps({
+        startApplication: async () => {
+            abortController.abort(new Error('Deployment was cancelled by the user.'));
+            throw new Error('start was interrupted');
+        },
+    });
+
+    await processDeployment({ ...deploymentParams, signal: abortController.signal }, steps);
+
+    assert.ok(calls.includes('recordDeploymentDiskUsage'));
+    const final = deploymentUpdates.at(-1);
+    assert.equal(final?.status, 'cancelled');
+    assert.equal(final?.diskUsageBytes, null);
+    assert.ok(calls.includes('removeProjectImage'));
+});
+
+test('cleaning up a deployment attempts every step and reports the ones that failed', async () => {
+    const { steps, calls } = createFakeSteps({
+        removeProjectImage: async () => {
+            throw new Error('image is in use');
+        },
+    });
+
+    await assert.rejects(
+        cleanUpDeploymentResources({ id: DEPLOYMENT_ID, projectId: PROJECT_ID, runtime: 'docker' }, steps),
+        /remove Docker image: image is in use/
+    );
+    assert.ok(calls.includes('stopApplication:docker'));
+    assert.ok(calls.includes('releaseDeploymentPorts'));
+    assert.ok(calls.includes('removeNginxConfigForDeployment'));
+});
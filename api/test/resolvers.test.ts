@@ -0,0 +1,59 @@
+// test/resolvers.test.ts
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import resolvers from '../src/resolvers';
+
+// A ready deployment as stored, with every field the dashboard's deployment status query asks for
+const storedDeployment = {
+    id: 42,
+    projectId: 7,
+    status: 'ready',
+    version: 'v3',
+    deploymentUrl: 'https://app.example.com',
+    buildOutputPath: '/deployments/42/build',
+    internalPort: 4001,
+    replicaPorts: [4002],
+    dockerfileUsed: 'default_vite',
+    packageManager: 'pnpm',
+    runtime: 'docker',
+    errorMessage: null,
+    logFilePath: '/deployments/42/deployment.log',
+    createdAt: new Date('2025-06-01T09:00:00Z'),
+    gitRef: 'main',
+    commitSha: 'abc123',
+    commitMessage: 'Initial commit',
+    commitAuthor: 'Tester',
+    commitTimestamp: new Date('2025-06-01T08:55:00Z'),
+};
+
+/**
+ * A Prisma client whose deployment lookup returns only the fields the resolver selects, like Prisma does.
+ */
+function createPrismaContext(userId: number | null) {
+    const prisma = {
+        deployment: {
+            findFirst: async ({ select }: { select?: Record<string, boolean> }) => {
+                if (!select) return storedDeployment;
+                return Object.fromEntries(Object.entries(storedDeployment).filter(([field]) => select[field]));
+            },
+        },
+    };
+    return { prisma, userId };
+}
+
+test('deploymentStatus returns the package manager the deployment was built with', async () => {
+    const deployment = await resolvers.Query.deploymentStatus({}, { id: 42 }, createPrismaContext(1));
+
+    assert.equal(deployment.packageManager, 'pnpm');
+});
+
+test('deploymentStatus returns the runtime the deployment was started with', async () => {
+    const deployment = await resolvers.Query.deploymentStatus({}, { id: 42 }, createPrismaContext(1));
+
+    assert.equal(deployment.runtime, 'docker');
+});
+
+test('deploymentStatus requires a signed-in user', async () => {
+    await assert.rejects(resolvers.Query.deploymentStatus({}, { id: 42 }, createPrismaContext(null)), /Not authenticated/);
+});
@@ -16,6 +16,7 @@ import {
   CardDescription,
 } from '@/components/ui/card'; // Shadcn card components
 import DeployButton from '@/components/DeployButton'; // Import the DeployButton component
+import WebhookSettings from '@/components/WebhookSettings';
 import { timeAgo } from '@/lib/utils';
 
 // GraphQL Query to fetch a single project's details (excluding deployments, as DeploymentList fetches them)
@@ -28,7 +29,9 @@ const GET_PROJECT_DETAILS = gql`
       id
       name
       gitRepoUrl
+      productionUrl
       createdAt
+      webhookSecret
       # Fetch other project-specific details needed on this page
     }
   }
@@ -113,6 +116,16 @@ const ProjectDetailPage = () => {
             <CardDescription className='text-gray-600 dark:text-gray-400 truncate'>
               {project.gitRepoUrl}
             </CardDescription>
+            {project.productionUrl && (
+              <a
+                href={project.productionUrl}
+                target='_blank'
+                rel='noopener noreferrer'
+                className='text-sm text-blue-600 hover:underline dark:text-blue-400 truncate'
+              >
+                {project.productionUrl}
+              </a>
+            )}
           </CardHeader>
           <CardContent className='flex justify-between items-center'>
             <p className='text-sm text-gray-500 dark:text-gray-400'>
@@ -125,6 +138,18 @@ const ProjectDetailPage = () => {
         </Card>
       </div>
 
+      {/* Deploy on push settings */}
+      <div className='container mx-auto mb-8'>
+        <Card>
+          <CardHeader>
+            <CardTitle className='text-xl font-semibold'>Deploy on push</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <WebhookSettings projectId={project.id} webhookSecret={project.webhookSecret} />
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Deployments List Section */}
       <div className='container mx-auto'>
         <h2 className='text-3xl font-semibold mb-6 text-gray-800 dark:text-gray-200'>
@@ -12,7 +12,7 @@ const DEPLOY_PROJECT_MUTATION = gql`
   mutation DeployProject($projectId: Int!) {
     deployProject(projectId: $projectId) {
       id
-      status # Should return 'pending' initially
+      status # Should return 'queued' initially
     }
   }
 `;
@@ -9,16 +9,19 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel,
 import { EllipsisVerticalIcon } from '@heroicons/react/24/outline'; // Example icon (install @heroicons/react)
 import { useMutation, gql } from '@apollo/client'; // For potential future mutations (e.g., redeploy, delete)
 import { toast } from 'sonner'; // Assuming sonner for notifications
-import { timeAgo, getStatusBadgeVariant } from '@/lib/utils';
+import { timeAgo, getStatusBadgeVariant, formatDeploymentStatus, isDeploymentInProgress } from '@/lib/utils';
 
 // Define the expected structure of a deployment object
 interface Deployment {
   id: number;
-  status: string; // e.g., 'pending', 'deploying', 'success', 'failed'
+  status: string; // e.g., 'queued', 'building', 'ready', 'failed', 'cancelled'
   version: string; // e.g., commit hash
   deploymentUrl?: string | null; // Optional public URL
   createdAt: string; // When the deployment was created
   errorMessage?: string | null; // Error message if failed
+  commitSha?: string | null; // Deployed commit, recorded after cloning
+  commitMessage?: string | null; // Subject line of the deployed commit
+  commitAuthor?: string | null; // Author of the deployed commit
 }
 
 // Define props for the DeploymentItem component
@@ -39,6 +42,16 @@ const REDEPLOY_MUTATION = gql`
   }
 `;
 
+// Mutation to stop a queued or running deployment
+const CANCEL_DEPLOYMENT_MUTATION = gql`
+  mutation CancelDeployment($id: Int!) {
+    cancelDeployment(id: $id) {
+      id
+      status
+    }
+  }
+`;
+
 // Placeholder mutation for future delete functionality
 const DELETE_DEPLOYMENT_MUTATION = gql`
   mutation DeleteDeployment($deploymentId: Int!) {
@@ -55,6 +68,27 @@ const DeploymentItem: React.FC<DeploymentItemProps> = ({ deployment, onDeploymen
     // Placeholder mutation hooks
     const [redeployMutation, { loading: redeployLoading }] = useMutation(REDEPLOY_MUTATION);
     const [deleteDeploymentMutation, { loading: deleteLoading }] = useMutation(DELETE_DEPLOYMENT_MUTATION);
+    const [cancelDeploymentMutation, { loading: cancelLoading }] = useMutation(CANCEL_DEPLOYMENT_MUTATION);
+
+    const isInProgress = isDeploymentInProgress(deployment.status);
+
+    // Function to handle cancelling a queued or running deployment
+    const handleCancel = async () => {
+        try {
+            await cancelDeploymentMutation({ variables: { id: deployment.id } });
+            toast("Cancellation Requested", {
+                description: `Deployment ${deployment.id} is being cancelled.`,
+            });
+            if (onDeploymentAction) {
+                onDeploymentAction(); // Refetch list to show the new status
+            }
+        } catch (error) {
+            console.error("Failed to cancel deployment:", error);
+            toast("Cancel Failed", {
+                description: (error instanceof Error && error.message) || "An error occurred while cancelling the deployment.",
+            });
+        }
+    };
 
     // Function to handle redeploying a deployment
     const handleRedeploy = async () => {
@@ -67,7 +101,7 @@ const DeploymentItem: React.FC<DeploymentItemProps> = ({ deployment, onDeploymen
                 //  type: "info",
             });
             if (onDeploymentAction) {
-                onDeploymentAction(); // Refetch list to show new pending deployment
+                onDeploymentAction(); // Refetch list to show new queued deployment
             }
             //@ts-ignore
         } catch (error: any) {
@@ -114,7 +148,7 @@ const DeploymentItem: React.FC<DeploymentItemProps> = ({ deployment, onDeploymen
           {/* Deployment Version/ID */}
           <Link href={deploymentDetailLink} className='"hover:underline"'>
             <CardTitle className="text-lg font-mono truncate">
-              Deployment #{deployment.id} - <span className="text-sm text-gray-500 dark:text-gray-400">{deployment.version.slice(0, 7)}</span> {/* Display first 7 chars of version */}
+              Deployment #{deployment.id} - <span className="text-sm text-gray-500 dark:text-gray-400">{(deployment.commitSha ?? deployment.version).slice(0, 7)}</span> {/* Display first 7 chars of the commit */}
             </CardTitle>
           </Link>
           {/* Options Dropdown Menu */}
@@ -130,12 +164,16 @@ const DeploymentItem: React.FC<DeploymentItemProps> = ({ deployment, onDeploymen
               <DropdownMenuLabel>Deployment Actions</DropdownMenuLabel>
               <DropdownMenuSeparator />
               {/* Dropdown Menu Items */}
-              {deployment.deploymentUrl && deployment.status === 'success' && (
+              {deployment.deploymentUrl && deployment.status === 'ready' && (
                 <DropdownMenuItem asChild> {/* Use asChild to make Link work inside DropdownMenuItem */}
                    {/* Link to the live deployment URL */}
                   <a href={deployment.deploymentUrl} target="_blank" rel="noopener noreferrer">View Live</a>
                 </DropdownMenuItem>
               )}
+              {/* Cancel option - only while the deployment is queued or running */}
+              {isInProgress && (
+                <DropdownMenuItem onClick={handleCancel} disabled={cancelLoading}>Cancel</DropdownMenuItem>
+              )}
               {/* Redeploy option - might be disabled based on status */}
               <DropdownMenuItem onClick={handleRedeploy} disabled={redeployLoading}>Redeploy</DropdownMenuItem>
               {/* Delete option */}
@@ -148,13 +186,22 @@ const DeploymentItem: React.FC<DeploymentItemProps> = ({ deployment, onDeploymen
          <CardDescription className="text-xs text-gray-500 dark:text-gray-400">
              {timeAgo(deployment.createdAt)} {/* Format date and time */}
          </CardDescription>
+        {/* Deployed commit, once known */}
+        {deployment.commitMessage && (
+            <p className="text-sm truncate" title={deployment.commitMessage}>
+                {deployment.commitMessage}
+                {deployment.commitAuthor && (
+                    <span className="text-gray-500 dark:text-gray-400"> by {deployment.commitAuthor}</span>
+                )}
+            </p>
+        )}
       </CardHeader>
       <CardContent>
         {/* Display deployment status badge */}
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium">Status:</span>
           <Badge variant={getStatusBadgeVariant(deployment.status)}>
-            {deployment.status.toUpperCase()}
+            {formatDeploymentStatus(deployment.status)}
           </Badge>
         </div>
         {/* Display error message if failed */}
@@ -21,6 +21,9 @@ const GET_PROJECT_WITH_DEPLOYMENTS = gql`
         deploymentUrl
         createdAt
         errorMessage
+        commitSha
+        commitMessage
+        commitAuthor
       }
     }
   }
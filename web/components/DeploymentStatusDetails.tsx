@@ -1,14 +1,17 @@
 // web/components/DeploymentStatusDetails.tsx
 'use client'; // This is a client component
 
-import { useEffect, useRef, useState } from 'react'; // Import useEffect, useRef, and useState
-import { useQuery, gql } from '@apollo/client';
+import { useEffect, useMemo, useRef, useState } from 'react'; // Import useEffect, useMemo, useRef, and useState
+import { useMutation, useQuery, useSubscription, gql } from '@apollo/client';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'; // Shadcn card components
 import { Badge } from '@/components/ui/badge'; // Shadcn badge for status
 import { Skeleton } from '@/components/ui/skeleton'; // Shadcn skeleton for loading state
-import { getStatusBadgeVariant, timeAgo } from '@/lib/utils'; // Assuming getStatusBadgeVariant and timeAgo are in utils
+import { formatDeploymentStatus, formatDuration, getStatusBadgeVariant, isDeploymentInProgress, timeAgo } from '@/lib/utils';
 import Link from 'next/link'; // For back button
+import { Button } from '@/components/ui/button';
+import RuntimeLogs from '@/components/RuntimeLogs';
 import { ArrowLeftIcon } from 'lucide-react'; // Icon for back button (install lucide-react)
+import { toast } from 'sonner';
 
 
 // GraphQL Query to fetch a single deployment's status and details
@@ -24,32 +27,146 @@ const GET_DEPLOYMENT_STATUS = gql`
       # updatedAt # Fetch updatedAt to potentially trigger log refetch
       errorMessage
       dockerfileUsed
+      packageManager
+      runtime
       projectId # Fetch projectId to link back to the project page
       logFilePath # Fetch logFilePath to know if logs are available
+      gitRef
+      commitSha
+      commitMessage
+      commitAuthor
+      commitTimestamp
+      stages {
+        name
+        startedAt
+        finishedAt
+        durationMs
+        error
+      }
     }
   }
 `;
 
-// GraphQL Query to fetch deployment logs
-// This query should be defined in web/graphql/queries/getDeploymentLogs.graphql
-const GET_DEPLOYMENT_LOGS = gql`
-  query GetDeploymentLogs($id: Int!) {
-    deploymentLogs(id: $id)
+// Subscription pushing status changes; the result updates the cached deployment from the query above
+// This subscription is defined in web/graphql/subscriptions/deploymentStatusChanged.graphql
+const DEPLOYMENT_STATUS_CHANGED = gql`
+  subscription DeploymentStatusChanged($id: Int!) {
+    deploymentStatusChanged(id: $id) {
+      id
+      status
+      version
+      deploymentUrl
+      createdAt
+      errorMessage
+      dockerfileUsed
+      packageManager
+      runtime
+      projectId
+      logFilePath
+      gitRef
+      commitSha
+      commitMessage
+      commitAuthor
+      commitTimestamp
+      stages {
+        name
+        startedAt
+        finishedAt
+        durationMs
+        error
+      }
+    }
   }
 `;
 
+// Subscription streaming the deployment log from a byte offset
+// This subscription is defined in web/graphql/subscriptions/deploymentLogAppended.graphql
+const DEPLOYMENT_LOG_APPENDED = gql`
+  subscription DeploymentLogAppended($id: Int!, $offset: Int) {
+    deploymentLogAppended(id: $id, offset: $offset) {
+      offset
+      content
+    }
+  }
+`;
+
+// Stops a queued or running deployment; its new status arrives over the status subscription
+const CANCEL_DEPLOYMENT = gql`
+  mutation CancelDeployment($id: Int!) {
+    cancelDeployment(id: $id) {
+      id
+      status
+    }
+  }
+`;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// Log lines are written as `<ISO timestamp> [<stage>] [<stdout|stderr>] <text>`
+const LOG_LINE_PATTERN = /^(\S+) \[(clone|build|extract|serve|proxy)\] \[(stdout|stderr)\] (.*)$/;
+
+interface LogLine {
+  timestamp: string | null;
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+// Consecutive lines of the same stage, shown as one collapsible section
+interface LogSection {
+  stage: string | null; // null for lines written before logs were tagged
+  lines: LogLine[];
+}
+
+function groupLogLinesByStage(logText: string): LogSection[] {
+  const sections: LogSection[] = [];
+  for (const rawLine of logText.split('\n')) {
+    if (!rawLine) continue;
+    const match = LOG_LINE_PATTERN.exec(rawLine);
+    const stage = match ? match[2] : null;
+    const line: LogLine = match
+      ? { timestamp: match[1], stream: match[3] as LogLine['stream'], text: match[4] }
+      : { timestamp: null, stream: 'stdout', text: rawLine };
+
+    const current = sections[sections.length - 1];
+    if (current && current.stage === stage) {
+      current.lines.push(line);
+    } else {
+      sections.push({ stage, lines: [line] });
+    }
+  }
+  return sections;
+}
+
+// When one stage of the deployment ran
+interface DeploymentStage {
+  name: string; // 'cloning', 'building', 'extracting', 'starting' or 'configuring_proxy'
+  startedAt: string; // Milliseconds since the epoch
+  finishedAt?: string | null; // Null while the stage is running
+  durationMs?: number | null;
+  error?: string | null; // Why the stage ended early, if it failed or was cancelled
+}
+
 // Define the expected structure of a deployment object (matching the status query)
 interface Deployment {
   id: number;
-  status: string; // e.g., 'pending', 'deploying', 'success', 'failed'
+  status: string; // e.g., 'queued', 'building', 'ready', 'failed', 'cancelled'
   version?: string | null; // e.g., commit hash or version identifier
   deploymentUrl?: string | null; // Optional public URL
   createdAt: string; // When the deployment was created
   updatedAt: string; // When the deployment was last updated
   errorMessage?: string | null; // Error message if status is 'failed'
   dockerfileUsed?: string | null; // Which Dockerfile was used
+  packageManager?: string | null; // Package manager dependencies were installed with, e.g. "pnpm@9.1.0"
+  runtime?: string | null; // What runs the application: 'pm2' or 'docker'
   projectId: number; // ID of the associated project
   logFilePath?: string | null; // Path to the log file (indicates availability)
+  gitRef?: string | null; // Requested branch or tag (null for the repository default branch)
+  commitSha?: string | null; // Deployed commit SHA
+  commitMessage?: string | null; // Subject line of the deployed commit
+  commitAuthor?: string | null; // Author of the deployed commit
+  commitTimestamp?: string | null; // When the deployed commit was made
+  stages: DeploymentStage[]; // Stages started so far, in the order they ran
 }
 
 
@@ -59,53 +176,55 @@ interface DeploymentStatusDetailsProps {
 }
 
 const DeploymentStatusDetails: React.FC<DeploymentStatusDetailsProps> = ({ deploymentId }) => {
-  // Fetch the deployment status and details
-  const { data: statusData, loading: statusLoading, error: statusError, stopPolling: stopStatusPolling } = useQuery(GET_DEPLOYMENT_STATUS, {
+  // Fetch the deployment status and details once; later changes arrive over the subscription
+  const { data: statusData, loading: statusLoading, error: statusError } = useQuery(GET_DEPLOYMENT_STATUS, {
     variables: { id: deploymentId },
-    pollInterval: 3000, // Poll status every 3 seconds
-    // Optional: fetchPolicy: 'cache-and-network'
   });
-
-  // Fetch deployment logs
-  const { data: logsData, loading: logsLoading, error: logsError,  stopPolling: stopLogsPolling } = useQuery(GET_DEPLOYMENT_LOGS, {
-      variables: { id: deploymentId },
-      // Skip log query until logFilePath is available from statusData
-      skip: !statusData?.deploymentStatus?.logFilePath,
-      pollInterval: 1000, // Poll logs more frequently (e.g., every 1 second)
-      // Optional: fetchPolicy: 'cache-and-network'
+  useSubscription(DEPLOYMENT_STATUS_CHANGED, { variables: { id: deploymentId } });
+  const [cancelDeployment, { loading: cancelLoading }] = useMutation(CANCEL_DEPLOYMENT);
+
+  const handleCancel = async () => {
+    try {
+      await cancelDeployment({ variables: { id: deploymentId } });
+      toast('Cancellation Requested', { description: `Deployment ${deploymentId} is being cancelled.` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      toast('Cancel Failed', { description: message || 'An error occurred while cancelling the deployment.' });
+    }
+  };
+
+  // Log text received so far, and the byte offset it ends at
+  const [logText, setLogText] = useState('');
+  const logOffsetRef = useRef(0);
+
+  // Stream deployment logs. After a reconnect the server may resend output we already have,
+  // so anything before the current offset is dropped.
+  const { loading: logsLoading, error: logsError } = useSubscription(DEPLOYMENT_LOG_APPENDED, {
+    variables: { id: deploymentId, offset: 0 },
+    onData: ({ data }) => {
+      const chunk = data.data?.deploymentLogAppended;
+      if (!chunk || chunk.offset <= logOffsetRef.current) return;
+      const bytes = textEncoder.encode(chunk.content);
+      const chunkStart = chunk.offset - bytes.length;
+      const newText = chunkStart < logOffsetRef.current
+        ? textDecoder.decode(bytes.subarray(logOffsetRef.current - chunkStart))
+        : chunk.content;
+      logOffsetRef.current = chunk.offset;
+      setLogText((previous) => previous + newText);
+    },
   });
 
+  const logSections = useMemo(() => groupLogLinesByStage(logText), [logText]);
+
+  // Which log is shown: the deployment (build) log or the running application's output
+  const [logTab, setLogTab] = useState<'build' | 'runtime'>('build');
+
   // Ref for the logs area to enable auto-scrolling
   const logAreaRef = useRef<HTMLDivElement>(null); // Changed ref type to HTMLDivElement for the container
 
   // State to track if the user has scrolled away from the bottom
   const [isScrolledToBottom, setIsScrolledToBottom] = useState(true);
 
-  // Effect to stop polling when deployment is in a final state or encounters an error
-  useEffect(() => {
-    const status = statusData?.deploymentStatus?.status;
-    // Stop polling if status is success or failed
-    if (status && (status === 'success' || status === 'failed')) {
-      console.log(`Deployment ${deploymentId} reached final status: ${status}. Stopping polling.`);
-      stopStatusPolling(); // Stop status polling
-      stopLogsPolling(); // Stop log polling
-    }
-     // Also stop polling if there's a status error
-     if (statusError) {
-         console.error(`Status error for deployment ${deploymentId}. Stopping polling.`);
-         stopStatusPolling();
-         stopLogsPolling();
-     }
-     // Stop polling if deployment is not found (e.g., deleted)
-     if (!statusLoading && !statusData?.deploymentStatus && !statusError) {
-          console.log(`Deployment ${deploymentId} not found. Stopping polling.`);
-          stopStatusPolling();
-          stopLogsPolling();
-     }
-
-  }, [statusData, deploymentId, stopStatusPolling, stopLogsPolling, statusError, statusLoading]);
-
-
   // Effect to handle scroll event listener
   useEffect(() => {
       const logArea = logAreaRef.current;
@@ -140,8 +259,8 @@ const DeploymentStatusDetails: React.FC<DeploymentStatusDetailsProps> = ({ deplo
 
            return () => clearTimeout(timeoutId); // Clean up timeout
        }
-       // This effect should re-run when logsData changes (new logs) or isScrolledToBottom changes
-  }, [logsData, isScrolledToBottom]);
+       // This effect should re-run when logText changes (new logs) or isScrolledToBottom changes
+  }, [logText, isScrolledToBottom]);
 
 
   // Show loading state for the status
@@ -195,9 +314,14 @@ const DeploymentStatusDetails: React.FC<DeploymentStatusDetailsProps> = ({ deplo
        );
   }
 
-  // Get log content and loading/error states for logs
-  const logContent = logsData?.deploymentLogs || 'Waiting for logs...';
-  const currentLogState = logsLoading ? 'loading' : logsError ? 'error' : 'loaded';
+  // Get loading/error states for logs
+  const currentLogState = logsError ? 'error' : logsLoading && !logText ? 'loading' : 'loaded';
+
+  // Bars of the stage timeline are scaled to the time all stages took together
+  const totalStageMs = deployment.stages.reduce(
+    (total, stage) => total + (stage.durationMs ?? Date.now() - Number(stage.startedAt)),
+    0
+  ) || 1;
 
   // Link back to the project detail page
   const projectDetailLink = `/projects/${deployment.projectId}`;
@@ -229,8 +353,13 @@ const DeploymentStatusDetails: React.FC<DeploymentStatusDetailsProps> = ({ deplo
              <div className="flex items-center gap-2">
                <span className="text-sm font-medium">Status:</span>
                <Badge variant={getStatusBadgeVariant(deployment.status)}>
-                 {deployment.status.toUpperCase()}
+                 {formatDeploymentStatus(deployment.status)}
                </Badge>
+               {isDeploymentInProgress(deployment.status) && (
+                 <Button size="sm" variant="outline" onClick={handleCancel} disabled={cancelLoading}>
+                   {cancelLoading ? 'Cancelling...' : 'Cancel'}
+                 </Button>
+               )}
              </div>
 
              {/* Dockerfile Used */}
@@ -241,8 +370,47 @@ const DeploymentStatusDetails: React.FC<DeploymentStatusDetailsProps> = ({ deplo
                </div>
              )}
 
-             {/* Version/Commit Hash */}
-             {deployment.version && (
+             {/* Package manager the dependencies were installed with */}
+             {deployment.packageManager && (
+               <div className="text-sm flex items-center gap-2">
+                 <span className="font-medium">Package manager:</span>{' '}
+                 <span>{deployment.packageManager}</span>
+               </div>
+             )}
+
+             {/* What runs the application */}
+             {deployment.runtime && (
+               <div className="text-sm flex items-center gap-2">
+                 <span className="font-medium">Runtime:</span>{' '}
+                 <span>{deployment.runtime === 'docker' ? 'Docker container' : 'PM2 process'}</span>
+               </div>
+             )}
+
+             {/* Requested branch or tag */}
+             {deployment.gitRef && (
+                 <div className="text-sm flex items-center gap-2">
+                     <span className="font-medium">Ref:</span>{' '}
+                     <span className="font-mono">{deployment.gitRef}</span>
+                 </div>
+             )}
+
+             {/* Deployed commit */}
+             {deployment.commitSha && (
+                 <div className="text-sm flex items-center gap-2 md:col-span-2">
+                     <span className="font-medium">Commit:</span>{' '}
+                     <span className="font-mono" title={deployment.commitSha}>{deployment.commitSha.slice(0, 7)}</span>
+                     {deployment.commitMessage && <span className="truncate">{deployment.commitMessage}</span>}
+                     {deployment.commitAuthor && (
+                         <span className="text-gray-500 dark:text-gray-400">
+                             by {deployment.commitAuthor}
+                             {deployment.commitTimestamp && <> {timeAgo(deployment.commitTimestamp)}</>}
+                         </span>
+                     )}
+                 </div>
+             )}
+
+             {/* Version (when no commit was recorded) */}
+             {!deployment.commitSha && deployment.version && (
                  <div className="text-sm flex items-center gap-2">
                      <span className="font-medium">Version:</span>{' '}
                      <span className="font-mono">{deployment.version.slice(0, 7)}</span> {/* Display first 7 chars */}
@@ -250,7 +418,7 @@ const DeploymentStatusDetails: React.FC<DeploymentStatusDetailsProps> = ({ deplo
              )}
 
              {/* Live URL (only if successful and URL exists) */}
-             {deployment.status === 'success' && deployment.deploymentUrl && (
+             {deployment.status === 'ready' && deployment.deploymentUrl && (
                  <div className="text-sm flex items-center gap-2">
                      <span className="font-medium">Live URL:</span>{' '}
                      <a href={deployment.deploymentUrl} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">
@@ -261,6 +429,13 @@ const DeploymentStatusDetails: React.FC<DeploymentStatusDetailsProps> = ({ deplo
         </div>
 
 
+        {/* Cancellation note */}
+        {deployment.status === 'cancelled' && (
+            <div className="text-sm text-gray-600 dark:text-gray-400 p-3 border rounded-md">
+                {deployment.errorMessage || 'Deployment was cancelled.'}
+            </div>
+        )}
+
         {/* Error Message (only if failed) */}
         {deployment.status === 'failed' && deployment.errorMessage && (
             <div className="text-sm text-red-600 dark:text-red-400 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-700 rounded-md"> {/* Styled error box */}
@@ -268,9 +443,49 @@ const DeploymentStatusDetails: React.FC<DeploymentStatusDetailsProps> = ({ deplo
             </div>
         )}
 
+        {/* --- Stage Timeline --- */}
+        {deployment.stages.length > 0 && (
+            <div>
+                <h3 className="text-lg font-semibold mb-2">Timeline</h3>
+                <div className="space-y-1">
+                    {deployment.stages.map((stage) => {
+                        // A running stage has no duration yet; show how long it has been going
+                        const durationMs = stage.durationMs ?? Date.now() - Number(stage.startedAt);
+                        return (
+                            <div key={stage.name} className="grid grid-cols-[10rem_1fr_5rem] items-center gap-2 text-sm">
+                                <span className="font-medium">{formatDeploymentStatus(stage.name)}</span>
+                                <div className="h-2 rounded bg-gray-200 dark:bg-gray-700" title={stage.error ?? undefined}>
+                                    <div
+                                        className={`h-2 rounded ${stage.error ? 'bg-red-500' : stage.finishedAt ? 'bg-green-500' : 'bg-blue-500 animate-pulse'}`}
+                                        style={{ width: `${Math.max(2, (durationMs / totalStageMs) * 100)}%` }}
+                                    />
+                                </div>
+                                <span className="text-right text-gray-500 dark:text-gray-400">
+                                    {stage.finishedAt ? formatDuration(durationMs) : 'running'}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        )}
+
         {/* --- Deployment Logs Section --- */}
         <div>
-            <h3 className="text-lg font-semibold mb-2">Logs</h3>
+            <div className="flex items-center gap-4 mb-2">
+                <h3 className="text-lg font-semibold">Logs</h3>
+                <div className="flex gap-1">
+                    <Button size="sm" variant={logTab === 'build' ? 'secondary' : 'ghost'} onClick={() => setLogTab('build')}>
+                        Build
+                    </Button>
+                    <Button size="sm" variant={logTab === 'runtime' ? 'secondary' : 'ghost'} onClick={() => setLogTab('runtime')}>
+                        Runtime
+                    </Button>
+                </div>
+            </div>
+            {logTab === 'runtime' && <RuntimeLogs deploymentId={deployment.id} />}
+            {/* The build log stays mounted while hidden so its scroll position and listener survive tab switches */}
+            <div className={logTab === 'build' ? undefined : 'hidden'}>
             {currentLogState === 'loading' && (
                 <p className="text-sm text-gray-500 dark:text-gray-400">Loading logs...</p>
             )}
@@ -283,9 +498,28 @@ const DeploymentStatusDetails: React.FC<DeploymentStatusDetailsProps> = ({ deplo
                  ref={logAreaRef}
                  className="bg-gray-800 text-gray-200 p-4 rounded-md overflow-y-auto overflow-x-auto text-sm max-h-80 font-mono" // Added overflow-y-auto
              >
-                 {/* The pre tag itself doesn't need the ref for scrolling */}
-                 <pre className="whitespace-pre-wrap break-words">{logContent}</pre>
+                 {logSections.length === 0 && <pre>Waiting for logs...</pre>}
+                 {/* One collapsible section per stage (clone, build, extract, serve, proxy) */}
+                 {logSections.map((section, index) => (
+                     <details key={index} open className="mb-2">
+                         <summary className="cursor-pointer select-none text-gray-400 uppercase text-xs tracking-wide">
+                             {section.stage ?? 'output'} ({section.lines.length} {section.lines.length === 1 ? 'line' : 'lines'})
+                         </summary>
+                         <pre className="whitespace-pre-wrap break-words">
+                             {section.lines.map((line, lineIndex) => (
+                                 <div
+                                     key={lineIndex}
+                                     className={line.stream === 'stderr' ? 'text-red-400' : undefined}
+                                     title={line.timestamp ?? undefined}
+                                 >
+                                     {line.text || ' '}
+                                 </div>
+                             ))}
+                         </pre>
+                     </details>
+                 ))}
              </div>
+            </div>
         </div>
         {/* --- End Deployment Logs Section --- */}
 
@@ -295,8 +529,8 @@ const DeploymentStatusDetails: React.FC<DeploymentStatusDetailsProps> = ({ deplo
       {/* These actions could also be placed here instead of or in addition to the ProjectItem dropdown */}
       {/*
       <CardFooter>
-           <Button variant="outline" disabled={loading || deployment.status === 'deploying' || deployment.status === 'pending'}>Redeploy</Button>
-           <Button variant="destructive" disabled={loading || deployment.status === 'deploying' || deployment.status === 'pending'}>Delete</Button>
+           <Button variant="outline" disabled={loading || isDeploymentInProgress(deployment.status)}>Redeploy</Button>
+           <Button variant="destructive" disabled={loading || isDeploymentInProgress(deployment.status)}>Delete</Button>
       </CardFooter>
       */}
     </Card>
@@ -7,7 +7,7 @@ import { Button } from '@/components/ui/button'; // Shadcn button
 import { Badge } from '@/components/ui/badge'; // Shadcn badge for status
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'; // Shadcn dropdown menu
 import { EllipsisVerticalIcon } from '@heroicons/react/24/outline'; // Example icon (install @heroicons/react)
-import { timeAgo } from '@/lib/utils';
+import { isDeploymentInProgress, timeAgo } from '@/lib/utils';
 
 // Define the expected structure of a project object
 interface Project {
@@ -31,14 +31,16 @@ interface ProjectItemProps {
 
 // Helper function to determine badge color based on deployment status
 const getStatusBadgeVariant = (status?: string | null) => {
+  if (isDeploymentInProgress(status)) {
+    return 'secondary'; // Grayish color
+  }
   switch (status) {
-    case 'success':
+    case 'ready':
       return 'default'; // Greenish color by default in shadcn
     case 'failed':
       return 'destructive'; // Red color
-    case 'deploying':
-    case 'pending':
-      return 'secondary'; // Grayish color
+    case 'cancelled':
+      return 'outline'; // Stopped on request, not an error
     default:
       return 'outline'; // Default outline for no status
   }
@@ -130,7 +132,7 @@ const ProjectItem: React.FC<ProjectItemProps> = ({ project }) => {
          <span>Created: {timeAgo(Number(project.createdAt))}</span> {/* Display creation date */}
          {project.deployments
          && 
-          project.deployments[0]?.status === 'success' && project.deployments[0]?.deploymentUrl && (
+          project.deployments[0]?.status === 'ready' && project.deployments[0]?.deploymentUrl && (
               <Link href={project.deployments[0].deploymentUrl} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">
                   View Live
               </Link>
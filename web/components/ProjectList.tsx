@@ -22,7 +22,7 @@ const GET_PROJECTS = gql`
       # # Include the latest deployment status if available in your schema
       # latestDeployment { # Assuming a relationship field like 'latestDeployment' on Project
       #   id
-      #   status # e.g., 'pending', 'deploying', 'success', 'failed'
+      #   status # e.g., 'queued', 'building', 'ready', 'failed', 'cancelled'
       #   createdAt
       #   deploymentUrl # Include URL if needed for quick access
       # }
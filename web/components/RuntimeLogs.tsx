@@ -0,0 +1,104 @@
+// web/components/RuntimeLogs.tsx
+'use client'; // This is a client component
+
+import { useEffect, useRef, useState } from 'react';
+import { useQuery, useSubscription, gql } from '@apollo/client';
+
+// Most recent runtime output of the deployment's application
+// This query is defined in web/graphql/queries/getRuntimeLogs.graphql
+const GET_RUNTIME_LOGS = gql`
+  query GetRuntimeLogs($deploymentId: Int!, $tail: Int) {
+    runtimeLogs(deploymentId: $deploymentId, tail: $tail) {
+      timestamp
+      stream
+      text
+    }
+  }
+`;
+
+// Runtime output written from now on
+// This subscription is defined in web/graphql/subscriptions/runtimeLogAppended.graphql
+const RUNTIME_LOG_APPENDED = gql`
+  subscription RuntimeLogAppended($deploymentId: Int!) {
+    runtimeLogAppended(deploymentId: $deploymentId) {
+      timestamp
+      stream
+      text
+    }
+  }
+`;
+
+// How many lines to load initially and keep on screen
+const RUNTIME_LOG_LINES = 500;
+
+interface RuntimeLogLine {
+  timestamp: string | null;
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+interface RuntimeLogsProps {
+  deploymentId: number; // The ID of the deployment whose application output to show
+}
+
+const RuntimeLogs: React.FC<RuntimeLogsProps> = ({ deploymentId }) => {
+  const { data, loading, error } = useQuery(GET_RUNTIME_LOGS, {
+    variables: { deploymentId, tail: RUNTIME_LOG_LINES },
+    fetchPolicy: 'network-only', // Always start from the current end of the log
+  });
+
+  // Lines received over the subscription since the initial load
+  const [newLines, setNewLines] = useState<RuntimeLogLine[]>([]);
+  const { error: subscriptionError } = useSubscription(RUNTIME_LOG_APPENDED, {
+    variables: { deploymentId },
+    skip: loading, // Subscribe once the initial lines are in, so none are shown twice
+    onData: ({ data: subscriptionData }) => {
+      const lines: RuntimeLogLine[] = subscriptionData.data?.runtimeLogAppended ?? [];
+      if (lines.length > 0) {
+        setNewLines((previous) => [...previous, ...lines].slice(-RUNTIME_LOG_LINES));
+      }
+    },
+  });
+
+  const lines: RuntimeLogLine[] = [...(data?.runtimeLogs ?? []), ...newLines].slice(-RUNTIME_LOG_LINES);
+
+  // Keep the newest output in view
+  const logAreaRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const logArea = logAreaRef.current;
+    if (logArea) logArea.scrollTop = logArea.scrollHeight;
+  }, [lines.length]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading runtime logs...</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-red-500">Error loading runtime logs: {error.message}</p>;
+  }
+
+  return (
+    <div>
+      {subscriptionError && (
+        <p className="text-sm text-red-500 mb-2">Live updates unavailable: {subscriptionError.message}</p>
+      )}
+      <div
+        ref={logAreaRef}
+        className="bg-gray-800 text-gray-200 p-4 rounded-md overflow-y-auto overflow-x-auto text-sm max-h-80 font-mono"
+      >
+        <pre className="whitespace-pre-wrap break-words">
+          {lines.length === 0 && 'The application has not written any output yet.'}
+          {lines.map((line, index) => (
+            <div key={index} className={line.stream === 'stderr' ? 'text-red-400' : undefined}>
+              {line.timestamp && (
+                <span className="text-gray-500">{new Date(line.timestamp).toLocaleTimeString()} </span>
+              )}
+              {line.text || ' '}
+            </div>
+          ))}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default RuntimeLogs;
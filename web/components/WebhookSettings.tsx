@@ -0,0 +1,69 @@
+// web/components/WebhookSettings.tsx
+'use client'; // This is a client component
+
+import { useState } from 'react';
+import { useMutation, gql } from '@apollo/client';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+
+// GraphQL Mutation to replace a project's webhook secret
+const REGENERATE_WEBHOOK_SECRET_MUTATION = gql`
+  mutation RegenerateWebhookSecret($projectId: Int!) {
+    regenerateWebhookSecret(projectId: $projectId) {
+      id
+      webhookSecret
+    }
+  }
+`;
+
+interface WebhookSettingsProps {
+  projectId: number;
+  webhookSecret: string; // Secret the project's GitHub push webhook must be signed with
+}
+
+// Shows what to set on the repository's GitHub webhook so that pushes deploy the project
+const WebhookSettings: React.FC<WebhookSettingsProps> = ({ projectId, webhookSecret }) => {
+  const [revealed, setRevealed] = useState(false);
+  const [regenerateSecret, { loading }] = useMutation(REGENERATE_WEBHOOK_SECRET_MUTATION);
+
+  const handleRegenerate = async () => {
+    if (!window.confirm('Deliveries signed with the current secret will be rejected. Regenerate it?')) {
+      return;
+    }
+    try {
+      // The mutation returns the project's id, so Apollo updates the cached secret
+      await regenerateSecret({ variables: { projectId } });
+      setRevealed(true);
+      toast.success('Webhook secret regenerated', {
+        description: 'Update the secret on the GitHub webhook.',
+      });
+    } catch (error: unknown) {
+      console.error(`Error regenerating the webhook secret of project ${projectId}:`, error);
+      toast.error('Failed to regenerate the webhook secret', {
+        description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+      });
+    }
+  };
+
+  return (
+    <div className='space-y-2'>
+      <p className='text-sm text-gray-600 dark:text-gray-400'>
+        Add a GitHub webhook (content type <code>application/json</code>, event <code>push</code>) to the repository
+        with this secret to deploy on every push to the production branch.
+      </p>
+      <div className='flex items-center gap-2'>
+        <code className='flex-1 truncate rounded bg-gray-100 dark:bg-gray-800 px-2 py-1 text-sm'>
+          {revealed ? webhookSecret : '•'.repeat(32)}
+        </code>
+        <Button variant='outline' size='sm' onClick={() => setRevealed(!revealed)}>
+          {revealed ? 'Hide' : 'Show'}
+        </Button>
+        <Button variant='outline' size='sm' onClick={handleRegenerate} disabled={loading}>
+          {loading ? 'Regenerating...' : 'Regenerate'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default WebhookSettings;
@@ -2,8 +2,11 @@
 
 'use client'; // This file uses client-side features like localStorage
 
-import { ApolloClient, InMemoryCache, createHttpLink, ApolloLink } from '@apollo/client';
+import { ApolloClient, InMemoryCache, createHttpLink, ApolloLink, split } from '@apollo/client';
 import { setContext } from '@apollo/client/link/context';
+import { GraphQLWsLink } from '@apollo/client/link/subscriptions';
+import { getMainDefinition } from '@apollo/client/utilities';
+import { createClient } from 'graphql-ws';
 
 // Get the GraphQL API URL from environment variables
 // Ensure NEXT_PUBLIC_GRAPHQL_ENDPOINT is set in your .env.local file
@@ -42,10 +45,41 @@ const authLink = setContext((_, { headers }) => {
   };
 });
 
+// Subscriptions go over a WebSocket to the same server (e.g. ws://localhost:4000/graphql)
+const graphqlWsUrl = process.env.NEXT_PUBLIC_GRAPHQL_WS_ENDPOINT || graphqlApiUrl.replace(/^http/, 'ws');
+
+// The WebSocket only exists in the browser; the token is sent as a connection parameter
+const wsLink =
+  typeof window !== 'undefined'
+    ? new GraphQLWsLink(
+        createClient({
+          url: graphqlWsUrl,
+          connectionParams: () => {
+            const token = localStorage.getItem('token');
+            return { authorization: token ? `Bearer ${token}` : '' };
+          },
+        })
+      )
+    : null;
+
+const httpChain = ApolloLink.from([authLink, httpLink]);
+
+// Send subscriptions to the WebSocket link and everything else over HTTP
+const link = wsLink
+  ? split(
+      ({ query }) => {
+        const definition = getMainDefinition(query);
+        return definition.kind === 'OperationDefinition' && definition.operation === 'subscription';
+      },
+      wsLink,
+      httpChain
+    )
+  : httpChain;
+
 // Create the Apollo Client instance
 const client = new ApolloClient({
-  // Chain the authLink and httpLink
-  link: ApolloLink.from([authLink, httpLink]),
+  // Chain the authLink and httpLink (or the WebSocket link for subscriptions)
+  link,
   // Use an in-memory cache
   cache: new InMemoryCache(),
   // Optional: Add other configurations like error handling, type policies, etc.
@@ -5,20 +5,40 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// Statuses of a deployment that has not finished yet: waiting in the queue or in one of its stages
+export const IN_PROGRESS_DEPLOYMENT_STATUSES = ['queued', 'cloning', 'building', 'extracting', 'starting', 'configuring_proxy'];
+
+export const isDeploymentInProgress = (status?: string | null): boolean =>
+  !!status && IN_PROGRESS_DEPLOYMENT_STATUSES.includes(status);
+
+// 'configuring_proxy' -> 'CONFIGURING PROXY'
+export const formatDeploymentStatus = (status: string): string => status.replace(/_/g, ' ').toUpperCase();
+
 export const getStatusBadgeVariant = (status: string) => {
+  if (isDeploymentInProgress(status)) {
+    return 'secondary'; // Grayish color
+  }
   switch (status) {
-    case 'success':
+    case 'ready':
       return 'default'; // Greenish color by default in shadcn
     case 'failed':
       return 'destructive'; // Red color
-    case 'deploying':
-    case 'pending':
-      return 'secondary'; // Grayish color
+    case 'cancelled':
+      return 'outline'; // Stopped on request, not an error
     default:
       return 'outline'; // Default outline
   }
 };
 
+// 850 -> '850ms', 12300 -> '12.3s', 125000 -> '2m 5s'
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
 
 export function timeAgo(timestamp: number | string): string {
   const now = Date.now();